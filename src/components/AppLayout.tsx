@@ -1,4 +1,4 @@
-import { ReactNode } from 'react'
+import { ReactNode, useEffect, useState } from 'react'
 import { Layout, Button, Dropdown, Space, Typography, MenuProps, Menu } from 'antd'
 import {
   MenuFoldOutlined,
@@ -10,10 +10,31 @@ import {
   DesktopOutlined,
   DashboardOutlined,
   TagOutlined,
+  FireOutlined,
+  ClockCircleOutlined,
+  CheckOutlined,
+  UnorderedListOutlined,
+  AppstoreOutlined,
+  ProjectOutlined,
+  BorderInnerOutlined,
+  UserAddOutlined,
+  DatabaseOutlined,
+  ImportOutlined,
 } from '@ant-design/icons'
 import { useNavigate, useLocation } from 'react-router-dom'
 import { useAuthStore } from '@/stores/authStore'
 import { useUIStore } from '@/stores/uiStore'
+import { useTimerStore } from '@/stores/timerStore'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { FocusTimer } from '@/components/FocusTimer'
+import { OutboxStatus } from '@/components/OutboxStatus'
+import { GuestDataPrompt } from '@/components/GuestDataPrompt'
+import { ManageViewsModal } from '@/components/ManageViewsModal'
+import { BackupModal } from '@/components/BackupModal'
+import { ImportModal } from '@/components/ImportModal'
+import { viewModeConfig } from '@/lib/saved-view-utils'
+import { isSupabaseConfigured } from '@/lib/supabase'
 
 const { Header, Content, Sider } = Layout
 const { Text } = Typography
@@ -25,8 +46,20 @@ interface AppLayoutProps {
 export function AppLayout({ children }: AppLayoutProps) {
   const navigate = useNavigate()
   const location = useLocation()
-  const { user, signOut } = useAuthStore()
+  const { user, isGuest, signOut } = useAuthStore()
   const { theme, setTheme, sidebarCollapsed, toggleSidebar } = useUIStore()
+  const { logActualMinutes, setLogActualMinutes } = useTimerStore()
+  const { views, currentViewId, fetchViews, applyView, clearCurrentView } = useSavedViewStore()
+  const clearFilters = useTaskStore(state => state.clearFilters)
+  const [isManageViewsOpen, setIsManageViewsOpen] = useState(false)
+  const [isBackupOpen, setIsBackupOpen] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+
+  useEffect(() => {
+    if (user) {
+      fetchViews()
+    }
+  }, [user, fetchViews])
 
   const handleSignOut = async () => {
     await signOut()
@@ -61,6 +94,25 @@ export function AppLayout({ children }: AppLayoutProps) {
       icon: theme === 'dark' ? <MoonOutlined /> : <SunOutlined />,
       children: themeMenuItems,
     },
+    {
+      key: 'log-focus-time',
+      label: 'Log focus time on tasks',
+      icon: <ClockCircleOutlined />,
+      extra: logActualMinutes ? <CheckOutlined /> : null,
+      onClick: () => setLogActualMinutes(!logActualMinutes),
+    },
+    {
+      key: 'backup',
+      label: 'Backup & restore',
+      icon: <DatabaseOutlined />,
+      onClick: () => setIsBackupOpen(true),
+    },
+    {
+      key: 'import',
+      label: 'Import from other apps',
+      icon: <ImportOutlined />,
+      onClick: () => setIsImportOpen(true),
+    },
     {
       key: 'settings',
       label: 'Settings',
@@ -69,9 +121,20 @@ export function AppLayout({ children }: AppLayoutProps) {
     {
       type: 'divider',
     },
+    // Guests keep what they made when they sign up, so this is offered first
+    ...(isGuest && isSupabaseConfigured
+      ? [
+          {
+            key: 'signup',
+            label: 'Create an account',
+            icon: <UserAddOutlined />,
+            onClick: () => navigate('/signup'),
+          },
+        ]
+      : []),
     {
       key: 'signout',
-      label: 'Sign Out',
+      label: isGuest ? 'Leave guest mode' : 'Sign Out',
       icon: <LogoutOutlined />,
       danger: true,
       onClick: handleSignOut,
@@ -85,14 +148,73 @@ export function AppLayout({ children }: AppLayoutProps) {
       icon: <DashboardOutlined />,
       onClick: () => navigate('/dashboard'),
     },
+    {
+      key: '/tasks',
+      label: 'All Tasks',
+      icon: <UnorderedListOutlined />,
+      onClick: () => {
+        clearCurrentView()
+        clearFilters()
+        navigate('/tasks')
+      },
+    },
+    {
+      key: '/board',
+      label: 'Board',
+      icon: <ProjectOutlined />,
+      onClick: () => navigate('/board'),
+    },
+    {
+      key: '/matrix',
+      label: 'Matrix',
+      icon: <BorderInnerOutlined />,
+      onClick: () => navigate('/matrix'),
+    },
+    {
+      key: '/habits',
+      label: 'Habits',
+      icon: <FireOutlined />,
+      onClick: () => navigate('/habits'),
+    },
     {
       key: '/tags',
       label: 'Tags',
       icon: <TagOutlined />,
       onClick: () => navigate('/tags'),
     },
+    {
+      type: 'group',
+      key: 'views',
+      label: 'Views',
+      children: [
+        ...views
+          .filter(view => view.is_pinned)
+          .map(view => ({
+            key: `view:${view.id}`,
+            label: view.name,
+            icon: <span>{view.icon ?? '📋'}</span>,
+            onClick: () => {
+              applyView(view.id)
+              navigate(viewModeConfig[view.view_mode].path)
+            },
+          })),
+        {
+          key: 'manage-views',
+          label: 'Manage views',
+          icon: <AppstoreOutlined />,
+          onClick: () => setIsManageViewsOpen(true),
+        },
+      ],
+    },
   ]
 
+  // A saved view stays highlighted while its page is open
+  const currentView = views.find(view => view.id === currentViewId)
+  const selectedKey =
+    currentView && viewModeConfig[currentView.view_mode].path === location.pathname
+      ? `view:${currentView.id}`
+      : location.pathname
+
   return (
     <Layout className="min-h-screen">
       {/* Sidebar - Will be enhanced in Phase 2 */}
@@ -112,7 +234,7 @@ export function AppLayout({ children }: AppLayoutProps) {
 
         <Menu
           mode="inline"
-          selectedKeys={[location.pathname]}
+          selectedKeys={[selectedKey]}
           items={navMenuItems}
           className="border-r-0"
         />
@@ -130,11 +252,14 @@ export function AppLayout({ children }: AppLayoutProps) {
 
           <div className="flex-1" />
 
-          <Space>
+          <Space size="large">
+            <OutboxStatus />
+            <FocusTimer />
+
             <Dropdown menu={{ items: userMenuItems }} trigger={['click']} placement="bottomRight">
               <Button type="text">
                 <Space>
-                  <Text>{user?.email}</Text>
+                  <Text>{isGuest ? 'Guest' : user?.email}</Text>
                   <SettingOutlined />
                 </Space>
               </Button>
@@ -143,8 +268,15 @@ export function AppLayout({ children }: AppLayoutProps) {
         </Header>
 
         {/* Main Content */}
-        <Content className="p-6">{children}</Content>
+        <Content className="p-6">
+          <GuestDataPrompt />
+          {children}
+        </Content>
       </Layout>
+
+      <ManageViewsModal open={isManageViewsOpen} onClose={() => setIsManageViewsOpen(false)} />
+      <BackupModal open={isBackupOpen} onClose={() => setIsBackupOpen(false)} />
+      <ImportModal open={isImportOpen} onClose={() => setIsImportOpen(false)} />
     </Layout>
   )
 }
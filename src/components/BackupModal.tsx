@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { Modal, Button, Space, Typography, Upload, Radio, Alert, Divider, message } from 'antd'
+import { DownloadOutlined, UploadOutlined, DatabaseOutlined } from '@ant-design/icons'
+import { format } from 'date-fns'
+import { useAuthStore } from '@/stores/authStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { useTagStore } from '@/stores/tagStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { createBackup, restoreBackup } from '@/lib/backup'
+import { validateBackup } from '@/lib/backup-schema'
+import { Backup, ConflictStrategy, RestoreSummary } from '@/types/backup'
+
+const { Text, Paragraph } = Typography
+
+interface BackupModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+const strategyOptions: { value: ConflictStrategy; label: string; description: string }[] = [
+  { value: 'skip', label: 'Skip', description: 'Keep what you have; only add what is missing' },
+  { value: 'overwrite', label: 'Overwrite', description: 'Replace your items with the backup’s' },
+  { value: 'duplicate', label: 'Duplicate', description: 'Restore the backup’s items as copies' },
+]
+
+function describeSummary(summary: RestoreSummary): string {
+  const { created, updated, skipped } = Object.values(summary).reduce(
+    (total, counts) => ({
+      created: total.created + counts.created,
+      updated: total.updated + counts.updated,
+      skipped: total.skipped + counts.skipped,
+    }),
+    { created: 0, updated: 0, skipped: 0 }
+  )
+  return `${created} added, ${updated} replaced, ${skipped} skipped`
+}
+
+function download(backup: Backup) {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `dothething-backup-${format(new Date(backup.exported_at), 'yyyy-MM-dd')}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function BackupModal({ open, onClose }: BackupModalProps) {
+  const user = useAuthStore(state => state.user)
+  const [exporting, setExporting] = useState(false)
+  const [backup, setBackup] = useState<Backup | null>(null)
+  const [fileErrors, setFileErrors] = useState<string[]>([])
+  const [strategy, setStrategy] = useState<ConflictStrategy>('skip')
+  const [restoring, setRestoring] = useState(false)
+
+  const handleExport = async () => {
+    setExporting(true)
+    const { data, error } = await createBackup()
+    setExporting(false)
+
+    if (error || !data) {
+      message.error(`Failed to create backup: ${error?.message}`)
+      return
+    }
+    download(data)
+  }
+
+  const handleFile = async (file: File) => {
+    setBackup(null)
+    setFileErrors([])
+
+    let parsed: unknown
+    try {
+      parsed = JSON.parse(await file.text())
+    } catch {
+      setFileErrors(['The file is not valid JSON'])
+      return
+    }
+
+    const { data, errors } = validateBackup(parsed)
+    setBackup(data)
+    setFileErrors(errors)
+  }
+
+  const handleRestore = async () => {
+    if (!backup || !user) return
+
+    setRestoring(true)
+    const { data: summary, error } = await restoreBackup(backup, strategy, user.id)
+    setRestoring(false)
+
+    // Whatever was written before a failure is there, so show it either way
+    useTaskStore.getState().fetchTasks()
+    useTagStore.getState().fetchTags()
+    useRecurrenceStore.getState().fetchRecurrences()
+    useSavedViewStore.getState().fetchViews()
+
+    if (error) {
+      message.error(`Restore stopped: ${error.message} (${describeSummary(summary)})`)
+      return
+    }
+
+    message.success(`Backup restored: ${describeSummary(summary)}`)
+    setBackup(null)
+    onClose()
+  }
+
+  const handleClose = () => {
+    setBackup(null)
+    setFileErrors([])
+    onClose()
+  }
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <DatabaseOutlined />
+          Backup & Restore
+        </Space>
+      }
+      open={open}
+      onCancel={handleClose}
+      footer={null}
+      width={560}
+    >
+      <Paragraph type="secondary">
+        Download all your tasks, tags, habit history, recurrences and saved views as a JSON file.
+      </Paragraph>
+      <Button icon={<DownloadOutlined />} loading={exporting} onClick={handleExport}>
+        Download backup
+      </Button>
+
+      <Divider />
+
+      <Paragraph type="secondary">
+        Restore a backup into this account. The file is checked in full before anything is changed.
+      </Paragraph>
+      <Upload
+        accept="application/json,.json"
+        maxCount={1}
+        showUploadList={false}
+        beforeUpload={file => {
+          handleFile(file)
+          return false
+        }}
+      >
+        <Button icon={<UploadOutlined />}>Choose backup file</Button>
+      </Upload>
+
+      {fileErrors.length > 0 && (
+        <Alert
+          className="mt-4"
+          type="error"
+          showIcon
+          message="This file can't be restored"
+          description={
+            <ul className="list-disc pl-4">
+              {fileErrors.map(error => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          }
+        />
+      )}
+
+      {backup && (
+        <Space direction="vertical" className="w-full mt-4">
+          <Text>
+            Backup from {format(new Date(backup.exported_at), 'PPp')}: {backup.data.tasks.length}{' '}
+            tasks, {backup.data.tags.length} tags, {backup.data.saved_views.length} saved views
+          </Text>
+
+          <Text strong>When an item is already in your account</Text>
+          <Radio.Group value={strategy} onChange={event => setStrategy(event.target.value)}>
+            <Space direction="vertical">
+              {strategyOptions.map(option => (
+                <Radio key={option.value} value={option.value}>
+                  {option.label} <Text type="secondary">— {option.description}</Text>
+                </Radio>
+              ))}
+            </Space>
+          </Radio.Group>
+
+          <Button type="primary" loading={restoring} onClick={handleRestore}>
+            Restore
+          </Button>
+        </Space>
+      )}
+    </Modal>
+  )
+}
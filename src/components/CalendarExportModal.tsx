@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Modal, Button, Space, Typography, Radio } from 'antd'
+import { CalendarOutlined, DownloadOutlined } from '@ant-design/icons'
+import { useTaskStore, selectFilteredTasks } from '@/stores/taskStore'
+import { useTagStore } from '@/stores/tagStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { CalendarEntryKind, countCalendarTasks, createCalendar } from '@/lib/ical-export'
+import { DEFAULT_VIEW_SORT } from '@/lib/saved-view-utils'
+import { TaskFilters } from '@/types/task'
+import { SavedViewSort } from '@/types/saved-view'
+
+const { Text, Paragraph } = Typography
+
+interface CalendarExportModalProps {
+  open: boolean
+  onClose: () => void
+  name: string // Of the view or tag, used for the calendar and file names
+  filters: TaskFilters
+  sort?: SavedViewSort
+}
+
+const kindOptions: { value: CalendarEntryKind; label: string; description: string }[] = [
+  {
+    value: 'VEVENT',
+    label: 'Events',
+    description: 'All-day events on due dates, for Google Calendar, Outlook and the like',
+  },
+  {
+    value: 'VTODO',
+    label: 'To-dos',
+    description: 'For apps that show to-dos, such as Apple Reminders or Thunderbird',
+  },
+]
+
+function download(content: string, name: string) {
+  const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = `${name.replace(/[\\/:*?"<>|]+/g, '-').trim() || 'tasks'}.ics`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export function CalendarExportModal({
+  open,
+  onClose,
+  name,
+  filters,
+  sort = DEFAULT_VIEW_SORT,
+}: CalendarExportModalProps) {
+  const allTasks = useTaskStore(state => state.tasks)
+  const tags = useTagStore(state => state.tags)
+  const recurrences = useRecurrenceStore(state => state.recurrences)
+  const [kind, setKind] = useState<CalendarEntryKind>('VEVENT')
+
+  // Recurrence patterns become RRULEs, so they have to be loaded
+  useEffect(() => {
+    if (open) {
+      useTaskStore.getState().fetchTasks()
+      useRecurrenceStore.getState().fetchRecurrences()
+    }
+  }, [open])
+
+  const tasks = useMemo(
+    () =>
+      selectFilteredTasks({
+        tasks: allTasks,
+        filters,
+        sortBy: sort.field,
+        sortOrder: sort.direction,
+      }),
+    [allTasks, filters, sort]
+  )
+  const count = countCalendarTasks(tasks)
+
+  const handleDownload = () => {
+    download(createCalendar(tasks, { name, kind, tags, recurrences }), name)
+    onClose()
+  }
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <CalendarOutlined />
+          Download calendar
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      footer={
+        <Button
+          type="primary"
+          icon={<DownloadOutlined />}
+          disabled={count === 0}
+          onClick={handleDownload}
+        >
+          Download .ics
+        </Button>
+      }
+      width={520}
+    >
+      <Paragraph type="secondary">
+        An iCalendar file with the due and scheduled dates of the tasks in “{name}”. Import it into
+        your calendar app; download it again to bring it up to date.
+      </Paragraph>
+
+      <Radio.Group value={kind} onChange={event => setKind(event.target.value)}>
+        <Space direction="vertical">
+          {kindOptions.map(option => (
+            <Radio key={option.value} value={option.value}>
+              {option.label} <Text type="secondary">— {option.description}</Text>
+            </Radio>
+          ))}
+        </Space>
+      </Radio.Group>
+
+      <Paragraph className="mt-4 mb-0">
+        {count === 0
+          ? 'None of these tasks has a due or scheduled date.'
+          : `${count} of ${tasks.length} tasks have a date and will be included.`}
+      </Paragraph>
+    </Modal>
+  )
+}
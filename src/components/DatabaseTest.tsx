@@ -1,5 +1,5 @@
 import { useEffect, useState } from 'react'
-import { supabase } from '@/lib/supabase'
+import { getSupabase } from '@/lib/supabase'
 import { Alert, Spin } from 'antd'
 
 export function DatabaseTest() {
@@ -10,7 +10,7 @@ export function DatabaseTest() {
     const testConnection = async () => {
       try {
         // Test connection by attempting to fetch from tags table
-        const { error } = await supabase.from('tags').select('id').limit(1)
+        const { error } = await getSupabase().from('tags').select('id').limit(1)
 
         if (error) {
           throw error
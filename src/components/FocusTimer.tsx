@@ -0,0 +1,58 @@
+import { useEffect } from 'react'
+import { Space, Typography, notification } from 'antd'
+import { useTimerStore } from '@/stores/timerStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { TaskTimer } from '@/components/TaskTimer'
+import { useNow } from '@/hooks/useNow'
+import { isTimerExpired } from '@/lib/timer-utils'
+import { showBrowserNotification } from '@/lib/notifications'
+
+const { Text } = Typography
+
+// Header indicator for the running focus timer. It also finishes the timer when the
+// countdown runs out, including one that expired while the app was closed.
+export function FocusTimer() {
+  const activeTimer = useTimerStore(state => state.activeTimer)
+  const finishTimer = useTimerStore(state => state.finishTimer)
+  const task = useTaskStore(state =>
+    activeTimer ? state.tasks.find(t => t.id === activeTimer.taskId) : undefined
+  )
+  const now = useNow(activeTimer?.status === 'running')
+
+  const expired =
+    !!activeTimer && activeTimer.status === 'running' && isTimerExpired(activeTimer, now)
+
+  useEffect(() => {
+    if (!expired) return
+
+    const title = task?.title ?? 'Focus session'
+    finishTimer().then(({ minutes, error }) => {
+      if (error) {
+        notification.error({ message: 'Could not log focus time', description: error.message })
+        return
+      }
+
+      notification.success({
+        message: 'Focus session complete',
+        description: `${title} · ${minutes} min`,
+        duration: 0,
+      })
+      showBrowserNotification('Focus session complete', `${title} · ${minutes} min`)
+    })
+  }, [expired, finishTimer, task?.title])
+
+  if (!activeTimer) {
+    return null
+  }
+
+  return (
+    <Space>
+      <Text type="secondary" ellipsis className="max-w-48">
+        {task?.title ?? 'Focus session'}
+      </Text>
+      <TaskTimer
+        task={{ id: activeTimer.taskId, timer_duration_minutes: activeTimer.durationMinutes }}
+      />
+    </Space>
+  )
+}
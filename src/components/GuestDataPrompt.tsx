@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react'
+import { Alert, Button, Popconfirm, Space, message } from 'antd'
+import { useAuthStore } from '@/stores/authStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { useTagStore } from '@/stores/tagStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { discardGuestData, moveGuestDataToAccount, readGuestData } from '@/lib/guest-migration'
+import { UserData } from '@/lib/backup'
+
+// Offers to move what was made in guest mode into the account that has just signed in. The
+// move needs a session to get past RLS, so the offer waits for one; the guest's data stays in the
+// browser until a move has gone through.
+export function GuestDataPrompt() {
+  const user = useAuthStore(state => state.user)
+  const isGuest = useAuthStore(state => state.isGuest)
+  const hasSession = useAuthStore(state => state.session !== null)
+  const [guestData, setGuestData] = useState<UserData | null>(null)
+  const [moving, setMoving] = useState(false)
+
+  useEffect(() => {
+    if (!user || isGuest || !hasSession) return
+
+    readGuestData().then(({ data, error }) => {
+      if (error) {
+        console.error('Error reading guest data:', error)
+      }
+      setGuestData(data)
+    })
+  }, [user, isGuest, hasSession])
+
+  if (!guestData || !user || isGuest || !hasSession) {
+    return null
+  }
+
+  const handleMove = async () => {
+    setMoving(true)
+    const { error } = await moveGuestDataToAccount(user.id)
+    setMoving(false)
+
+    if (error) {
+      message.error(`Failed to move your guest data: ${error.message}`)
+      return
+    }
+
+    message.success('Your guest data is now in your account')
+    setGuestData(null)
+    useTaskStore.getState().fetchTasks()
+    useTagStore.getState().fetchTags()
+    useRecurrenceStore.getState().fetchRecurrences()
+    useSavedViewStore.getState().fetchViews()
+  }
+
+  const handleDiscard = async () => {
+    const { error } = await discardGuestData()
+    if (error) {
+      message.error(`Failed to discard your guest data: ${error.message}`)
+      return
+    }
+    setGuestData(null)
+  }
+
+  const taskCount = guestData.tasks.length
+  const tagCount = guestData.tags.length
+
+  return (
+    <Alert
+      className="mb-4"
+      type="info"
+      showIcon
+      message="You have data from guest mode"
+      description={`${taskCount} ${taskCount === 1 ? 'task' : 'tasks'} and ${tagCount} ${
+        tagCount === 1 ? 'tag' : 'tags'
+      } made without an account are stored in this browser. Move them into your account to keep them.`}
+      action={
+        <Space direction="vertical">
+          <Button type="primary" size="small" loading={moving} onClick={handleMove}>
+            Move to my account
+          </Button>
+          <Popconfirm
+            title="Discard guest data?"
+            description="Everything made in guest mode will be deleted from this browser."
+            okText="Discard"
+            okButtonProps={{ danger: true }}
+            onConfirm={handleDiscard}
+          >
+            <Button size="small" danger disabled={moving}>
+              Discard
+            </Button>
+          </Popconfirm>
+        </Space>
+      }
+    />
+  )
+}
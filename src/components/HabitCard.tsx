@@ -0,0 +1,119 @@
+import { Card, Space, Typography, Button, Statistic, Tooltip } from 'antd'
+import { CheckOutlined, FireOutlined, TrophyOutlined, UndoOutlined } from '@ant-design/icons'
+import { TaskWithTags } from '@/types/task'
+import { Completion } from '@/types/completion'
+import { HabitHeatmap } from '@/components/HabitHeatmap'
+import { colors } from '@/lib/design-tokens'
+import {
+  getCompletionsInPeriod,
+  getHabitTarget,
+  getHabitTargetDescription,
+  isHabitDoneToday,
+} from '@/lib/habit-utils'
+import { format, parseISO } from 'date-fns'
+
+const { Text, Paragraph } = Typography
+
+interface HabitCardProps {
+  habit: TaskWithTags
+  completions: Completion[]
+  onToggleToday?: () => void
+  onClick?: () => void
+  loading?: boolean
+}
+
+export function HabitCard({
+  habit,
+  completions,
+  onToggleToday,
+  onClick,
+  loading = false,
+}: HabitCardProps) {
+  const target = getHabitTarget(habit)
+  const isDoneToday = isHabitDoneToday(habit)
+  const completedInPeriod = getCompletionsInPeriod(
+    completions.map(completion => parseISO(completion.completed_at)),
+    target.period
+  )
+
+  const handleCardClick = (e: React.MouseEvent) => {
+    // Don't trigger if clicking on buttons or the heatmap
+    if ((e.target as HTMLElement).closest('button, .habit-heatmap')) {
+      return
+    }
+    onClick?.()
+  }
+
+  return (
+    <Card
+      className="hover:shadow-md transition-shadow cursor-pointer"
+      onClick={handleCardClick}
+      styles={{
+        body: {
+          borderLeft: `4px solid ${habit.current_streak > 0 ? colors.warning : colors.archived}`,
+        },
+      }}
+    >
+      <Space direction="vertical" className="w-full" size="middle">
+        {/* Header */}
+        <div className="flex items-start justify-between gap-2">
+          <div className="flex-1">
+            <Text strong className="text-base">
+              {habit.title}
+            </Text>
+            <div>
+              <Text type="secondary" className="text-sm">
+                {getHabitTargetDescription(target)}
+                {target.period !== 'day' &&
+                  ` · ${completedInPeriod}/${target.count} this ${target.period}`}
+              </Text>
+            </div>
+            {habit.description && (
+              <Paragraph type="secondary" className="!mb-0 text-sm" ellipsis={{ rows: 1 }}>
+                {habit.description}
+              </Paragraph>
+            )}
+          </div>
+
+          <Tooltip
+            title={
+              isDoneToday && habit.last_completed_at
+                ? `Done at ${format(parseISO(habit.last_completed_at), 'h:mm a')}. Click to undo.`
+                : undefined
+            }
+          >
+            <Button
+              type={isDoneToday ? 'default' : 'primary'}
+              icon={isDoneToday ? <UndoOutlined /> : <CheckOutlined />}
+              onClick={onToggleToday}
+              loading={loading}
+            >
+              {isDoneToday ? 'Done today' : 'Done'}
+            </Button>
+          </Tooltip>
+        </div>
+
+        {/* Streaks */}
+        <Space size="large">
+          <Statistic
+            title="Current streak"
+            value={habit.current_streak}
+            prefix={<FireOutlined style={{ color: colors.warning }} />}
+            valueStyle={{ fontSize: 20 }}
+          />
+          <Statistic
+            title="Longest streak"
+            value={habit.longest_streak}
+            prefix={<TrophyOutlined style={{ color: colors.success }} />}
+            valueStyle={{ fontSize: 20 }}
+          />
+        </Space>
+
+        {/* Heatmap */}
+        <div className="habit-heatmap overflow-x-auto">
+          <HabitHeatmap completions={completions} />
+        </div>
+      </Space>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+import { Tooltip, Typography } from 'antd'
+import { addDays, format, parseISO, startOfDay, startOfWeek, subWeeks } from 'date-fns'
+import { Completion } from '@/types/completion'
+
+const { Text } = Typography
+
+interface HabitHeatmapProps {
+  completions: Completion[]
+  weeks?: number
+  now?: Date
+}
+
+// GitHub-style intensity scale: no completions, then 1, 2, 3 and 4+
+const intensityColors = ['#EBEDF0', '#9BE9A8', '#40C463', '#30A14E', '#216E39']
+
+const CELL_SIZE = 11
+const CELL_GAP = 3
+
+export function HabitHeatmap({ completions, weeks = 26, now = new Date() }: HabitHeatmapProps) {
+  const counts = new Map<string, number>()
+  completions.forEach(completion => {
+    const key = format(parseISO(completion.completed_at), 'yyyy-MM-dd')
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  })
+
+  const today = startOfDay(now)
+  const firstDay = startOfWeek(subWeeks(today, weeks - 1), { weekStartsOn: 0 })
+
+  const columns = Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (_, weekday) => addDays(firstDay, week * 7 + weekday))
+  )
+
+  return (
+    <div>
+      <div className="flex" style={{ gap: CELL_GAP }}>
+        {columns.map((days, week) => (
+          <div key={week} className="flex flex-col" style={{ gap: CELL_GAP }}>
+            {days.map(day => {
+              if (day > today) {
+                return <div key={day.getTime()} style={{ width: CELL_SIZE, height: CELL_SIZE }} />
+              }
+
+              const count = counts.get(format(day, 'yyyy-MM-dd')) ?? 0
+              const color = intensityColors[Math.min(count, intensityColors.length - 1)]
+
+              return (
+                <Tooltip
+                  key={day.getTime()}
+                  title={`${format(day, 'MMM d, yyyy')}: ${
+                    count === 0 ? 'No completions' : `${count} completion${count > 1 ? 's' : ''}`
+                  }`}
+                >
+                  <div
+                    className="rounded-sm"
+                    style={{ width: CELL_SIZE, height: CELL_SIZE, backgroundColor: color }}
+                  />
+                </Tooltip>
+              )
+            })}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end gap-1 mt-2">
+        <Text type="secondary" className="text-xs">
+          Less
+        </Text>
+        {intensityColors.map(color => (
+          <div
+            key={color}
+            className="rounded-sm"
+            style={{ width: CELL_SIZE, height: CELL_SIZE, backgroundColor: color }}
+          />
+        ))}
+        <Text type="secondary" className="text-xs">
+          More
+        </Text>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+import { ReactNode, useMemo, useState } from 'react'
+import { Modal, Button, Space, Typography, Upload, Select, Alert, Tree, Tag, message } from 'antd'
+import type { TreeDataNode } from 'antd'
+import { UploadOutlined, ImportOutlined } from '@ant-design/icons'
+import { format, parseISO } from 'date-fns'
+import { useTagStore } from '@/stores/tagStore'
+import { commitImport, importSourceConfig, matchExistingTags } from '@/lib/task-import'
+import { getQuadrantLabel, getTaskPriorityQuadrant, quadrantConfig } from '@/lib/task-utils'
+import { getRecurrenceDescription } from '@/lib/recurrence-utils'
+import { useUIStore } from '@/stores/uiStore'
+import { ImportResult, ImportSource } from '@/types/import'
+import { EisenhowerQuadrant } from '@/types/task'
+
+const { Text, Paragraph } = Typography
+
+interface ImportModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+const sourceOptions = (Object.keys(importSourceConfig) as ImportSource[]).map(source => ({
+  value: source,
+  label: importSourceConfig[source].label,
+}))
+
+// Nests rows under their parents for the preview; rows arrive parents first
+function toTreeData<T extends { key: string; parentKey: string | null }>(
+  rows: T[],
+  renderTitle: (row: T) => ReactNode
+): TreeDataNode[] {
+  const nodes = new Map<string, TreeDataNode>()
+  const roots: TreeDataNode[] = []
+
+  rows.forEach(row => {
+    const node: TreeDataNode = { key: row.key, title: renderTitle(row), children: [] }
+    nodes.set(row.key, node)
+
+    const parent = row.parentKey ? nodes.get(row.parentKey) : undefined
+    if (parent) {
+      parent.children!.push(node)
+    } else {
+      roots.push(node)
+    }
+  })
+
+  return roots
+}
+
+export function ImportModal({ open, onClose }: ImportModalProps) {
+  const existingTags = useTagStore(state => state.tags)
+  const quadrantLabels = useUIStore(state => state.eisenhowerQuadrantLabels)
+  const [source, setSource] = useState<ImportSource>('todoist_csv')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const config = importSourceConfig[source]
+
+  const preview = useMemo(() => {
+    if (!result) return null
+
+    const matches = matchExistingTags(result.tags, existingTags)
+    const tagNames = new Map(result.tags.map(tag => [tag.key, tag.name]))
+
+    const tagTree = toTreeData(result.tags, tag => (
+      <Space size="small">
+        {tag.name}
+        {matches.has(tag.key) ? <Tag>existing</Tag> : <Tag color="green">new</Tag>}
+      </Space>
+    ))
+
+    const quadrantTag = (quadrant: EisenhowerQuadrant | null) =>
+      quadrant && (
+        <Tag color={quadrantConfig[quadrant].color}>
+          {getQuadrantLabel(quadrant, quadrantLabels)}
+        </Tag>
+      )
+
+    const taskTree = toTreeData(result.tasks, task => (
+      <Space size="small" wrap>
+        <Text delete={task.data.status === 'completed'}>{task.data.title}</Text>
+        {task.tagKeys.map(key => (
+          <Tag key={key}>{tagNames.get(key)}</Tag>
+        ))}
+        {task.data.due_date && (
+          <Text type="secondary">due {format(parseISO(task.data.due_date), 'PP')}</Text>
+        )}
+        {task.data.recurrence && (
+          <Text type="secondary">{getRecurrenceDescription(task.data.recurrence)}</Text>
+        )}
+        {quadrantTag(
+          getTaskPriorityQuadrant({
+            is_urgent: task.data.is_urgent ?? false,
+            is_important: task.data.is_important ?? false,
+          })
+        )}
+      </Space>
+    ))
+
+    return { tagTree, taskTree, newTags: result.tags.length - matches.size }
+  }, [result, existingTags, quadrantLabels])
+
+  const reset = () => {
+    setFileName(null)
+    setResult(null)
+    setFileError(null)
+  }
+
+  const handleFile = async (file: File) => {
+    reset()
+    setFileName(file.name)
+
+    const { data, error } = config.parse(await file.text(), file.name)
+    if (error || !data) {
+      setFileError(error?.message ?? 'The file could not be read')
+      return
+    }
+    if (data.tasks.length === 0) {
+      setFileError('There are no tasks in this file')
+      return
+    }
+    setResult(data)
+  }
+
+  const handleImport = async () => {
+    if (!result) return
+
+    setImporting(true)
+    const { data: created, error } = await commitImport(result)
+    setImporting(false)
+
+    if (error) {
+      message.error(
+        `Import stopped: ${error.message} (${created.tasks} tasks and ${created.tags} tags were added)`
+      )
+      return
+    }
+
+    message.success(`Imported ${created.tasks} tasks and ${created.tags} new tags`)
+    reset()
+    onClose()
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <ImportOutlined />
+          Import from other apps
+        </Space>
+      }
+      open={open}
+      onCancel={handleClose}
+      footer={
+        result ? (
+          <Space>
+            <Button onClick={reset}>Choose another file</Button>
+            <Button type="primary" loading={importing} onClick={handleImport}>
+              Import {result.tasks.length} tasks
+            </Button>
+          </Space>
+        ) : null
+      }
+      width={640}
+    >
+      {!result && (
+        <Space direction="vertical" className="w-full">
+          <Select
+            className="w-full"
+            value={source}
+            options={sourceOptions}
+            onChange={value => {
+              setSource(value)
+              reset()
+            }}
+          />
+          <Paragraph type="secondary">{config.description}.</Paragraph>
+          <Upload
+            accept={config.accept}
+            maxCount={1}
+            showUploadList={false}
+            beforeUpload={file => {
+              handleFile(file)
+              return false
+            }}
+          >
+            <Button icon={<UploadOutlined />}>Choose file</Button>
+          </Upload>
+
+          {fileError && (
+            <Alert
+              type="error"
+              showIcon
+              message={`${fileName ?? 'This file'} can't be imported`}
+              description={fileError}
+            />
+          )}
+        </Space>
+      )}
+
+      {result && preview && (
+        <Space direction="vertical" className="w-full">
+          <Text>
+            {fileName}: {result.tasks.length} tasks and {result.tags.length} tags, of which{' '}
+            {preview.newTags} will be created. Nothing is added until you import.
+          </Text>
+
+          {result.warnings.length > 0 && (
+            <Alert
+              type="warning"
+              showIcon
+              message="Some details can't be carried over"
+              description={
+                <ul className="list-disc pl-4 max-h-32 overflow-auto">
+                  {result.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              }
+            />
+          )}
+
+          {preview.tagTree.length > 0 && (
+            <>
+              <Text strong>Tags</Text>
+              <Tree treeData={preview.tagTree} defaultExpandAll selectable={false} height={160} />
+            </>
+          )}
+
+          <Text strong>Tasks</Text>
+          <Tree treeData={preview.taskTree} defaultExpandAll selectable={false} height={320} />
+        </Space>
+      )}
+    </Modal>
+  )
+}
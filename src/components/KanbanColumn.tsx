@@ -0,0 +1,149 @@
+import { ReactNode } from 'react'
+import { Badge, Button, InputNumber, Popover, Space, Tooltip, Typography } from 'antd'
+import { DownOutlined, RightOutlined, SettingOutlined } from '@ant-design/icons'
+import { useDroppable } from '@dnd-kit/core'
+import { SortableContext, useSortable, verticalListSortingStrategy } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { TaskStatus, TaskWithTags } from '@/types/task'
+import { TaskList } from '@/components/TaskList'
+import { taskStatusConfig } from '@/lib/task-utils'
+import { isWipLimitExceeded } from '@/lib/kanban-utils'
+import { colors } from '@/lib/design-tokens'
+
+const { Text } = Typography
+
+interface KanbanColumnProps {
+  status: TaskStatus
+  tasks: TaskWithTags[]
+  wipLimit?: number
+  collapsed?: boolean
+  onToggleCollapsed?: () => void
+  onWipLimitChange?: (limit: number | null) => void
+}
+
+function SortableTaskItem({ task, children }: { task: TaskWithTags; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: task.id,
+    data: { status: task.status },
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Transform.toString(transform),
+        transition,
+        opacity: isDragging ? 0.5 : undefined,
+      }}
+      {...attributes}
+      {...listeners}
+    >
+      {children}
+    </div>
+  )
+}
+
+export function KanbanColumn({
+  status,
+  tasks,
+  wipLimit,
+  collapsed = false,
+  onToggleCollapsed,
+  onWipLimitChange,
+}: KanbanColumnProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `column-${status}`,
+    data: { status },
+  })
+
+  const config = taskStatusConfig[status]
+  const wipExceeded = isWipLimitExceeded(tasks.length, wipLimit)
+
+  const wipSettings = (
+    <Space direction="vertical" size="small">
+      <Text type="secondary" className="text-xs">
+        Warn when this column holds more than:
+      </Text>
+      <InputNumber
+        min={1}
+        max={99}
+        precision={0}
+        value={wipLimit ?? null}
+        placeholder="No limit"
+        addonAfter="tasks"
+        onChange={value => onWipLimitChange?.(value)}
+      />
+    </Space>
+  )
+
+  if (collapsed) {
+    return (
+      <div
+        ref={setNodeRef}
+        className="flex flex-col items-center gap-2 w-12 flex-shrink-0 rounded-lg py-3 cursor-pointer"
+        style={{
+          backgroundColor: isOver ? `${config.color}22` : 'rgba(0, 0, 0, 0.02)',
+          borderTop: `3px solid ${config.color}`,
+        }}
+        onClick={onToggleCollapsed}
+      >
+        <RightOutlined className="text-xs" />
+        <Badge count={tasks.length} showZero color={config.color} />
+        <Text strong className="[writing-mode:vertical-rl]">
+          {config.label}
+        </Text>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      ref={setNodeRef}
+      className="flex flex-col w-80 flex-shrink-0 rounded-lg p-3"
+      style={{
+        backgroundColor: isOver ? `${config.color}22` : 'rgba(0, 0, 0, 0.02)',
+        borderTop: `3px solid ${wipExceeded ? colors.error : config.color}`,
+      }}
+    >
+      {/* Column header */}
+      <div className="flex items-center justify-between mb-3">
+        <Space size="small">
+          {onToggleCollapsed && (
+            <Button
+              type="text"
+              size="small"
+              icon={<DownOutlined />}
+              onClick={onToggleCollapsed}
+              aria-label={`Collapse ${config.label}`}
+            />
+          )}
+          <Text strong>{config.label}</Text>
+          <Tooltip title={wipExceeded ? 'Over the WIP limit' : undefined}>
+            <Text type={wipExceeded ? 'danger' : 'secondary'}>
+              {wipLimit ? `${tasks.length}/${wipLimit}` : tasks.length}
+            </Text>
+          </Tooltip>
+        </Space>
+
+        {onWipLimitChange && (
+          <Popover content={wipSettings} title="WIP limit" trigger="click" placement="bottomRight">
+            <Button type="text" size="small" icon={<SettingOutlined />} aria-label="WIP limit" />
+          </Popover>
+        )}
+      </div>
+
+      {/* Cards */}
+      <SortableContext items={tasks.map(task => task.id)} strategy={verticalListSortingStrategy}>
+        <div className="flex-1 min-h-24">
+          <TaskList
+            tasks={tasks}
+            compact
+            showDescription={false}
+            emptyMessage="Drop tasks here"
+            wrapCard={(task, card) => <SortableTaskItem task={task}>{card}</SortableTaskItem>}
+          />
+        </div>
+      </SortableContext>
+    </div>
+  )
+}
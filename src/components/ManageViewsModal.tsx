@@ -0,0 +1,188 @@
+import { useState } from 'react'
+import { Modal, List, Button, Space, Tooltip, Typography, Empty, message } from 'antd'
+import {
+  ArrowUpOutlined,
+  ArrowDownOutlined,
+  EditOutlined,
+  DeleteOutlined,
+  PushpinOutlined,
+  PushpinFilled,
+  StarOutlined,
+  StarFilled,
+  AppstoreOutlined,
+  CalendarOutlined,
+} from '@ant-design/icons'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { SavedView } from '@/types/saved-view'
+import { SavedViewFormModal } from '@/components/SavedViewFormModal'
+import { CalendarExportModal } from '@/components/CalendarExportModal'
+import { countActiveFilters, viewModeConfig } from '@/lib/saved-view-utils'
+
+const { Text } = Typography
+
+interface ManageViewsModalProps {
+  open: boolean
+  onClose: () => void
+}
+
+export function ManageViewsModal({ open, onClose }: ManageViewsModalProps) {
+  const { views, updateView, deleteView, reorderViews, setDefaultView } = useSavedViewStore()
+  const [editingView, setEditingView] = useState<SavedView | null>(null)
+  const [calendarView, setCalendarView] = useState<SavedView | null>(null)
+
+  const handleMove = async (index: number, offset: -1 | 1) => {
+    const ids = views.map(view => view.id)
+    const [moved] = ids.splice(index, 1)
+    ids.splice(index + offset, 0, moved)
+
+    const { error } = await reorderViews(ids)
+    if (error) message.error(error.message)
+  }
+
+  const handleTogglePinned = async (view: SavedView) => {
+    const { error } = await updateView(view.id, { is_pinned: !view.is_pinned })
+    if (error) message.error(error.message)
+  }
+
+  const handleToggleDefault = async (view: SavedView) => {
+    const { error } = await setDefaultView(view.is_default ? null : view.id)
+    if (error) message.error(error.message)
+  }
+
+  const handleDelete = (view: SavedView) => {
+    Modal.confirm({
+      title: `Delete "${view.name}"?`,
+      content: 'Only the saved view is deleted; tasks are not affected.',
+      okText: 'Delete',
+      okType: 'danger',
+      onOk: async () => {
+        const { error } = await deleteView(view.id)
+        if (error) {
+          message.error(error.message)
+        } else {
+          message.success('View deleted')
+        }
+      },
+    })
+  }
+
+  return (
+    <>
+      <Modal
+        title={
+          <Space>
+            <AppstoreOutlined />
+            Manage Views
+          </Space>
+        }
+        open={open}
+        onCancel={onClose}
+        footer={null}
+        width={560}
+      >
+        {views.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description="No saved views yet. Set up filters on the Tasks page and save them."
+          />
+        ) : (
+          <List
+            dataSource={views}
+            renderItem={(view, index) => (
+              <List.Item
+                actions={[
+                  <Tooltip key="up" title="Move up">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<ArrowUpOutlined />}
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    />
+                  </Tooltip>,
+                  <Tooltip key="down" title="Move down">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<ArrowDownOutlined />}
+                      disabled={index === views.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    />
+                  </Tooltip>,
+                  <Tooltip key="pin" title={view.is_pinned ? 'Unpin' : 'Pin to sidebar'}>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={view.is_pinned ? <PushpinFilled /> : <PushpinOutlined />}
+                      onClick={() => handleTogglePinned(view)}
+                    />
+                  </Tooltip>,
+                  <Tooltip key="default" title={view.is_default ? 'Unset default' : 'Make default'}>
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={view.is_default ? <StarFilled /> : <StarOutlined />}
+                      onClick={() => handleToggleDefault(view)}
+                    />
+                  </Tooltip>,
+                  <Tooltip key="calendar" title="Download calendar">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<CalendarOutlined />}
+                      onClick={() => setCalendarView(view)}
+                    />
+                  </Tooltip>,
+                  <Tooltip key="edit" title="Edit">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<EditOutlined />}
+                      onClick={() => setEditingView(view)}
+                    />
+                  </Tooltip>,
+                  <Tooltip key="delete" title="Delete">
+                    <Button
+                      type="text"
+                      size="small"
+                      danger
+                      icon={<DeleteOutlined />}
+                      onClick={() => handleDelete(view)}
+                    />
+                  </Tooltip>,
+                ]}
+              >
+                <List.Item.Meta
+                  avatar={<span className="text-lg">{view.icon ?? '📋'}</span>}
+                  title={view.name}
+                  description={
+                    <Text type="secondary" className="text-xs">
+                      {viewModeConfig[view.view_mode].label} · {countActiveFilters(view.filters)}{' '}
+                      {countActiveFilters(view.filters) === 1 ? 'filter' : 'filters'}
+                    </Text>
+                  }
+                />
+              </List.Item>
+            )}
+          />
+        )}
+      </Modal>
+
+      <SavedViewFormModal
+        open={!!editingView}
+        view={editingView}
+        onClose={() => setEditingView(null)}
+      />
+
+      {calendarView && (
+        <CalendarExportModal
+          open
+          name={calendarView.name}
+          filters={calendarView.filters}
+          sort={calendarView.sort_order}
+          onClose={() => setCalendarView(null)}
+        />
+      )}
+    </>
+  )
+}
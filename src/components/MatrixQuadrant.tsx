@@ -0,0 +1,98 @@
+import { ReactNode } from 'react'
+import { Badge, Space, Tag as AntTag, Typography } from 'antd'
+import { useDraggable, useDroppable } from '@dnd-kit/core'
+import { CSS } from '@dnd-kit/utilities'
+import { EisenhowerQuadrant, TaskWithTags } from '@/types/task'
+import { TaskList } from '@/components/TaskList'
+import { QuadrantIcon } from '@/components/PriorityIndicator'
+import { isTaskOverdue, quadrantConfig } from '@/lib/task-utils'
+
+const { Text } = Typography
+
+interface MatrixQuadrantProps {
+  quadrant: EisenhowerQuadrant
+  label: string
+  tasks: TaskWithTags[]
+  onRename?: (label: string) => void
+}
+
+function DraggableTaskItem({ task, children }: { task: TaskWithTags; children: ReactNode }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({
+    id: task.id,
+  })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{
+        transform: CSS.Translate.toString(transform),
+        opacity: isDragging ? 0.5 : undefined,
+        zIndex: isDragging ? 10 : undefined,
+        position: 'relative',
+      }}
+      {...attributes}
+      {...listeners}
+    >
+      {children}
+    </div>
+  )
+}
+
+export function MatrixQuadrant({ quadrant, label, tasks, onRename }: MatrixQuadrantProps) {
+  const { setNodeRef, isOver } = useDroppable({
+    id: `quadrant-${quadrant}`,
+    data: { quadrant },
+  })
+
+  const config = quadrantConfig[quadrant]
+  const overdueCount = tasks.filter(task => isTaskOverdue(task)).length
+
+  return (
+    <div
+      ref={setNodeRef}
+      className="flex flex-col h-full rounded-lg p-4"
+      style={{
+        backgroundColor: isOver ? `${config.color}22` : `${config.color}0D`,
+        borderTop: `3px solid ${config.color}`,
+      }}
+    >
+      {/* Quadrant header */}
+      <div className="flex items-start justify-between gap-2 mb-3">
+        <Space direction="vertical" size={0}>
+          <Space size="small">
+            <span style={{ color: config.color }}>
+              <QuadrantIcon quadrant={quadrant} />
+            </span>
+            <Text
+              strong
+              editable={
+                onRename ? { onChange: onRename, maxLength: 30, tooltip: 'Rename quadrant' } : false
+              }
+            >
+              {label}
+            </Text>
+          </Space>
+          <Text type="secondary" className="text-xs">
+            {config.description}
+          </Text>
+        </Space>
+
+        <Space size="small">
+          {overdueCount > 0 && <AntTag color="error">{overdueCount} overdue</AntTag>}
+          <Badge count={tasks.length} showZero color={config.color} />
+        </Space>
+      </div>
+
+      {/* Cards */}
+      <div className="flex-1 min-h-32">
+        <TaskList
+          tasks={tasks}
+          compact
+          showDescription={false}
+          emptyMessage="Drop tasks here"
+          wrapCard={(task, card) => <DraggableTaskItem task={task}>{card}</DraggableTaskItem>}
+        />
+      </div>
+    </div>
+  )
+}
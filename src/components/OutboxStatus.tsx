@@ -0,0 +1,161 @@
+import { useEffect } from 'react'
+import { Button, List, Popover, Space, Tag, Typography } from 'antd'
+import { CloudSyncOutlined, DisconnectOutlined, ExclamationCircleOutlined } from '@ant-design/icons'
+import { useAuthStore } from '@/stores/authStore'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { OutboxConflictReason, OutboxOperationKind } from '@/types/outbox'
+
+const { Text } = Typography
+
+// How often queued changes are retried while the browser reports a connection the server
+// can't be reached over
+const RETRY_INTERVAL_MS = 30_000
+
+const operationLabels: Record<OutboxOperationKind, string> = {
+  create_task: 'New task',
+  update_task: 'Edit',
+  complete_task: 'Completion',
+  uncomplete_task: 'Reopen',
+  reorder_tasks: 'Reorder',
+  add_task_tag: 'Tag added',
+  remove_task_tag: 'Tag removed',
+  set_task_tags: 'Tags',
+  delete_task: 'Delete',
+}
+
+const conflictDescriptions: Record<OutboxConflictReason, string> = {
+  changed_elsewhere:
+    'The task was changed elsewhere while you were offline. Your change replaced it.',
+  deleted_elsewhere: 'The task was deleted elsewhere, so your change was dropped.',
+  rejected: 'The server rejected this change, so it was dropped.',
+}
+
+// Header indicator for changes made offline: queued changes, syncing, and any conflicts
+// found while replaying them
+export function OutboxStatus() {
+  const user = useAuthStore(state => state.user)
+  const { entries, conflicts, online, syncing } = useOutboxStore()
+  const { loadOutbox, setOnline, dismissConflict, clearConflicts } = useOutboxStore()
+  const syncOutbox = useTaskStore(state => state.syncOutbox)
+
+  useEffect(() => {
+    if (!user) return
+
+    loadOutbox(user.id).then(({ error }) => {
+      if (error) {
+        console.error('Error loading queued changes:', error)
+        return
+      }
+      syncOutbox()
+    })
+  }, [user, loadOutbox, syncOutbox])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      syncOutbox()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [setOnline, syncOutbox])
+
+  const hasEntries = entries.length > 0
+  useEffect(() => {
+    if (!online || !hasEntries) return
+
+    const interval = window.setInterval(syncOutbox, RETRY_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [online, hasEntries, syncOutbox])
+
+  const pendingList = (
+    <List
+      size="small"
+      className="max-w-80"
+      dataSource={entries}
+      renderItem={entry => (
+        <List.Item>
+          <Text ellipsis>
+            <Text type="secondary">{operationLabels[entry.operation.kind]}:</Text> {entry.label}
+          </Text>
+        </List.Item>
+      )}
+    />
+  )
+
+  const conflictList = (
+    <div className="max-w-80">
+      <List
+        size="small"
+        dataSource={conflicts}
+        renderItem={conflict => (
+          <List.Item
+            actions={[
+              <Button
+                key="dismiss"
+                type="link"
+                size="small"
+                onClick={() => dismissConflict(conflict.id)}
+              >
+                Dismiss
+              </Button>,
+            ]}
+          >
+            <List.Item.Meta
+              title={`${operationLabels[conflict.kind]}: ${conflict.label}`}
+              description={
+                <>
+                  {conflictDescriptions[conflict.reason]}
+                  {conflict.message && <div>{conflict.message}</div>}
+                </>
+              }
+            />
+          </List.Item>
+        )}
+      />
+      <Button type="link" size="small" onClick={clearConflicts}>
+        Dismiss all
+      </Button>
+    </div>
+  )
+
+  if (online && !hasEntries && conflicts.length === 0) {
+    return null
+  }
+
+  return (
+    <Space size="small">
+      {!online && (
+        <Tag icon={<DisconnectOutlined />} color="default">
+          Offline
+        </Tag>
+      )}
+
+      {hasEntries && (
+        <Popover title="Waiting to sync" content={pendingList} trigger="click">
+          <Tag
+            icon={<CloudSyncOutlined spin={syncing} />}
+            color="processing"
+            className="cursor-pointer"
+          >
+            {entries.length} {entries.length === 1 ? 'change' : 'changes'} pending
+          </Tag>
+        </Popover>
+      )}
+
+      {conflicts.length > 0 && (
+        <Popover title="Sync conflicts" content={conflictList} trigger="click">
+          <Tag icon={<ExclamationCircleOutlined />} color="warning" className="cursor-pointer">
+            {conflicts.length} {conflicts.length === 1 ? 'conflict' : 'conflicts'}
+          </Tag>
+        </Popover>
+      )}
+    </Space>
+  )
+}
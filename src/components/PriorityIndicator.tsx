@@ -1,8 +1,9 @@
+import { ReactNode } from 'react'
 import { Space, Typography, Tooltip } from 'antd'
 import { FireOutlined, CalendarOutlined, UserOutlined, StopOutlined } from '@ant-design/icons'
-import { Task } from '@/types/task'
-import { getTaskPriorityQuadrant } from '@/lib/task-utils'
-import { colors } from '@/lib/design-tokens'
+import { EisenhowerQuadrant, Task } from '@/types/task'
+import { getQuadrantLabel, getTaskPriorityQuadrant, quadrantConfig } from '@/lib/task-utils'
+import { useUIStore } from '@/stores/uiStore'
 
 const { Text } = Typography
 
@@ -12,46 +13,32 @@ interface PriorityIndicatorProps {
   size?: 'small' | 'default' | 'large'
 }
 
-const quadrantConfig = {
-  1: {
-    label: 'Do First',
-    icon: <FireOutlined />,
-    color: colors.urgentImportant,
-    description: 'Urgent & Important',
-  },
-  2: {
-    label: 'Schedule',
-    icon: <CalendarOutlined />,
-    color: colors.notUrgentImportant,
-    description: 'Not Urgent but Important',
-  },
-  3: {
-    label: 'Delegate',
-    icon: <UserOutlined />,
-    color: colors.urgentNotImportant,
-    description: 'Urgent but Not Important',
-  },
-  4: {
-    label: 'Eliminate',
-    icon: <StopOutlined />,
-    color: colors.notUrgentNotImportant,
-    description: 'Not Urgent & Not Important',
-  },
+const quadrantIcons: Record<EisenhowerQuadrant, ReactNode> = {
+  1: <FireOutlined />,
+  2: <CalendarOutlined />,
+  3: <UserOutlined />,
+  4: <StopOutlined />,
+}
+
+export function QuadrantIcon({ quadrant }: { quadrant: EisenhowerQuadrant }) {
+  return <>{quadrantIcons[quadrant]}</>
 }
 
 export function PriorityIndicator({ task, showLabel = false, size = 'default' }: PriorityIndicatorProps) {
+  const quadrantLabels = useUIStore(state => state.eisenhowerQuadrantLabels)
   const quadrant = getTaskPriorityQuadrant(task)
   if (!quadrant) return null
 
   const config = quadrantConfig[quadrant]
+  const label = getQuadrantLabel(quadrant, quadrantLabels)
   const fontSize = size === 'small' ? 12 : size === 'large' ? 20 : 16
 
   const content = (
     <Space size="small">
-      <span style={{ color: config.color, fontSize }}>{config.icon}</span>
-      {showLabel && <Text style={{ color: config.color }}>{config.label}</Text>}
+      <span style={{ color: config.color, fontSize }}>{quadrantIcons[quadrant]}</span>
+      {showLabel && <Text style={{ color: config.color }}>{label}</Text>}
     </Space>
   )
 
-  return <Tooltip title={config.description}>{content}</Tooltip>
+  return <Tooltip title={`${label}: ${config.description}`}>{content}</Tooltip>
 }
@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react'
+import { Modal, Form, Input, Select, Space, Switch, Checkbox, message } from 'antd'
+import { EyeOutlined } from '@ant-design/icons'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { SavedView, SavedViewFormData, ViewMode } from '@/types/saved-view'
+import { VIEW_ICONS, viewModeConfig } from '@/lib/saved-view-utils'
+
+interface SavedViewFormModalProps {
+  open: boolean
+  view: SavedView | null
+  onClose: () => void
+  onSuccess?: (view: SavedView) => void
+}
+
+const viewModeOptions = Object.entries(viewModeConfig).map(([value, config]) => ({
+  label: config.label,
+  value: value as ViewMode,
+}))
+
+const iconOptions = VIEW_ICONS.map(icon => ({ label: icon, value: icon }))
+
+export function SavedViewFormModal({ open, view, onClose, onSuccess }: SavedViewFormModalProps) {
+  const { createView, updateView, getViewById } = useSavedViewStore()
+  const { filters, sortBy, sortOrder } = useTaskStore()
+  const [form] = Form.useForm()
+  const [loading, setLoading] = useState(false)
+
+  const isEditing = !!view?.id
+
+  useEffect(() => {
+    if (open) {
+      if (view) {
+        form.setFieldsValue({
+          name: view.name,
+          icon: view.icon,
+          view_mode: view.view_mode,
+          is_pinned: view.is_pinned,
+          is_default: view.is_default,
+          compact: view.display_options?.compact ?? false,
+          use_current_filters: false,
+        })
+      } else {
+        form.resetFields()
+        form.setFieldsValue({
+          icon: VIEW_ICONS[0],
+          view_mode: 'list',
+          is_pinned: true,
+          is_default: false,
+          compact: false,
+        })
+      }
+    }
+  }, [open, view, form])
+
+  const handleSubmit = async () => {
+    try {
+      const values = await form.validateFields()
+      setLoading(true)
+
+      // New views capture whatever filters and sort are active right now
+      const captureFilters = !isEditing || values.use_current_filters
+      const formData: SavedViewFormData = {
+        name: values.name.trim(),
+        icon: values.icon || null,
+        view_mode: values.view_mode,
+        filters: captureFilters ? filters : view.filters,
+        sort_order: captureFilters ? { field: sortBy, direction: sortOrder } : view.sort_order,
+        display_options: { compact: values.compact },
+        is_pinned: values.is_pinned,
+        is_default: values.is_default,
+      }
+
+      if (isEditing) {
+        const { error } = await updateView(view.id, formData)
+        if (error) {
+          message.error(error.message)
+        } else {
+          message.success('View updated successfully')
+          const updated = getViewById(view.id)
+          if (updated) onSuccess?.(updated)
+          onClose()
+        }
+      } else {
+        const { data, error } = await createView(formData)
+        if (error) {
+          message.error(error.message)
+        } else if (data) {
+          message.success('View saved successfully')
+          onSuccess?.(data)
+          onClose()
+        }
+      }
+    } catch {
+      // Form validation failed
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <EyeOutlined />
+          {isEditing ? 'Edit View' : 'Save View'}
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      onOk={handleSubmit}
+      confirmLoading={loading}
+      width={500}
+      okText={isEditing ? 'Save' : 'Create'}
+    >
+      <Form form={form} layout="vertical" className="mt-4">
+        <Space className="w-full" align="start">
+          <Form.Item label="Icon" name="icon">
+            <Select options={iconOptions} className="!w-20" />
+          </Form.Item>
+
+          <Form.Item
+            label="Name"
+            name="name"
+            className="flex-1"
+            rules={[
+              { required: true, whitespace: true, message: 'Please enter a view name' },
+              { max: 50, message: 'View name must be 50 characters or less' },
+            ]}
+          >
+            <Input placeholder="e.g., Work this week, Urgent errands" />
+          </Form.Item>
+        </Space>
+
+        <Form.Item label="Open as" name="view_mode">
+          <Select options={viewModeOptions} />
+        </Form.Item>
+
+        <Space size="large">
+          <Form.Item label="Pin to sidebar" name="is_pinned" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item label="Default view" name="is_default" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+          <Form.Item label="Compact cards" name="compact" valuePropName="checked">
+            <Switch />
+          </Form.Item>
+        </Space>
+
+        {isEditing && (
+          <Form.Item name="use_current_filters" valuePropName="checked" className="!mb-0">
+            <Checkbox>Replace saved filters and sort with the current ones</Checkbox>
+          </Form.Item>
+        )}
+      </Form>
+    </Modal>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { Modal, InputNumber, Space, Typography } from 'antd'
+import { FieldTimeOutlined } from '@ant-design/icons'
+import { Task } from '@/types/task'
+import { getShiftedDueDate } from '@/lib/date-utils'
+import { format, parseISO } from 'date-fns'
+
+const { Text } = Typography
+
+interface ShiftDaysModalProps {
+  open: boolean
+  task: Task | null
+  onClose: () => void
+  onSubmit: (days: number) => Promise<void> | void
+}
+
+export function ShiftDaysModal({ open, task, onClose, onSubmit }: ShiftDaysModalProps) {
+  const [days, setDays] = useState<number | null>(1)
+  const [loading, setLoading] = useState(false)
+
+  const newDueDate = task && days ? getShiftedDueDate(task.due_date, { kind: 'days', days }) : null
+
+  const handleOk = async () => {
+    if (!days) return
+
+    setLoading(true)
+    await onSubmit(days)
+    setLoading(false)
+  }
+
+  return (
+    <Modal
+      title={
+        <Space>
+          <FieldTimeOutlined />
+          Move Forward
+        </Space>
+      }
+      open={open}
+      onCancel={onClose}
+      afterClose={() => setDays(1)}
+      onOk={handleOk}
+      okText="Move"
+      okButtonProps={{ disabled: !days }}
+      confirmLoading={loading}
+      width={400}
+    >
+      <Space direction="vertical" className="w-full mt-4">
+        <Text>How many days forward?</Text>
+        <InputNumber
+          min={1}
+          max={365}
+          precision={0}
+          value={days}
+          onChange={value => setDays(value)}
+          onPressEnter={handleOk}
+          addonAfter="days"
+          autoFocus
+          className="w-full"
+        />
+        {newDueDate && (
+          <Text type="secondary">
+            New due date: {format(parseISO(newDueDate), 'EEE, MMM d, yyyy')}
+          </Text>
+        )}
+      </Space>
+    </Modal>
+  )
+}
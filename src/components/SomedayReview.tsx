@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { Card, Space, Typography, Button, DatePicker, Popover, Tooltip, message } from 'antd'
+import {
+  BulbOutlined,
+  CalendarOutlined,
+  ClockCircleOutlined,
+  DeleteOutlined,
+} from '@ant-design/icons'
+import { TaskWithTags, NudgeResponse } from '@/types/task'
+import { useTaskStore } from '@/stores/taskStore'
+import { getDaysUntouched, shouldSuggestDrop } from '@/lib/someday-utils'
+import dayjs, { Dayjs } from 'dayjs'
+
+const { Text } = Typography
+
+interface SomedayReviewProps {
+  tasks: TaskWithTags[]
+}
+
+export function SomedayReview({ tasks }: SomedayReviewProps) {
+  const { respondToNudge } = useTaskStore()
+  const [schedulingId, setSchedulingId] = useState<string | null>(null)
+
+  if (tasks.length === 0) return null
+
+  const handleResponse = async (task: TaskWithTags, response: NudgeResponse) => {
+    setSchedulingId(null)
+
+    const { error } = await respondToNudge(task.id, response)
+    if (error) {
+      message.error(error.message)
+      return
+    }
+
+    switch (response.action) {
+      case 'schedule':
+        message.success(`"${task.title}" scheduled`)
+        break
+      case 'drop':
+        message.success(`"${task.title}" dropped`)
+        break
+      default:
+        message.info(`We'll remind you about "${task.title}" later`)
+    }
+  }
+
+  return (
+    <Card
+      size="small"
+      className="mb-6"
+      title={
+        <Space>
+          <BulbOutlined />
+          Someday review ({tasks.length})
+        </Space>
+      }
+    >
+      <Space direction="vertical" className="w-full">
+        {tasks.map(task => (
+          <div key={task.id} className="flex items-center justify-between gap-2">
+            <div className="flex-1">
+              <Text strong>{task.title}</Text>
+              <div>
+                <Text type="secondary" className="text-xs">
+                  Untouched for {getDaysUntouched(task)} days
+                  {task.nudge_count > 0 &&
+                    ` · reviewed ${task.nudge_count} time${task.nudge_count !== 1 ? 's' : ''}`}
+                </Text>
+              </div>
+            </div>
+
+            <Space size="small">
+              <Popover
+                trigger="click"
+                open={schedulingId === task.id}
+                onOpenChange={open => setSchedulingId(open ? task.id : null)}
+                content={
+                  <DatePicker
+                    open
+                    format="MMM D, YYYY"
+                    disabledDate={date => date.isBefore(dayjs(), 'day')}
+                    onChange={(date: Dayjs | null) =>
+                      date &&
+                      handleResponse(task, { action: 'schedule', due_date: date.toISOString() })
+                    }
+                  />
+                }
+              >
+                <Button size="small" icon={<CalendarOutlined />}>
+                  Schedule it
+                </Button>
+              </Popover>
+              <Button
+                size="small"
+                icon={<ClockCircleOutlined />}
+                onClick={() => handleResponse(task, { action: 'snooze' })}
+              >
+                Snooze
+              </Button>
+              <Tooltip title={shouldSuggestDrop(task) ? 'This has been snoozed a lot' : undefined}>
+                <Button
+                  size="small"
+                  danger
+                  type={shouldSuggestDrop(task) ? 'primary' : 'default'}
+                  icon={<DeleteOutlined />}
+                  onClick={() => handleResponse(task, { action: 'drop' })}
+                >
+                  Drop it
+                </Button>
+              </Tooltip>
+            </Space>
+          </div>
+        ))}
+      </Space>
+    </Card>
+  )
+}
@@ -6,13 +6,19 @@ import {
   DeleteOutlined,
   CalendarOutlined,
   PlusOutlined,
+  FireOutlined,
+  FieldTimeOutlined,
+  ClockCircleOutlined,
 } from '@ant-design/icons'
-import { TaskWithTags } from '@/types/task'
+import { TaskWithTags, ShiftStrategyKind } from '@/types/task'
 import { Tag } from '@/components/Tag'
 import { StatusBadge } from '@/components/StatusBadge'
 import { PriorityIndicator } from '@/components/PriorityIndicator'
-import { useTagStore } from '@/stores/tagStore'
+import { TaskTimer } from '@/components/TaskTimer'
+import { useTaskTags } from '@/hooks/useTaskSelectors'
 import { isTaskOverdue, isTaskDueToday } from '@/lib/task-utils'
+import { isHabitDoneToday } from '@/lib/habit-utils'
+import { shiftStrategyConfig } from '@/lib/date-utils'
 import { format, parseISO } from 'date-fns'
 
 const { Text, Paragraph } = Typography
@@ -23,6 +29,7 @@ interface TaskCardProps {
   onEdit?: () => void
   onDelete?: () => void
   onCreateSubtask?: () => void
+  onShift?: (kind: ShiftStrategyKind) => void
   onClick?: () => void
   showDescription?: boolean
   compact?: boolean
@@ -34,13 +41,15 @@ export function TaskCard({
   onEdit,
   onDelete,
   onCreateSubtask,
+  onShift,
   onClick,
   showDescription = true,
   compact = false,
 }: TaskCardProps) {
-  const { getTagById } = useTagStore()
+  const tags = useTaskTags(task.tags)
 
-  const isCompleted = task.status === 'completed'
+  // Habits never close; they count as done once completed today
+  const isCompleted = task.type === 'habit' ? isHabitDoneToday(task) : task.status === 'completed'
   const isOverdue = isTaskOverdue(task)
   const isDueToday = isTaskDueToday(task)
 
@@ -57,6 +66,21 @@ export function TaskCard({
       icon: <PlusOutlined />,
       onClick: onCreateSubtask,
     },
+    {
+      key: 'shift',
+      label: 'Shift',
+      icon: <FieldTimeOutlined />,
+      children: (['tomorrow', 'days', 'next_monday', 'remove_due_date'] as const)
+        .filter(kind => kind !== 'remove_due_date' || task.due_date)
+        .map(kind => ({
+          key: `shift-${kind}`,
+          label:
+            kind === 'days'
+              ? `${shiftStrategyConfig[kind].label}...`
+              : shiftStrategyConfig[kind].label,
+          onClick: () => onShift?.(kind),
+        })),
+    },
     {
       type: 'divider',
     },
@@ -132,21 +156,30 @@ export function TaskCard({
             </div>
           </Space>
 
-          <Dropdown menu={{ items: menuItems }} trigger={['click']}>
-            <Button
-              type="text"
-              size="small"
-              icon={<MoreOutlined />}
-              onClick={e => e.stopPropagation()}
-              className="flex-shrink-0"
-            />
-          </Dropdown>
+          <Space size={0} className="flex-shrink-0">
+            {!isCompleted && <TaskTimer task={task} />}
+
+            <Dropdown menu={{ items: menuItems }} trigger={['click']}>
+              <Button
+                type="text"
+                size="small"
+                icon={<MoreOutlined />}
+                onClick={e => e.stopPropagation()}
+              />
+            </Dropdown>
+          </Space>
         </div>
 
         {/* Metadata */}
         <Space size="small" wrap className="text-xs">
           <StatusBadge status={task.status} size="small" />
 
+          {task.type === 'habit' && task.current_streak > 0 && (
+            <AntTag icon={<FireOutlined />} color="orange">
+              {task.current_streak}
+            </AntTag>
+          )}
+
           {task.due_date && (
             <AntTag
               icon={<CalendarOutlined />}
@@ -155,15 +188,18 @@ export function TaskCard({
               {format(parseISO(task.due_date), 'MMM d')}
             </AntTag>
           )}
+
+          {!!task.actual_minutes && (
+            <AntTag icon={<ClockCircleOutlined />}>{task.actual_minutes} min</AntTag>
+          )}
         </Space>
 
         {/* Tags */}
-        {task.tags.length > 0 && (
+        {tags.length > 0 && (
           <Space size="small" wrap>
-            {task.tags.map(tagId => {
-              const tag = getTagById(tagId)
-              return tag ? <Tag key={tag.id} tag={tag} /> : null
-            })}
+            {tags.map(tag => (
+              <Tag key={tag.id} tag={tag} />
+            ))}
           </Space>
         )}
       </Space>
@@ -1,3 +1,4 @@
+import { useEffect } from 'react'
 import {
   Modal,
   Descriptions,
@@ -6,6 +7,8 @@ import {
   Typography,
   Divider,
   Empty,
+  Timeline,
+  DatePicker,
   Tag as AntTag,
 } from 'antd'
 import {
@@ -15,15 +18,21 @@ import {
   CloseOutlined,
   CalendarOutlined,
   PlusOutlined,
+  SyncOutlined,
+  HistoryOutlined,
 } from '@ant-design/icons'
 import { TaskWithTags } from '@/types/task'
 import { Tag } from '@/components/Tag'
 import { StatusBadge } from '@/components/StatusBadge'
 import { PriorityIndicator } from '@/components/PriorityIndicator'
-import { useTagStore } from '@/stores/tagStore'
-import { useTaskStore } from '@/stores/taskStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useCompletionStore } from '@/stores/completionStore'
+import { useChildTasks, useTaskTags } from '@/hooks/useTaskSelectors'
 import { taskTypeConfig } from '@/lib/task-utils'
+import { getRecurrenceDescription } from '@/lib/recurrence-utils'
+import { isHabitDoneToday } from '@/lib/habit-utils'
 import { format, parseISO } from 'date-fns'
+import dayjs, { Dayjs } from 'dayjs'
 
 const { Title, Text, Paragraph } = Typography
 
@@ -34,6 +43,7 @@ interface TaskDetailModalProps {
   onEdit?: () => void
   onDelete?: () => void
   onComplete?: () => void
+  onLogCompletion?: (completedAt: string) => void
   onCreateSubtask?: () => void
 }
 
@@ -44,15 +54,44 @@ export function TaskDetailModal({
   onEdit,
   onDelete,
   onComplete,
+  onLogCompletion,
   onCreateSubtask,
 }: TaskDetailModalProps) {
-  const { getTagById } = useTagStore()
-  const { getChildTasks } = useTaskStore()
+  const tags = useTaskTags(task?.tags ?? [])
+  const subtasks = useChildTasks(task?.id)
+  const { getRecurrenceByTaskId } = useRecurrenceStore()
+  const {
+    fetchCompletions,
+    fetchSeriesCompletions,
+    getCompletionsForTask,
+    getCompletionsForSeries,
+  } = useCompletionStore()
+  const taskId = task?.id
+
+  // A recurring task's history covers its whole series: the open occurrence follows the
+  // recurrence, and an earlier one is found through its own completions
+  const seriesId = task
+    ? (getRecurrenceByTaskId(task.id)?.id ?? getCompletionsForTask(task.id)[0]?.recurrence_id)
+    : null
+
+  useEffect(() => {
+    if (open && taskId) {
+      fetchCompletions(taskId)
+    }
+  }, [open, taskId, fetchCompletions])
+
+  useEffect(() => {
+    if (open && seriesId) {
+      fetchSeriesCompletions(seriesId)
+    }
+  }, [open, seriesId, fetchSeriesCompletions])
 
   if (!task) return null
 
-  const isCompleted = task.status === 'completed'
-  const subtasks = getChildTasks(task.id)
+  const isCompleted = task.type === 'habit' ? isHabitDoneToday(task) : task.status === 'completed'
+  const recurrence = getRecurrenceByTaskId(task.id)
+  const completions = seriesId ? getCompletionsForSeries(seriesId) : getCompletionsForTask(task.id)
+  const lateCount = completions.filter(c => c.was_late).length
 
   return (
     <Modal
@@ -107,7 +146,14 @@ export function TaskDetailModal({
         )}
 
         {/* Details */}
-        {(task.due_date || task.completed_at) && (
+        {!!(
+          task.due_date ||
+          task.scheduled_date ||
+          task.estimated_minutes ||
+          task.actual_minutes ||
+          task.completed_at ||
+          recurrence
+        ) && (
           <Descriptions column={2} size="small">
             {task.due_date && (
               <Descriptions.Item label="Due Date" span={1}>
@@ -118,6 +164,30 @@ export function TaskDetailModal({
               </Descriptions.Item>
             )}
 
+            {task.scheduled_date && (
+              <Descriptions.Item label="Scheduled For" span={1}>
+                <Text>{format(parseISO(task.scheduled_date), 'MMM d, yyyy')}</Text>
+              </Descriptions.Item>
+            )}
+
+            {!!(task.estimated_minutes || task.actual_minutes) && (
+              <Descriptions.Item label="Time" span={1}>
+                <Text>
+                  {task.actual_minutes ?? 0} min spent
+                  {task.estimated_minutes ? ` of ${task.estimated_minutes} min estimated` : ''}
+                </Text>
+              </Descriptions.Item>
+            )}
+
+            {recurrence && (
+              <Descriptions.Item label="Repeats" span={1}>
+                <Space size="small">
+                  <SyncOutlined />
+                  <Text>{getRecurrenceDescription(recurrence)}</Text>
+                </Space>
+              </Descriptions.Item>
+            )}
+
             {task.completed_at && (
               <Descriptions.Item label="Completed At" span={2}>
                 <Text>{format(parseISO(task.completed_at), 'MMM d, yyyy h:mm a')}</Text>
@@ -126,16 +196,25 @@ export function TaskDetailModal({
           </Descriptions>
         )}
 
+        {/* Notes */}
+        {task.notes && (
+          <div>
+            <Text strong>Notes</Text>
+            <Paragraph className="!mb-0 mt-2 text-gray-700 whitespace-pre-wrap">
+              {task.notes}
+            </Paragraph>
+          </div>
+        )}
+
         {/* Tags */}
-        {task.tags.length > 0 && (
+        {tags.length > 0 && (
           <div>
             <Text strong>Tags</Text>
             <div className="mt-2">
               <Space size="small" wrap>
-                {task.tags.map(tagId => {
-                  const tag = getTagById(tagId)
-                  return tag ? <Tag key={tag.id} tag={tag} /> : null
-                })}
+                {tags.map(tag => (
+                  <Tag key={tag.id} tag={tag} />
+                ))}
               </Space>
             </div>
           </div>
@@ -180,6 +259,54 @@ export function TaskDetailModal({
           )}
         </div>
 
+        {/* Completion History */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Text strong>
+              <HistoryOutlined /> Completion History ({completions.length})
+            </Text>
+            {onLogCompletion && (
+              <DatePicker
+                size="small"
+                showTime={{ format: 'h:mm a' }}
+                format="MMM D, YYYY h:mm a"
+                placeholder="Log past completion"
+                disabledDate={date => date.isAfter(dayjs(), 'day')}
+                value={null}
+                onChange={(date: Dayjs | null) => date && onLogCompletion(date.toISOString())}
+              />
+            )}
+          </div>
+
+          {completions.length === 0 ? (
+            <Empty
+              image={Empty.PRESENTED_IMAGE_SIMPLE}
+              description="Not completed yet"
+              className="py-4"
+            />
+          ) : (
+            <>
+              {lateCount > 0 && (
+                <Text type="secondary" className="block mb-2 text-xs">
+                  {completions.length - lateCount} on time, {lateCount} late
+                </Text>
+              )}
+              <Timeline
+                items={completions.map(completion => ({
+                  color: completion.was_late ? 'orange' : 'green',
+                  children: (
+                    <Space size="small">
+                      <Text>{format(parseISO(completion.completed_at), 'MMM d, yyyy h:mm a')}</Text>
+                      {completion.was_late && <AntTag color="warning">Late</AntTag>}
+                      {completion.was_retroactive && <AntTag>Logged later</AntTag>}
+                    </Space>
+                  ),
+                }))}
+              />
+            </>
+          )}
+        </div>
+
         <Divider className="!my-2" />
 
         {/* Metadata */}
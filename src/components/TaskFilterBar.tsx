@@ -0,0 +1,114 @@
+import { Input, Select, Space, Checkbox, Button, Tooltip } from 'antd'
+import { SortAscendingOutlined, SortDescendingOutlined, ClearOutlined } from '@ant-design/icons'
+import { useTaskStore } from '@/stores/taskStore'
+import { useTagStore } from '@/stores/tagStore'
+import { TaskSortBy, TaskStatus, TaskType } from '@/types/task'
+import { taskStatusConfig, taskTypeConfig } from '@/lib/task-utils'
+import { countActiveFilters, sortFieldConfig } from '@/lib/saved-view-utils'
+
+const statusOptions = Object.entries(taskStatusConfig).map(([value, config]) => ({
+  label: config.label,
+  value: value as TaskStatus,
+}))
+
+const typeOptions = Object.entries(taskTypeConfig).map(([value, config]) => ({
+  label: `${config.icon} ${config.label}`,
+  value: value as TaskType,
+}))
+
+const sortOptions = Object.entries(sortFieldConfig).map(([value, config]) => ({
+  label: config.label,
+  value: value as TaskSortBy,
+}))
+
+export function TaskFilterBar() {
+  const { filters, sortBy, sortOrder, setFilters, clearFilters, setSortBy } = useTaskStore()
+  const { tags } = useTagStore()
+
+  const tagOptions = tags.map(tag => ({ label: tag.name, value: tag.id }))
+
+  return (
+    <Space direction="vertical" className="w-full" size="small">
+      <Input.Search
+        placeholder="Search tasks..."
+        allowClear
+        value={filters.search ?? ''}
+        onChange={e => setFilters({ search: e.target.value || undefined })}
+      />
+
+      <Space wrap size="small">
+        <Select
+          mode="multiple"
+          placeholder="Status"
+          options={statusOptions}
+          value={filters.status ?? []}
+          onChange={status => setFilters({ status })}
+          maxTagCount="responsive"
+          className="min-w-40"
+          allowClear
+        />
+        <Select
+          mode="multiple"
+          placeholder="Type"
+          options={typeOptions}
+          value={filters.type ?? []}
+          onChange={type => setFilters({ type })}
+          maxTagCount="responsive"
+          className="min-w-40"
+          allowClear
+        />
+        <Select
+          mode="multiple"
+          placeholder="Tags"
+          options={tagOptions}
+          value={filters.tags ?? []}
+          onChange={tagIds => setFilters({ tags: tagIds })}
+          optionFilterProp="label"
+          maxTagCount="responsive"
+          className="min-w-40"
+          allowClear
+        />
+
+        <Checkbox
+          checked={!!filters.is_urgent}
+          onChange={e => setFilters({ is_urgent: e.target.checked || undefined })}
+        >
+          Urgent
+        </Checkbox>
+        <Checkbox
+          checked={!!filters.is_important}
+          onChange={e => setFilters({ is_important: e.target.checked || undefined })}
+        >
+          Important
+        </Checkbox>
+        <Checkbox
+          checked={!!filters.is_overdue}
+          onChange={e => setFilters({ is_overdue: e.target.checked || undefined })}
+        >
+          Overdue
+        </Checkbox>
+
+        <Space.Compact>
+          <Select
+            options={sortOptions}
+            value={sortBy}
+            onChange={field => setSortBy(field, sortOrder)}
+            className="min-w-36"
+          />
+          <Tooltip title={sortOrder === 'asc' ? 'Ascending' : 'Descending'}>
+            <Button
+              icon={sortOrder === 'asc' ? <SortAscendingOutlined /> : <SortDescendingOutlined />}
+              onClick={() => setSortBy(sortBy, sortOrder === 'asc' ? 'desc' : 'asc')}
+            />
+          </Tooltip>
+        </Space.Compact>
+
+        {countActiveFilters(filters) > 0 && (
+          <Button type="text" icon={<ClearOutlined />} onClick={clearFilters}>
+            Clear
+          </Button>
+        )}
+      </Space>
+    </Space>
+  )
+}
@@ -6,6 +6,8 @@ import {
   Select,
   DatePicker,
   Checkbox,
+  InputNumber,
+  Radio,
   Space,
   message,
   Divider,
@@ -13,9 +15,16 @@ import {
 } from 'antd'
 import { CheckSquareOutlined } from '@ant-design/icons'
 import { useTaskStore } from '@/stores/taskStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
 import { TagPicker } from '@/components/TagPicker'
 import { Task, TaskFormData, TaskStatus, TaskType } from '@/types/task'
+import { DayOfWeek, RecurrenceFrequency, RecurrenceFrequencyKind } from '@/types/recurrence'
+import { HabitPeriod, HabitTimeOfDay } from '@/types/habit'
 import { taskStatusConfig, taskTypeConfig } from '@/lib/task-utils'
+import { recurrenceFrequencyConfig } from '@/lib/recurrence-utils'
+import { DEFAULT_GRACE_DAYS, DEFAULT_HABIT_TARGET, habitTimeOfDayConfig } from '@/lib/habit-utils'
+import { DEFAULT_TIMER_MINUTES } from '@/lib/timer-utils'
+import { SOMEDAY_CONFIG } from '@/lib/someday-utils'
 import dayjs from 'dayjs'
 
 const { TextArea } = Input
@@ -25,6 +34,7 @@ interface TaskFormModalProps {
   open: boolean
   task: Task | null
   parentTask?: Task | null
+  defaultType?: TaskType
   onClose: () => void
   onSuccess?: (task: Task) => void
 }
@@ -39,16 +49,122 @@ const typeOptions = Object.entries(taskTypeConfig).map(([value, config]) => ({
   value: value as TaskType,
 }))
 
+const frequencyOptions = Object.entries(recurrenceFrequencyConfig).map(([value, config]) => ({
+  label: config.label,
+  value: value as RecurrenceFrequencyKind,
+}))
+
+const dayOptions = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map((label, value) => ({
+  label,
+  value: value as DayOfWeek,
+}))
+
+const dayOfMonthOptions = [
+  ...Array.from({ length: 31 }, (_, i) => ({ label: `Day ${i + 1}`, value: i + 1 })),
+  { label: 'Last day', value: -1 },
+]
+
+const weekOptions = [
+  { label: '1st', value: 1 },
+  { label: '2nd', value: 2 },
+  { label: '3rd', value: 3 },
+  { label: '4th', value: 4 },
+  { label: '5th', value: 5 },
+  { label: 'Last', value: -1 },
+]
+
+const defaultRecurrenceValues = {
+  recurrence_type: 'fixed_schedule',
+  frequency_kind: 'weekdays',
+  interval: 2,
+  days: [1],
+  day_of_month: 1,
+  nth_week: 1,
+  nth_weekday: 1,
+}
+
+const habitPeriodOptions: { label: string; value: HabitPeriod }[] = [
+  { label: 'per day', value: 'day' },
+  { label: 'per week', value: 'week' },
+  { label: 'per month', value: 'month' },
+]
+
+const timeOfDayOptions = Object.entries(habitTimeOfDayConfig).map(([value, config]) => ({
+  label: `${config.icon} ${config.label}`,
+  value: value as HabitTimeOfDay,
+}))
+
+const defaultSomedayValues = {
+  nudge_threshold_days: SOMEDAY_CONFIG.defaultNudgeInterval,
+}
+
+const defaultHabitValues = {
+  time_of_day: 'anytime',
+  target_count: DEFAULT_HABIT_TARGET.count,
+  target_period: DEFAULT_HABIT_TARGET.period,
+  grace_days: DEFAULT_GRACE_DAYS,
+}
+
+const nudgeIntervalOptions = SOMEDAY_CONFIG.nudgeIntervals.map(interval => ({
+  label: interval.label,
+  value: interval.days,
+}))
+
+function frequencyToFormValues(frequency: RecurrenceFrequency) {
+  switch (frequency.kind) {
+    case 'every_n_days':
+      return { frequency_kind: frequency.kind, interval: frequency.interval }
+    case 'weekdays':
+      return { frequency_kind: frequency.kind, days: frequency.days }
+    case 'day_of_month':
+      return { frequency_kind: frequency.kind, day_of_month: frequency.day }
+    case 'nth_weekday':
+      return {
+        frequency_kind: frequency.kind,
+        nth_week: frequency.week,
+        nth_weekday: frequency.weekday,
+      }
+    default:
+      return { frequency_kind: frequency.kind }
+  }
+}
+
+function formValuesToFrequency(values: {
+  frequency_kind: RecurrenceFrequencyKind
+  interval?: number
+  days?: DayOfWeek[]
+  day_of_month?: number
+  nth_week?: number
+  nth_weekday?: DayOfWeek
+}): RecurrenceFrequency {
+  switch (values.frequency_kind) {
+    case 'every_n_days':
+      return { kind: 'every_n_days', interval: values.interval ?? 1 }
+    case 'weekdays':
+      return { kind: 'weekdays', days: values.days ?? [] }
+    case 'day_of_month':
+      return { kind: 'day_of_month', day: values.day_of_month ?? 1 }
+    case 'nth_weekday':
+      return { kind: 'nth_weekday', week: values.nth_week ?? 1, weekday: values.nth_weekday ?? 1 }
+    default:
+      return { kind: 'daily' }
+  }
+}
+
 export function TaskFormModal({
   open,
   task,
   parentTask,
+  defaultType = 'task',
   onClose,
   onSuccess,
 }: TaskFormModalProps) {
   const { createTask, updateTask, getTaskById } = useTaskStore()
+  const { getRecurrenceByTaskId } = useRecurrenceStore()
   const [form] = Form.useForm()
   const [loading, setLoading] = useState(false)
+  const selectedType = Form.useWatch('type', form)
+  const frequencyKind = Form.useWatch('frequency_kind', form)
 
   const isEditing = !!task?.id
   const isSubtask = !!parentTask
@@ -57,12 +173,34 @@ export function TaskFormModal({
     if (open) {
       if (task) {
         const taskWithTags = getTaskById(task.id)
+        const recurrence = getRecurrenceByTaskId(task.id)
         form.setFieldsValue({
+          ...defaultRecurrenceValues,
+          ...defaultHabitValues,
+          ...(task.time_of_day ? { time_of_day: task.time_of_day } : {}),
+          nudge_threshold_days: task.nudge_threshold_days ?? SOMEDAY_CONFIG.defaultNudgeInterval,
+          ...(task.target_frequency
+            ? {
+                target_count: task.target_frequency.count,
+                target_period: task.target_frequency.period,
+                grace_days: task.target_frequency.grace_days ?? DEFAULT_GRACE_DAYS,
+              }
+            : {}),
+          ...(recurrence
+            ? {
+                recurrence_type: recurrence.type,
+                ...frequencyToFormValues(recurrence.frequency),
+              }
+            : {}),
           title: task.title,
           description: task.description,
           status: task.status,
           type: task.type,
           due_date: task.due_date ? dayjs(task.due_date) : null,
+          scheduled_date: task.scheduled_date ? dayjs(task.scheduled_date) : null,
+          estimated_minutes: task.estimated_minutes,
+          timer_duration_minutes: task.timer_duration_minutes,
+          notes: task.notes,
           is_urgent: task.is_urgent,
           is_important: task.is_important,
           tags: taskWithTags?.tags || [],
@@ -70,22 +208,28 @@ export function TaskFormModal({
       } else if (parentTask) {
         // Initialize subtask with parent's context
         form.setFieldsValue({
+          ...defaultRecurrenceValues,
+          ...defaultHabitValues,
+          ...defaultSomedayValues,
           status: 'ready',
-          type: 'task',
+          type: defaultType,
           tags: [],
         })
       } else {
         form.resetFields()
         form.setFieldsValue({
+          ...defaultRecurrenceValues,
+          ...defaultHabitValues,
+          ...defaultSomedayValues,
           status: 'ready',
-          type: 'task',
+          type: defaultType,
           is_urgent: false,
           is_important: false,
           tags: [],
         })
       }
     }
-  }, [open, task, parentTask, form, getTaskById])
+  }, [open, task, parentTask, defaultType, form, getTaskById, getRecurrenceByTaskId])
 
   const handleSubmit = async () => {
     try {
@@ -98,10 +242,28 @@ export function TaskFormModal({
         status: values.status,
         type: values.type,
         due_date: values.due_date ? values.due_date.toISOString() : null,
+        scheduled_date: values.scheduled_date ? values.scheduled_date.toISOString() : null,
+        estimated_minutes: values.estimated_minutes || null,
+        timer_duration_minutes: values.timer_duration_minutes || null,
+        notes: values.notes || null,
         is_urgent: values.is_urgent || false,
         is_important: values.is_important || false,
         tags: values.tags || [],
         parent_id: parentTask?.id || null,
+        recurrence:
+          values.type === 'recurring'
+            ? { type: values.recurrence_type, frequency: formValuesToFrequency(values) }
+            : null,
+        time_of_day: values.type === 'habit' ? values.time_of_day : null,
+        nudge_threshold_days: values.type === 'someday' ? values.nudge_threshold_days : null,
+        target_frequency:
+          values.type === 'habit'
+            ? {
+                count: values.target_count,
+                period: values.target_period,
+                grace_days: values.grace_days ?? DEFAULT_GRACE_DAYS,
+              }
+            : null,
       }
 
       if (isEditing) {
@@ -188,9 +350,138 @@ export function TaskFormModal({
           </Form.Item>
         </Space>
 
-        <Form.Item label="Due Date" name="due_date">
-          <DatePicker className="w-full" format="MMM D, YYYY" />
-        </Form.Item>
+        <Space className="w-full" size="large">
+          <Form.Item label="Due Date" name="due_date" className="flex-1">
+            <DatePicker className="w-full" format="MMM D, YYYY" />
+          </Form.Item>
+
+          <Form.Item
+            label="Scheduled For"
+            name="scheduled_date"
+            className="flex-1"
+            tooltip="The day you plan to work on it"
+          >
+            <DatePicker className="w-full" format="MMM D, YYYY" />
+          </Form.Item>
+        </Space>
+
+        <Space className="w-full" size="large">
+          <Form.Item label="Estimate" name="estimated_minutes" className="flex-1">
+            <InputNumber min={1} max={10000} precision={0} addonAfter="min" className="w-full" />
+          </Form.Item>
+
+          <Form.Item
+            label="Focus Timer"
+            name="timer_duration_minutes"
+            className="flex-1"
+            tooltip="Length of a focus session started from this task"
+          >
+            <InputNumber
+              min={1}
+              max={480}
+              precision={0}
+              placeholder={String(DEFAULT_TIMER_MINUTES)}
+              addonAfter="min"
+              className="w-full"
+            />
+          </Form.Item>
+        </Space>
+
+        {selectedType === 'habit' && (
+          <>
+            <Divider />
+
+            <Form.Item label="Time of Day" name="time_of_day">
+              <Select options={timeOfDayOptions} />
+            </Form.Item>
+
+            <Space className="w-full" size="large">
+              <Form.Item
+                label="Target"
+                name="target_count"
+                rules={[{ required: true, message: 'Please enter a target' }]}
+              >
+                <InputNumber min={1} max={100} addonAfter="times" />
+              </Form.Item>
+              <Form.Item label="Period" name="target_period">
+                <Select options={habitPeriodOptions} style={{ width: 140 }} />
+              </Form.Item>
+              <Form.Item
+                label="Grace period"
+                name="grace_days"
+                tooltip="Extra days allowed after a missed period before the streak breaks"
+              >
+                <InputNumber min={0} max={30} addonAfter="days" />
+              </Form.Item>
+            </Space>
+          </>
+        )}
+
+        {selectedType === 'someday' && (
+          <Form.Item
+            label="Review Reminder"
+            name="nudge_threshold_days"
+            tooltip="Bring this back up for review after it has gone untouched this long"
+          >
+            <Select options={nudgeIntervalOptions} />
+          </Form.Item>
+        )}
+
+        {selectedType === 'recurring' && (
+          <>
+            <Divider />
+
+            <Form.Item label="Repeats" name="recurrence_type">
+              <Radio.Group>
+                <Space direction="vertical">
+                  <Radio value="fixed_schedule">On a fixed schedule</Radio>
+                  <Radio value="after_completion">After I complete it</Radio>
+                </Space>
+              </Radio.Group>
+            </Form.Item>
+
+            <Form.Item label="Pattern" name="frequency_kind">
+              <Select options={frequencyOptions} />
+            </Form.Item>
+
+            {frequencyKind === 'every_n_days' && (
+              <Form.Item
+                label="Every"
+                name="interval"
+                rules={[{ required: true, message: 'Please enter a number of days' }]}
+              >
+                <InputNumber min={1} max={365} addonAfter="days" />
+              </Form.Item>
+            )}
+
+            {frequencyKind === 'weekdays' && (
+              <Form.Item
+                label="On"
+                name="days"
+                rules={[{ required: true, message: 'Select at least one day' }]}
+              >
+                <Checkbox.Group options={dayOptions} />
+              </Form.Item>
+            )}
+
+            {frequencyKind === 'day_of_month' && (
+              <Form.Item label="On" name="day_of_month">
+                <Select options={dayOfMonthOptions} />
+              </Form.Item>
+            )}
+
+            {frequencyKind === 'nth_weekday' && (
+              <Space className="w-full" size="large">
+                <Form.Item label="On the" name="nth_week" className="flex-1">
+                  <Select options={weekOptions} />
+                </Form.Item>
+                <Form.Item label="Day" name="nth_weekday" className="flex-1">
+                  <Select options={dayOptions} />
+                </Form.Item>
+              </Space>
+            )}
+          </>
+        )}
 
         <Divider />
 
@@ -210,6 +501,10 @@ export function TaskFormModal({
         <Form.Item label="Tags" name="tags">
           <TagPicker />
         </Form.Item>
+
+        <Form.Item label="Notes" name="notes">
+          <TextArea placeholder="Links, context, progress notes..." rows={3} />
+        </Form.Item>
       </Form>
     </Modal>
   )
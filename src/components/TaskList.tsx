@@ -1,16 +1,20 @@
-import { useState } from 'react'
+import { Fragment, ReactNode, useState } from 'react'
 import { Empty, Space, message } from 'antd'
-import { TaskWithTags } from '@/types/task'
+import { TaskWithTags, ShiftStrategy, ShiftStrategyKind } from '@/types/task'
 import { TaskCard } from '@/components/TaskCard'
 import { TaskDetailModal } from '@/components/TaskDetailModal'
 import { TaskFormModal } from '@/components/TaskFormModal'
+import { ShiftDaysModal } from '@/components/ShiftDaysModal'
+import { useShallow } from 'zustand/react/shallow'
 import { useTaskStore } from '@/stores/taskStore'
+import { isHabitDoneToday } from '@/lib/habit-utils'
 
 interface TaskListProps {
   tasks: TaskWithTags[]
   emptyMessage?: string
   showDescription?: boolean
   compact?: boolean
+  wrapCard?: (task: TaskWithTags, card: ReactNode) => ReactNode // e.g. to make cards draggable
 }
 
 export function TaskList({
@@ -18,15 +22,25 @@ export function TaskList({
   emptyMessage = 'No tasks',
   showDescription = true,
   compact = false,
+  wrapCard,
 }: TaskListProps) {
   const [detailTask, setDetailTask] = useState<TaskWithTags | null>(null)
   const [editTask, setEditTask] = useState<TaskWithTags | null>(null)
   const [subtaskParent, setSubtaskParent] = useState<TaskWithTags | null>(null)
-
-  const { completeTask, uncompleteTask, deleteTask } = useTaskStore()
+  const [shiftDaysTask, setShiftDaysTask] = useState<TaskWithTags | null>(null)
+
+  const { completeTask, uncompleteTask, logPastCompletion, deleteTask, shiftTask } = useTaskStore(
+    useShallow(state => ({
+      completeTask: state.completeTask,
+      uncompleteTask: state.uncompleteTask,
+      logPastCompletion: state.logPastCompletion,
+      deleteTask: state.deleteTask,
+      shiftTask: state.shiftTask,
+    }))
+  )
 
   const handleComplete = async (task: TaskWithTags) => {
-    const isCompleted = task.status === 'completed'
+    const isCompleted = task.type === 'habit' ? isHabitDoneToday(task) : task.status === 'completed'
     const action = isCompleted ? uncompleteTask : completeTask
 
     const { error } = await action(task.id)
@@ -52,6 +66,29 @@ export function TaskList({
     }
   }
 
+  const applyShift = async (task: TaskWithTags, strategy: ShiftStrategy) => {
+    const { error } = await shiftTask(task.id, strategy)
+    if (error) {
+      message.error(error.message)
+    } else {
+      message.success(strategy.kind === 'remove_due_date' ? 'Due date removed' : 'Task moved')
+    }
+  }
+
+  const handleShift = (task: TaskWithTags, kind: ShiftStrategyKind) => {
+    switch (kind) {
+      case 'days':
+        // Ask how far to move it first
+        setShiftDaysTask(task)
+        break
+      case 'tomorrow':
+      case 'next_monday':
+      case 'remove_due_date':
+        applyShift(task, { kind })
+        break
+    }
+  }
+
   const handleCreateSubtask = (parent: TaskWithTags) => {
     setDetailTask(null)
     setSubtaskParent(parent)
@@ -79,6 +116,17 @@ export function TaskList({
     }
   }
 
+  const handleDetailLogCompletion = async (completedAt: string) => {
+    if (!detailTask) return
+
+    const { error } = await logPastCompletion(detailTask.id, completedAt)
+    if (error) {
+      message.error(error.message)
+    } else {
+      message.success('Completion logged')
+    }
+  }
+
   const handleDetailCreateSubtask = () => {
     if (detailTask) {
       handleCreateSubtask(detailTask)
@@ -98,19 +146,23 @@ export function TaskList({
   return (
     <>
       <Space direction="vertical" className="w-full" size="middle">
-        {tasks.map(task => (
-          <TaskCard
-            key={task.id}
-            task={task}
-            onComplete={() => handleComplete(task)}
-            onEdit={() => handleEdit(task)}
-            onDelete={() => handleDelete(task)}
-            onCreateSubtask={() => handleCreateSubtask(task)}
-            onClick={() => handleTaskClick(task)}
-            showDescription={showDescription}
-            compact={compact}
-          />
-        ))}
+        {tasks.map(task => {
+          const card = (
+            <TaskCard
+              key={task.id}
+              task={task}
+              onComplete={() => handleComplete(task)}
+              onEdit={() => handleEdit(task)}
+              onDelete={() => handleDelete(task)}
+              onCreateSubtask={() => handleCreateSubtask(task)}
+              onShift={kind => handleShift(task, kind)}
+              onClick={() => handleTaskClick(task)}
+              showDescription={showDescription}
+              compact={compact}
+            />
+          )
+          return wrapCard ? <Fragment key={task.id}>{wrapCard(task, card)}</Fragment> : card
+        })}
       </Space>
 
       {/* Task Detail Modal */}
@@ -121,6 +173,7 @@ export function TaskList({
         onEdit={handleDetailEdit}
         onDelete={handleDetailDelete}
         onComplete={handleDetailComplete}
+        onLogCompletion={handleDetailLogCompletion}
         onCreateSubtask={handleDetailCreateSubtask}
       />
 
@@ -135,6 +188,19 @@ export function TaskList({
         }}
       />
 
+      {/* Shift Forward Modal */}
+      <ShiftDaysModal
+        open={!!shiftDaysTask}
+        task={shiftDaysTask}
+        onClose={() => setShiftDaysTask(null)}
+        onSubmit={async days => {
+          if (shiftDaysTask) {
+            await applyShift(shiftDaysTask, { kind: 'days', days })
+          }
+          setShiftDaysTask(null)
+        }}
+      />
+
       {/* Create Subtask Modal */}
       <TaskFormModal
         open={!!subtaskParent}
@@ -0,0 +1,99 @@
+import { Space, Button, Progress, Tooltip, Typography, message } from 'antd'
+import {
+  PlayCircleOutlined,
+  PauseOutlined,
+  CaretRightOutlined,
+  CheckOutlined,
+  CloseOutlined,
+} from '@ant-design/icons'
+import { Task } from '@/types/task'
+import { useTimerStore } from '@/stores/timerStore'
+import { useNow } from '@/hooks/useNow'
+import {
+  formatTimerRemaining,
+  getTimerDuration,
+  getTimerProgress,
+  getTimerRemainingMs,
+} from '@/lib/timer-utils'
+import { requestNotificationPermission } from '@/lib/notifications'
+import { colors } from '@/lib/design-tokens'
+
+const { Text } = Typography
+
+interface TaskTimerProps {
+  task: Pick<Task, 'id' | 'timer_duration_minutes'>
+  size?: 'small' | 'default'
+}
+
+export function TaskTimer({ task, size = 'small' }: TaskTimerProps) {
+  const { activeTimer, startTimer, pauseTimer, resumeTimer, cancelTimer, finishTimer } =
+    useTimerStore()
+  const isActive = activeTimer?.taskId === task.id
+  const now = useNow(isActive && activeTimer?.status === 'running')
+
+  const handleStart = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const { error } = startTimer(task.id, getTimerDuration(task))
+    if (error) {
+      message.error(error.message)
+      return
+    }
+    requestNotificationPermission()
+  }
+
+  const handleFinishEarly = async (e: React.MouseEvent) => {
+    e.stopPropagation()
+    const { minutes, error } = await finishTimer()
+    if (error) {
+      message.error(error.message)
+    } else {
+      message.success(`Focus session finished after ${minutes} min`)
+    }
+  }
+
+  if (!isActive || !activeTimer) {
+    return (
+      <Tooltip title={`Start ${getTimerDuration(task)} min focus timer`}>
+        <Button
+          type="text"
+          size="small"
+          icon={<PlayCircleOutlined />}
+          onClick={handleStart}
+          aria-label="Start focus timer"
+        />
+      </Tooltip>
+    )
+  }
+
+  const isPaused = activeTimer.status === 'paused'
+  const ringSize = size === 'small' ? 28 : 40
+
+  return (
+    <Space size={4} onClick={e => e.stopPropagation()}>
+      <Progress
+        type="circle"
+        size={ringSize}
+        percent={getTimerProgress(activeTimer, now)}
+        showInfo={false}
+        strokeColor={isPaused ? colors.archived : colors.primary}
+      />
+      <Text strong type={isPaused ? 'secondary' : undefined} className="tabular-nums">
+        {formatTimerRemaining(getTimerRemainingMs(activeTimer, now))}
+      </Text>
+      <Tooltip title={isPaused ? 'Resume' : 'Pause'}>
+        <Button
+          type="text"
+          size="small"
+          icon={isPaused ? <CaretRightOutlined /> : <PauseOutlined />}
+          onClick={isPaused ? resumeTimer : pauseTimer}
+        />
+      </Tooltip>
+      <Tooltip title="Finish early">
+        <Button type="text" size="small" icon={<CheckOutlined />} onClick={handleFinishEarly} />
+      </Tooltip>
+      <Tooltip title="Cancel">
+        <Button type="text" size="small" icon={<CloseOutlined />} onClick={cancelTimer} />
+      </Tooltip>
+    </Space>
+  )
+}
@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react'
+
+// Current time, refreshed every `intervalMs` while `enabled`
+export function useNow(enabled: boolean, intervalMs = 1000): Date {
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const id = window.setInterval(() => setNow(new Date()), intervalMs)
+    return () => window.clearInterval(id)
+  }, [enabled, intervalMs])
+
+  return now
+}
@@ -0,0 +1,87 @@
+import { endOfWeek, startOfWeek } from 'date-fns'
+import { useShallow } from 'zustand/react/shallow'
+import { selectFilteredTasks, selectTaskIndex, useTaskStore } from '@/stores/taskStore'
+import { selectTagsById, useTagStore } from '@/stores/tagStore'
+import { dueDayKey, getTasksDueBetween } from '@/lib/task-index'
+import { shouldNudgeSomedayTask } from '@/lib/someday-utils'
+import { memoizeLast } from '@/lib/memoize'
+import { Tag } from '@/types/tag'
+import { TaskWithTags } from '@/types/task'
+
+// Store selectors for components. Each re-renders its component only when the tasks it returns
+// change (compared item by item), not on every change to the store.
+
+const noTasks: TaskWithTags[] = []
+
+export function useTask(id: string | undefined): TaskWithTags | undefined {
+  return useTaskStore(state => (id ? selectTaskIndex(state).byId.get(id) : undefined))
+}
+
+export function useChildTasks(parentId: string | undefined): TaskWithTags[] {
+  return useTaskStore(
+    useShallow(state =>
+      parentId ? (selectTaskIndex(state).childrenByParent.get(parentId) ?? noTasks) : noTasks
+    )
+  )
+}
+
+// Tasks matching the store's filters, in the store's sort order
+export function useFilteredTasks(): TaskWithTags[] {
+  return useTaskStore(useShallow(selectFilteredTasks))
+}
+
+export type DashboardView = 'today' | 'week' | 'inbox'
+
+const selectDashboardTasks = memoizeLast(
+  (tasks: TaskWithTags[], view: DashboardView, today: string): TaskWithTags[] => {
+    const index = selectTaskIndex({ tasks })
+    const now = new Date()
+
+    // Archived tasks are left out of every view; habits live on the Habits page
+    const isActive = (task: TaskWithTags) => task.status !== 'archived' && task.type !== 'habit'
+
+    switch (view) {
+      case 'today':
+        // Due today or overdue
+        return getTasksDueBetween(index, null, today).filter(isActive)
+
+      case 'week':
+        return getTasksDueBetween(
+          index,
+          dueDayKey(startOfWeek(now, { weekStartsOn: 0 })), // Week starts on Sunday
+          dueDayKey(endOfWeek(now, { weekStartsOn: 0 }))
+        ).filter(isActive)
+
+      case 'inbox':
+      default:
+        return tasks.filter(isActive)
+    }
+  }
+)
+
+export function useDashboardTasks(view: DashboardView): TaskWithTags[] {
+  return useTaskStore(
+    useShallow(state => selectDashboardTasks(state.tasks, view, dueDayKey(new Date())))
+  )
+}
+
+// Keyed by day as well, since whether a task is due for a nudge depends on the date
+const selectSomedayTasksToReview = memoizeLast((tasks: TaskWithTags[], _today: string) =>
+  tasks.filter(task => shouldNudgeSomedayTask(task))
+)
+
+export function useSomedayTasksToReview(): TaskWithTags[] {
+  return useTaskStore(
+    useShallow(state => selectSomedayTasksToReview(state.tasks, dueDayKey(new Date())))
+  )
+}
+
+// The task's tags, skipping any that no longer exist
+export function useTaskTags(tagIds: string[]): Tag[] {
+  return useTagStore(
+    useShallow(state => {
+      const tagsById = selectTagsById(state)
+      return tagIds.flatMap(id => tagsById.get(id) ?? [])
+    })
+  )
+}
@@ -0,0 +1,285 @@
+import { Constants } from '@/types/database'
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  Backup,
+  BackupData,
+  BackupRow,
+  BackupTable,
+} from '@/types/backup'
+
+// What a backup file has to look like. A restore checks the whole file against this before it
+// writes anything, so a damaged or hand-edited file is turned away instead of half-restored.
+
+// Past this, more errors only bury the first ones
+const MAX_ERRORS = 20
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+type ColumnType = 'uuid' | 'text' | 'timestamp' | 'integer' | 'boolean' | 'json' | readonly string[]
+
+interface Column {
+  type: ColumnType
+  nullable?: boolean
+  addedIn?: number // The backup version the column first appears in
+}
+
+const { Enums } = Constants.public
+
+const uuid: Column = { type: 'uuid' }
+const optionalUuid: Column = { type: 'uuid', nullable: true }
+const text: Column = { type: 'text' }
+const optionalText: Column = { type: 'text', nullable: true }
+const timestamp: Column = { type: 'timestamp' }
+const optionalTimestamp: Column = { type: 'timestamp', nullable: true }
+const integer: Column = { type: 'integer' }
+const optionalInteger: Column = { type: 'integer', nullable: true }
+const boolean: Column = { type: 'boolean' }
+const json: Column = { type: 'json' }
+const optionalJson: Column = { type: 'json', nullable: true }
+
+// Typed by the row types, so a column added to the database can't be left out here
+const tableSchemas: { [T in BackupTable]: Record<keyof BackupRow<T>, Column> } = {
+  tasks: {
+    id: uuid,
+    title: text,
+    description: optionalText,
+    type: { type: Enums.task_type },
+    status: { type: Enums.task_status },
+    blocked_reason: optionalText,
+    parent_id: optionalUuid,
+    due_date: optionalTimestamp,
+    has_due_date: boolean,
+    scheduled_date: optionalTimestamp,
+    started_at: optionalTimestamp,
+    completed_at: optionalTimestamp,
+    last_completed_at: optionalTimestamp,
+    completed_count: integer,
+    timer_duration_minutes: optionalInteger,
+    actual_minutes: optionalInteger,
+    estimated_minutes: optionalInteger,
+    notes: optionalText,
+    order_index: integer,
+    current_streak: integer,
+    longest_streak: integer,
+    streak_safe_until: optionalTimestamp,
+    target_frequency: optionalJson,
+    time_of_day: { type: Enums.habit_time_of_day, nullable: true },
+    is_urgent: boolean,
+    is_important: boolean,
+    nudge_threshold_days: optionalInteger,
+    last_nudged_at: optionalTimestamp,
+    nudge_count: integer,
+    created_at: timestamp,
+    updated_at: timestamp,
+  },
+  tags: {
+    id: uuid,
+    name: text,
+    color: { type: Enums.tag_color, nullable: true },
+    gradient: { type: Enums.tag_gradient, nullable: true },
+    icon: optionalText,
+    parent_id: optionalUuid,
+    created_at: timestamp,
+    updated_at: timestamp,
+  },
+  task_tags: {
+    task_id: uuid,
+    tag_id: uuid,
+  },
+  completions: {
+    id: uuid,
+    task_id: uuid,
+    recurrence_id: { type: 'uuid', nullable: true, addedIn: 2 },
+    completed_at: timestamp,
+    was_late: boolean,
+    was_retroactive: boolean,
+  },
+  recurrences: {
+    id: uuid,
+    task_id: uuid,
+    type: { type: Enums.recurrence_type },
+    frequency: json,
+    anchor_date: optionalTimestamp,
+    next_due_date: timestamp,
+    created_at: timestamp,
+  },
+  saved_views: {
+    id: uuid,
+    name: text,
+    icon: optionalText,
+    view_mode: { type: Enums.view_mode },
+    filters: json,
+    sort_order: json,
+    display_options: optionalJson,
+    is_pinned: boolean,
+    is_default: boolean,
+    position: integer,
+    created_at: timestamp,
+    updated_at: timestamp,
+  },
+}
+
+const BACKUP_TABLES = Object.keys(tableSchemas) as BackupTable[]
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function describe(type: ColumnType): string {
+  return typeof type === 'string' ? `a ${type}` : `one of ${type.join(', ')}`
+}
+
+function matchesType(value: unknown, type: ColumnType): boolean {
+  switch (type) {
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value)
+    case 'text':
+      return typeof value === 'string'
+    case 'timestamp':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+    case 'integer':
+      return Number.isInteger(value)
+    case 'boolean':
+      return typeof value === 'boolean'
+    case 'json':
+      return value !== undefined
+    default:
+      return typeof value === 'string' && type.includes(value)
+  }
+}
+
+function checkRows(table: BackupTable, rows: unknown, version: number, errors: string[]) {
+  if (!Array.isArray(rows)) {
+    errors.push(`data.${table}: expected a list of rows`)
+    return
+  }
+
+  const columns: Record<string, Column> = tableSchemas[table]
+  rows.forEach((row, index) => {
+    const path = `data.${table}[${index}]`
+    if (!isRecord(row)) {
+      errors.push(`${path}: expected an object`)
+      return
+    }
+
+    Object.entries(columns).forEach(([name, column]) => {
+      // Backups made before a column was added restore it as empty
+      if (column.addedIn && version < column.addedIn && !(name in row)) {
+        row[name] = null
+      }
+
+      const value = row[name]
+      if (value === null ? !column.nullable : !matchesType(value, column.type)) {
+        errors.push(`${path}.${name}: expected ${describe(column.type)}`)
+      }
+    })
+    Object.keys(row)
+      .filter(name => !(name in columns))
+      .forEach(name => errors.push(`${path}.${name}: unknown column`))
+  })
+}
+
+// Ids are unique, every reference points at a row in the file and no tree loops back on itself
+function checkReferences(data: BackupData, errors: string[]) {
+  const findDuplicates = (table: BackupTable, keys: string[]) => {
+    const seen = new Set<string>()
+    keys.forEach(key => {
+      if (seen.has(key)) errors.push(`data.${table}: ${key} appears more than once`)
+      seen.add(key)
+    })
+    return seen
+  }
+
+  const idsOf = (rows: { id: string }[]) => rows.map(row => row.id)
+  const taskIds = findDuplicates('tasks', idsOf(data.tasks))
+  const tagIds = findDuplicates('tags', idsOf(data.tags))
+  findDuplicates('completions', idsOf(data.completions))
+  const recurrenceIds = findDuplicates('recurrences', idsOf(data.recurrences))
+  findDuplicates('saved_views', idsOf(data.saved_views))
+  findDuplicates(
+    'task_tags',
+    data.task_tags.map(link => `${link.task_id}:${link.tag_id}`)
+  )
+
+  const checkTree = (table: 'tasks' | 'tags', rows: { id: string; parent_id: string | null }[]) => {
+    const parents = new Map(rows.map(row => [row.id, row.parent_id]))
+    rows.forEach(row => {
+      if (row.parent_id && !parents.has(row.parent_id)) {
+        errors.push(`data.${table}: ${row.id} has a parent_id that isn't in the file`)
+        return
+      }
+
+      const visited = new Set([row.id])
+      for (let parentId = row.parent_id; parentId; parentId = parents.get(parentId) ?? null) {
+        if (visited.has(parentId)) {
+          errors.push(`data.${table}: ${row.id} is its own ancestor`)
+          return
+        }
+        visited.add(parentId)
+      }
+    })
+  }
+  checkTree('tasks', data.tasks)
+  checkTree('tags', data.tags)
+
+  data.task_tags.forEach((link, index) => {
+    if (!taskIds.has(link.task_id) || !tagIds.has(link.tag_id)) {
+      errors.push(`data.task_tags[${index}]: links a task or tag that isn't in the file`)
+    }
+  })
+  for (const table of ['completions', 'recurrences'] as const) {
+    data[table].forEach((row, index) => {
+      if (!taskIds.has(row.task_id)) {
+        errors.push(`data.${table}[${index}]: belongs to a task that isn't in the file`)
+      }
+    })
+  }
+  data.completions.forEach((completion, index) => {
+    if (completion.recurrence_id && !recurrenceIds.has(completion.recurrence_id)) {
+      errors.push(`data.completions[${index}]: belongs to a recurrence that isn't in the file`)
+    }
+  })
+}
+
+// The parsed file as a backup, or what is wrong with it
+export function validateBackup(value: unknown): { data: Backup | null; errors: string[] } {
+  const errors: string[] = []
+
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    return { data: null, errors: ['This is not a DoTheThing backup file'] }
+  }
+  if (!Number.isInteger(value.version) || (value.version as number) < 1) {
+    return { data: null, errors: ['The backup has no valid version'] }
+  }
+  if ((value.version as number) > BACKUP_VERSION) {
+    return {
+      data: null,
+      errors: [
+        'The backup was made by a newer version of DoTheThing; update the app to restore it',
+      ],
+    }
+  }
+  if (!matchesType(value.exported_at, 'timestamp')) {
+    errors.push('exported_at: expected a timestamp')
+  }
+  if (!isRecord(value.data)) {
+    return { data: null, errors: [...errors, 'data: expected an object'] }
+  }
+
+  const data = value.data
+  BACKUP_TABLES.forEach(table => checkRows(table, data[table], value.version as number, errors))
+  if (errors.length === 0) {
+    checkReferences(value.data as BackupData, errors)
+  }
+
+  if (errors.length > 0) {
+    const hidden = errors.length - MAX_ERRORS
+    return {
+      data: null,
+      errors: hidden > 0 ? [...errors.slice(0, MAX_ERRORS), `…and ${hidden} more`] : errors,
+    }
+  }
+
+  return { data: value as unknown as Backup, errors: [] }
+}
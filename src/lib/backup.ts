@@ -0,0 +1,308 @@
+import { getRepository } from '@/lib/repository'
+import { Tables } from '@/types/database'
+import { Repository, RepositoryError, RepositoryResult } from '@/types/repository'
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  Backup,
+  BackupRow,
+  BackupTable,
+  ConflictStrategy,
+  RestoreCounts,
+  RestoreSummary,
+} from '@/types/backup'
+import { TaskFilters } from '@/types/task'
+
+// Backing up everything the user has to a JSON file, and restoring such a file into the
+// signed-in account. Restored rows keep their ids where they can, so restoring the same file
+// twice finds the rows it already wrote; a row gets a new id when it is restored as a copy, or
+// when its id is taken by a row the account can't see. Parent links, tag links, completions,
+// recurrences, completion series and saved view filters follow their rows to the new ids.
+
+export type UserData = { [T in BackupTable]: Tables<T>[] }
+
+export async function readUserData(
+  repository: Repository
+): Promise<{ data: UserData | null; error: Error | null }> {
+  const [tasks, taskTags, tags, completions, recurrences, savedViews] = await Promise.all([
+    repository.tasks.list(),
+    repository.taskTags.list(null),
+    repository.tags.list(),
+    repository.completions.list(null),
+    repository.recurrences.list(),
+    repository.savedViews.list(),
+  ])
+
+  const failed = [tasks, taskTags, tags, completions, recurrences, savedViews].find(
+    result => result.error
+  )
+  if (failed?.error) {
+    return { data: null, error: new Error(failed.error.message) }
+  }
+
+  return {
+    data: {
+      tasks: tasks.data ?? [],
+      task_tags: taskTags.data ?? [],
+      tags: tags.data ?? [],
+      completions: completions.data ?? [],
+      recurrences: recurrences.data ?? [],
+      saved_views: savedViews.data ?? [],
+    },
+    error: null,
+  }
+}
+
+// Parents before their children, so each row's parent already exists when it is inserted
+export function parentsFirst<T extends { id: string; parent_id: string | null }>(rows: T[]): T[] {
+  const byId = new Map(rows.map(row => [row.id, row]))
+  const placed = new Set<string>()
+  const ordered: T[] = []
+
+  const place = (row: T) => {
+    if (placed.has(row.id)) return
+    placed.add(row.id)
+
+    const parent = row.parent_id ? byId.get(row.parent_id) : undefined
+    if (parent) place(parent)
+    ordered.push(row)
+  }
+  rows.forEach(place)
+
+  return ordered
+}
+
+function withoutOwner<T extends { user_id: string }>(rows: T[]): Omit<T, 'user_id'>[] {
+  return rows.map(({ user_id: _userId, ...row }) => row)
+}
+
+export async function createBackup(): Promise<{ data: Backup | null; error: Error | null }> {
+  const { data, error } = await readUserData(getRepository())
+  if (error || !data) {
+    return { data: null, error }
+  }
+
+  return {
+    data: {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exported_at: new Date().toISOString(),
+      data: {
+        tasks: withoutOwner(data.tasks),
+        tags: withoutOwner(data.tags),
+        task_tags: withoutOwner(data.task_tags),
+        completions: data.completions,
+        recurrences: data.recurrences,
+        saved_views: withoutOwner(data.saved_views),
+      },
+    },
+    error: null,
+  }
+}
+
+// Creates a row under id, or under a new id when it's a copy or the database reports the id
+// as taken (by another account's row, which RLS hides from the conflict check)
+async function createWithFreeId(
+  id: string,
+  isCopy: boolean,
+  create: (id: string) => RepositoryResult<unknown>
+): Promise<{ id: string; error: RepositoryError | null }> {
+  const firstId = isCopy ? crypto.randomUUID() : id
+  const { error } = await create(firstId)
+  if (error?.code !== '23505' || isCopy) {
+    return { id: firstId, error }
+  }
+
+  const retryId = crypto.randomUUID()
+  const { error: retryError } = await create(retryId)
+  return { id: retryId, error: retryError }
+}
+
+function emptyCounts(): RestoreCounts {
+  return { created: 0, updated: 0, skipped: 0 }
+}
+
+// Writes a validated backup into the signed-in account. Stops at the first failed write, with
+// what was restored so far left in place; restoring again with skip completes it.
+export async function restoreBackup(
+  backup: Backup,
+  strategy: ConflictStrategy,
+  userId: string
+): Promise<{ data: RestoreSummary; error: Error | null }> {
+  const summary: RestoreSummary = {
+    tasks: emptyCounts(),
+    tags: emptyCounts(),
+    completions: emptyCounts(),
+    recurrences: emptyCounts(),
+    saved_views: emptyCounts(),
+  }
+  const failed = (error: RepositoryError | Error) => ({
+    data: summary,
+    error: new Error(error.message),
+  })
+
+  const { data: existing, error: readError } = await readUserData(getRepository())
+  if (readError || !existing) {
+    return failed(readError ?? new Error('Could not read your data'))
+  }
+
+  const repository = getRepository()
+  const { data } = backup
+  const tagIds = new Map<string, string>() // Backup id to the id restored under
+  const taskIds = new Map<string, string>()
+  const recurrenceIds = new Map<string, string>()
+  const mapId = (ids: Map<string, string>, id: string) => ids.get(id) ?? id
+
+  const existingTagIds = new Set(existing.tags.map(tag => tag.id))
+  for (const tag of parentsFirst(data.tags)) {
+    const row = { ...tag, parent_id: tag.parent_id && mapId(tagIds, tag.parent_id) }
+    const exists = existingTagIds.has(tag.id)
+
+    if (exists && strategy !== 'duplicate') {
+      tagIds.set(tag.id, tag.id)
+      if (strategy === 'skip') {
+        summary.tags.skipped += 1
+        continue
+      }
+
+      const { error } = await repository.tags.update(tag.id, row)
+      if (error) return failed(error)
+      summary.tags.updated += 1
+      continue
+    }
+
+    const { id, error } = await createWithFreeId(tag.id, exists, id =>
+      repository.tags.create({ ...row, id, user_id: userId })
+    )
+    if (error) return failed(error)
+    tagIds.set(tag.id, id)
+    summary.tags.created += 1
+  }
+
+  const tagIdsByTask = new Map<string, string[]>()
+  data.task_tags.forEach(link => {
+    const linked = mapId(tagIds, link.tag_id)
+    tagIdsByTask.set(link.task_id, [...(tagIdsByTask.get(link.task_id) ?? []), linked])
+  })
+
+  const existingTaskIds = new Set(existing.tasks.map(task => task.id))
+  for (const task of parentsFirst(data.tasks)) {
+    const row = { ...task, parent_id: task.parent_id && mapId(taskIds, task.parent_id) }
+    const linkedTagIds = tagIdsByTask.get(task.id) ?? []
+    const exists = existingTaskIds.has(task.id)
+
+    if (exists && strategy !== 'duplicate') {
+      taskIds.set(task.id, task.id)
+      if (strategy === 'skip') {
+        summary.tasks.skipped += 1
+        continue
+      }
+
+      const { error } = await repository.tasks.update(task.id, row)
+      if (error) return failed(error)
+      const { error: tagsError } = await repository.taskTags.replace(task.id, linkedTagIds)
+      if (tagsError) return failed(tagsError)
+      summary.tasks.updated += 1
+      continue
+    }
+
+    const { id, error } = await createWithFreeId(task.id, exists, id =>
+      repository.tasks.create({ ...row, id }, linkedTagIds)
+    )
+    if (error) return failed(error)
+    taskIds.set(task.id, id)
+
+    // Creating only sets what a new task can have; progress, streaks and position come after
+    const { error: updateError } = await repository.tasks.update(id, { ...row, id })
+    if (updateError) return failed(updateError)
+    summary.tasks.created += 1
+  }
+
+  const existingRecurrenceIds = new Set(existing.recurrences.map(recurrence => recurrence.id))
+  for (const recurrence of data.recurrences) {
+    const row = { ...recurrence, task_id: mapId(taskIds, recurrence.task_id) }
+    const exists = existingRecurrenceIds.has(recurrence.id)
+
+    if (exists && strategy === 'skip') {
+      recurrenceIds.set(recurrence.id, recurrence.id)
+      summary.recurrences.skipped += 1
+    } else if (exists && strategy === 'overwrite') {
+      recurrenceIds.set(recurrence.id, recurrence.id)
+      const { error } = await repository.recurrences.update(recurrence.id, row)
+      if (error) return failed(error)
+      summary.recurrences.updated += 1
+    } else {
+      const { id, error } = await createWithFreeId(recurrence.id, exists, id =>
+        repository.recurrences.create({ ...row, id })
+      )
+      if (error) return failed(error)
+      recurrenceIds.set(recurrence.id, id)
+      summary.recurrences.created += 1
+    }
+  }
+
+  // A completion records something that happened, so one the account already has is never
+  // rewritten, only copied along with a duplicated task
+  const existingCompletionIds = new Set(existing.completions.map(completion => completion.id))
+  for (const completion of data.completions) {
+    const exists = existingCompletionIds.has(completion.id)
+    if (exists && strategy !== 'duplicate') {
+      summary.completions.skipped += 1
+      continue
+    }
+
+    const row = {
+      ...completion,
+      task_id: mapId(taskIds, completion.task_id),
+      recurrence_id: completion.recurrence_id && mapId(recurrenceIds, completion.recurrence_id),
+    }
+    const { error } = await createWithFreeId(completion.id, exists, id =>
+      repository.completions.create({ ...row, id })
+    )
+    if (error) return failed(error)
+    summary.completions.created += 1
+  }
+
+  // New views go after the account's own, and only one view can be the default
+  const existingViewIds = new Set(existing.saved_views.map(view => view.id))
+  let position = Math.max(-1, ...existing.saved_views.map(view => view.position)) + 1
+  let hasDefault = existing.saved_views.some(view => view.is_default)
+  for (const view of data.saved_views) {
+    const filters = view.filters as TaskFilters
+    const row: BackupRow<'saved_views'> = {
+      ...view,
+      filters: {
+        ...filters,
+        ...(filters.tags && { tags: filters.tags.map(tagId => mapId(tagIds, tagId)) }),
+        ...(filters.parent_id && { parent_id: mapId(taskIds, filters.parent_id) }),
+      },
+      is_default: view.is_default && !hasDefault,
+    }
+    const exists = existingViewIds.has(view.id)
+
+    if (exists && strategy === 'skip') {
+      summary.saved_views.skipped += 1
+      continue
+    }
+
+    if (exists && strategy === 'overwrite') {
+      const current = existing.saved_views.find(({ id }) => id === view.id)
+      const { error } = await repository.savedViews.update(view.id, {
+        ...row,
+        is_default: current?.is_default || row.is_default,
+      })
+      if (error) return failed(error)
+      summary.saved_views.updated += 1
+    } else {
+      const { error } = await createWithFreeId(view.id, exists, id =>
+        repository.savedViews.create({ ...row, id, user_id: userId, position })
+      )
+      if (error) return failed(error)
+      position += 1
+      summary.saved_views.created += 1
+    }
+    hasDefault = hasDefault || row.is_default
+  }
+
+  return { data: summary, error: null }
+}
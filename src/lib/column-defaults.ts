@@ -0,0 +1,87 @@
+import { Tables } from '@/types/database'
+
+// Column defaults of each table: what the database fills in for columns an insert leaves out.
+// Used to show a new row before the server has stored it, and by the local backend.
+
+export function newTaskDefaults(id: string, userId: string): Tables<'tasks'> {
+  const now = new Date().toISOString()
+  return {
+    id,
+    user_id: userId,
+    title: '',
+    description: null,
+    type: 'task',
+    status: 'ready',
+    blocked_reason: null,
+    parent_id: null,
+    due_date: null,
+    has_due_date: true,
+    scheduled_date: null,
+    started_at: null,
+    completed_at: null,
+    last_completed_at: null,
+    completed_count: 0,
+    timer_duration_minutes: null,
+    actual_minutes: null,
+    estimated_minutes: null,
+    notes: null,
+    order_index: 0,
+    current_streak: 0,
+    longest_streak: 0,
+    streak_safe_until: null,
+    target_frequency: null,
+    time_of_day: null,
+    is_urgent: false,
+    is_important: false,
+    nudge_threshold_days: null,
+    last_nudged_at: null,
+    nudge_count: 0,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+export function newTagDefaults(id: string, userId: string): Tables<'tags'> {
+  const now = new Date().toISOString()
+  return {
+    id,
+    user_id: userId,
+    name: '',
+    color: null,
+    gradient: null,
+    icon: null,
+    parent_id: null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+export function newCompletionDefaults(id: string, taskId: string): Tables<'completions'> {
+  return {
+    id,
+    task_id: taskId,
+    recurrence_id: null,
+    completed_at: new Date().toISOString(),
+    was_late: false,
+    was_retroactive: false,
+  }
+}
+
+export function newSavedViewDefaults(id: string, userId: string): Tables<'saved_views'> {
+  const now = new Date().toISOString()
+  return {
+    id,
+    user_id: userId,
+    name: '',
+    icon: null,
+    view_mode: 'list',
+    filters: {},
+    sort_order: { field: 'created_at', direction: 'desc' },
+    display_options: null,
+    is_pinned: true,
+    is_default: false,
+    position: 0,
+    created_at: now,
+    updated_at: now,
+  }
+}
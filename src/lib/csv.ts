@@ -0,0 +1,53 @@
+// A CSV reader for the files other apps export (RFC 4180: quoted fields may hold commas,
+// doubled quotes and line breaks). Returns each record as its list of fields.
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  // A byte order mark would otherwise end up in the first header
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows
+}
+
+// Records after the header row as objects keyed by column name
+export function toRecords(header: string[], rows: string[][]): Record<string, string>[] {
+  return rows
+    .filter(row => row.some(field => field.trim() !== ''))
+    .map(row => Object.fromEntries(header.map((column, index) => [column, row[index] ?? ''])))
+}
@@ -0,0 +1,53 @@
+import { ShiftStrategy, ShiftStrategyKind } from '@/types/task'
+import { addDays, nextMonday, parseISO, setHours, setMinutes, startOfDay, isBefore } from 'date-fns'
+
+export const shiftStrategyConfig: Record<
+  ShiftStrategyKind,
+  { label: string; description: string }
+> = {
+  tomorrow: {
+    label: 'Move to Tomorrow',
+    description: 'Postpone to tomorrow',
+  },
+  days: {
+    label: 'Move Forward X Days',
+    description: 'Push the due date back by a number of days',
+  },
+  next_monday: {
+    label: 'Move to Next Week',
+    description: 'Move to next Monday',
+  },
+  remove_due_date: {
+    label: 'Remove Due Date',
+    description: 'Drop the due date',
+  },
+}
+
+// Keep the original time of day when a task is moved to another day
+function onDay(day: Date, dueDate: Date | null): Date {
+  if (!dueDate) return day
+  return setMinutes(setHours(day, dueDate.getHours()), dueDate.getMinutes())
+}
+
+export function getShiftedDueDate(
+  dueDate: string | null,
+  strategy: ShiftStrategy,
+  now: Date = new Date()
+): string | null {
+  const current = dueDate ? parseISO(dueDate) : null
+  const today = startOfDay(now)
+
+  switch (strategy.kind) {
+    case 'tomorrow':
+      return onDay(addDays(today, 1), current).toISOString()
+    case 'days': {
+      // Overdue tasks move forward from today rather than from their stale due date
+      const from = current && !isBefore(current, today) ? startOfDay(current) : today
+      return onDay(addDays(from, strategy.days), current).toISOString()
+    }
+    case 'next_monday':
+      return onDay(nextMonday(today), current).toISOString()
+    default:
+      return null
+  }
+}
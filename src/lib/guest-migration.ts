@@ -0,0 +1,136 @@
+import { getGuestRepository, getRepository } from '@/lib/repository'
+import { UserData, parentsFirst, readUserData } from '@/lib/backup'
+import { forgetGuest, getGuestUserId } from '@/stores/authStore'
+
+// Moving what was made in guest mode into the signed-in account. Rows keep their ids, so
+// subtasks stay under their parents, tags under theirs and tag assignments carry over as they
+// are. A move that fails part way can just be run again: rows the account already has are
+// skipped.
+
+// What the guest left in this browser; null when there was no guest or they made nothing
+export async function readGuestData(): Promise<{ data: UserData | null; error: Error | null }> {
+  if (!getGuestUserId()) {
+    return { data: null, error: null }
+  }
+
+  const { data, error } = await readUserData(getGuestRepository())
+  if (error || !data) {
+    return { data: null, error }
+  }
+
+  const isEmpty = data.tasks.length === 0 && data.tags.length === 0 && data.saved_views.length === 0
+  return { data: isEmpty ? null : data, error: null }
+}
+
+// Copies the guest's data into the signed-in account, then removes it from the browser
+export async function moveGuestDataToAccount(userId: string): Promise<{ error: Error | null }> {
+  const { data: guest, error: readError } = await readGuestData()
+  if (readError || !guest) {
+    return { error: readError }
+  }
+
+  const { data: existing, error: existingError } = await readUserData(getRepository())
+  if (existingError || !existing) {
+    return { error: existingError }
+  }
+
+  const tagIds = new Set(existing.tags.map(tag => tag.id))
+  for (const tag of parentsFirst(guest.tags)) {
+    if (tagIds.has(tag.id)) continue
+
+    const { error } = await getRepository().tags.create({ ...tag, user_id: userId })
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+  }
+
+  const taskIds = new Set(existing.tasks.map(task => task.id))
+  for (const task of parentsFirst(guest.tasks)) {
+    if (taskIds.has(task.id)) continue
+
+    const linkedTagIds = guest.task_tags
+      .filter(link => link.task_id === task.id)
+      .map(link => link.tag_id)
+
+    const { error } = await getRepository().tasks.create(task, linkedTagIds)
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    // Creating only sets what a new task can have; progress, streaks and position come after
+    const { error: updateError } = await getRepository().tasks.update(task.id, {
+      ...task,
+      user_id: userId,
+    })
+    if (updateError) {
+      return { error: new Error(updateError.message) }
+    }
+  }
+
+  const recurrenceIds = new Set(existing.recurrences.map(recurrence => recurrence.id))
+  for (const recurrence of guest.recurrences) {
+    if (recurrenceIds.has(recurrence.id)) continue
+
+    const { error } = await getRepository().recurrences.create(recurrence)
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+  }
+
+  // After the recurrences, which completions of a series refer to
+  const completionIds = new Set(existing.completions.map(completion => completion.id))
+  for (const completion of guest.completions) {
+    if (completionIds.has(completion.id)) continue
+
+    const { error } = await getRepository().completions.create(completion)
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+  }
+
+  // Guest views go after the account's own, and the account keeps its default
+  const viewIds = new Set(existing.saved_views.map(view => view.id))
+  const firstPosition = Math.max(-1, ...existing.saved_views.map(view => view.position)) + 1
+  const hasDefault = existing.saved_views.some(view => view.is_default)
+  for (const [index, view] of guest.saved_views.entries()) {
+    if (viewIds.has(view.id)) continue
+
+    const { error } = await getRepository().savedViews.create({
+      ...view,
+      user_id: userId,
+      position: firstPosition + index,
+      is_default: view.is_default && !hasDefault,
+    })
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+  }
+
+  return discardGuestData()
+}
+
+// Deletes everything the guest made and forgets them
+export async function discardGuestData(): Promise<{ error: Error | null }> {
+  const { data: guest, error: readError } = await readGuestData()
+  if (readError) {
+    return { error: readError }
+  }
+
+  if (guest) {
+    const repository = getGuestRepository()
+    // Subtasks, tag links, completions and recurrences go with their top-level task
+    const deletions = [
+      ...guest.tasks.filter(task => !task.parent_id).map(task => repository.tasks.delete(task.id)),
+      ...guest.tags.map(tag => repository.tags.delete(tag.id)),
+      ...guest.saved_views.map(view => repository.savedViews.delete(view.id)),
+    ]
+
+    const failed = (await Promise.all(deletions)).find(result => result.error)
+    if (failed?.error) {
+      return { error: new Error(failed.error.message) }
+    }
+  }
+
+  forgetGuest()
+  return { error: null }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { calculateHabitStreak, getMetPeriods, isStreakExpired } from '@/lib/habit-utils'
+import { HabitTargetFrequency } from '@/types/habit'
+
+// Local times, so the day and week boundaries are the same in every time zone.
+// 2024-01-07 is a Sunday, the first day of a week here.
+const at = (day: number, hour = 9) => new Date(2024, 0, day, hour)
+
+const daily: HabitTargetFrequency = { count: 1, period: 'day' }
+const threeTimesAWeek: HabitTargetFrequency = { count: 3, period: 'week' }
+
+describe('getMetPeriods', () => {
+  it('counts a period only once its target is reached', () => {
+    const completions = [at(8), at(9), at(10), at(15), at(16)]
+
+    expect(getMetPeriods(completions, threeTimesAWeek)).toEqual([new Date(2024, 0, 7)])
+  })
+
+  it('returns the periods oldest first, with several completions in a day counted once', () => {
+    const completions = [at(3), at(1, 8), at(1, 20), at(2)]
+
+    expect(getMetPeriods(completions, daily)).toEqual([
+      new Date(2024, 0, 1),
+      new Date(2024, 0, 2),
+      new Date(2024, 0, 3),
+    ])
+  })
+})
+
+describe('calculateHabitStreak', () => {
+  it('has no streak without completions', () => {
+    expect(calculateHabitStreak([], daily, at(5))).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+      streakSafeUntil: null,
+    })
+  })
+
+  it('counts consecutive days and is safe until the end of the following day', () => {
+    const streak = calculateHabitStreak([at(1), at(2), at(3)], daily, at(3, 18))
+
+    expect(streak.currentStreak).toBe(3)
+    expect(streak.longestStreak).toBe(3)
+    expect(streak.streakSafeUntil).toEqual(new Date(2024, 0, 5))
+  })
+
+  it('keeps the streak through the day after the last completion', () => {
+    expect(calculateHabitStreak([at(1), at(2)], daily, at(3, 23)).currentStreak).toBe(2)
+  })
+
+  it('breaks the streak once a whole day is missed', () => {
+    const streak = calculateHabitStreak([at(1), at(2)], daily, at(4, 0))
+
+    expect(streak).toEqual({ currentStreak: 0, longestStreak: 2, streakSafeUntil: null })
+  })
+
+  it('ignores completions after now', () => {
+    expect(calculateHabitStreak([at(1), at(2), at(3)], daily, at(2, 18)).currentStreak).toBe(2)
+  })
+
+  it('counts weeks in which the weekly target was met', () => {
+    const completions = [
+      // Week of Jan 7: met
+      at(7),
+      at(9),
+      at(11),
+      // Week of Jan 14: met
+      at(14),
+      at(15),
+      at(20),
+      // Week of Jan 21: only twice so far
+      at(22),
+      at(23),
+    ]
+    const streak = calculateHabitStreak(completions, threeTimesAWeek, at(24))
+
+    expect(streak.currentStreak).toBe(2)
+    expect(streak.streakSafeUntil).toEqual(new Date(2024, 0, 28))
+  })
+
+  it('breaks a weekly streak when a week falls short', () => {
+    const completions = [at(7), at(9), at(11), at(14), at(15)]
+
+    expect(calculateHabitStreak(completions, threeTimesAWeek, at(21, 1)).currentStreak).toBe(0)
+  })
+
+  it('lets grace_days bridge a missed day', () => {
+    const completions = [at(1), at(2), at(4), at(5)]
+
+    expect(calculateHabitStreak(completions, daily, at(5, 18)).currentStreak).toBe(2)
+    expect(
+      calculateHabitStreak(completions, { ...daily, grace_days: 1 }, at(5, 18)).currentStreak
+    ).toBe(4)
+  })
+
+  it('moves streakSafeUntil back by grace_days', () => {
+    const streak = calculateHabitStreak([at(1)], { ...daily, grace_days: 2 }, at(1, 18))
+
+    expect(streak.streakSafeUntil).toEqual(new Date(2024, 0, 5))
+    expect(
+      calculateHabitStreak([at(1)], { ...daily, grace_days: 2 }, at(4, 23)).currentStreak
+    ).toBe(1)
+    expect(calculateHabitStreak([at(1)], { ...daily, grace_days: 2 }, at(5)).currentStreak).toBe(0)
+  })
+
+  it('keeps the longest streak after a shorter current one', () => {
+    const completions = [at(1), at(2), at(3), at(4), at(10), at(11)]
+    const streak = calculateHabitStreak(completions, daily, at(11, 18))
+
+    expect(streak.currentStreak).toBe(2)
+    expect(streak.longestStreak).toBe(4)
+  })
+
+  it('keeps the longest streak once the current one is broken', () => {
+    const streak = calculateHabitStreak([at(1), at(2), at(3)], daily, at(20))
+
+    expect(streak.currentStreak).toBe(0)
+    expect(streak.longestStreak).toBe(3)
+  })
+})
+
+describe('isStreakExpired', () => {
+  const safeUntil = new Date(2024, 0, 5).toISOString()
+
+  it('is expired once streak_safe_until has passed', () => {
+    const task = { current_streak: 3, streak_safe_until: safeUntil }
+
+    expect(isStreakExpired(task, at(4, 23))).toBe(false)
+    expect(isStreakExpired(task, new Date(2024, 0, 5))).toBe(true)
+  })
+
+  it('never expires a streak that is already zero or has no deadline', () => {
+    expect(isStreakExpired({ current_streak: 0, streak_safe_until: safeUntil }, at(20))).toBe(false)
+    expect(isStreakExpired({ current_streak: 3, streak_safe_until: null }, at(20))).toBe(false)
+  })
+})
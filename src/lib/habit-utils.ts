@@ -0,0 +1,153 @@
+import { Task } from '@/types/task'
+import { HabitPeriod, HabitStreak, HabitTargetFrequency, HabitTimeOfDay } from '@/types/habit'
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  isAfter,
+  isSameDay,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+
+export const DEFAULT_HABIT_TARGET: HabitTargetFrequency = { count: 1, period: 'day' }
+
+export const DEFAULT_GRACE_DAYS = 0
+
+export const habitTimeOfDayConfig: Record<HabitTimeOfDay, { label: string; icon: string }> = {
+  morning: {
+    label: 'Morning',
+    icon: '🌅',
+  },
+  afternoon: {
+    label: 'Afternoon',
+    icon: '☀️',
+  },
+  evening: {
+    label: 'Evening',
+    icon: '🌙',
+  },
+  anytime: {
+    label: 'Anytime',
+    icon: '🕐',
+  },
+}
+
+export function getHabitTarget(task: Pick<Task, 'target_frequency'>): HabitTargetFrequency {
+  return task.target_frequency ?? DEFAULT_HABIT_TARGET
+}
+
+export function getPeriodStart(date: Date, period: HabitPeriod): Date {
+  switch (period) {
+    case 'week':
+      return startOfWeek(date, { weekStartsOn: 0 }) // Week starts on Sunday
+    case 'month':
+      return startOfMonth(date)
+    default:
+      return startOfDay(date)
+  }
+}
+
+export function getNextPeriodStart(periodStart: Date, period: HabitPeriod): Date {
+  switch (period) {
+    case 'week':
+      return addWeeks(periodStart, 1)
+    case 'month':
+      return addMonths(periodStart, 1)
+    default:
+      return addDays(periodStart, 1)
+  }
+}
+
+// A streak survives as long as the period after a met period is also met,
+// with grace_days of slack after that following period ends
+function getSafeUntil(periodStart: Date, target: HabitTargetFrequency): Date {
+  const followingPeriod = getNextPeriodStart(periodStart, target.period)
+  return addDays(
+    getNextPeriodStart(followingPeriod, target.period),
+    target.grace_days ?? DEFAULT_GRACE_DAYS
+  )
+}
+
+// Start times of every period in which the target count was reached, oldest first
+export function getMetPeriods(completedAts: Date[], target: HabitTargetFrequency): Date[] {
+  const counts = new Map<number, number>()
+  completedAts.forEach(completedAt => {
+    const key = getPeriodStart(completedAt, target.period).getTime()
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  })
+
+  return [...counts.entries()]
+    .filter(([, count]) => count >= target.count)
+    .map(([key]) => new Date(key))
+    .sort((a, b) => a.getTime() - b.getTime())
+}
+
+export function calculateHabitStreak(
+  completedAts: Date[],
+  target: HabitTargetFrequency = DEFAULT_HABIT_TARGET,
+  now: Date = new Date()
+): HabitStreak {
+  const metPeriods = getMetPeriods(
+    completedAts.filter(completedAt => !isAfter(completedAt, now)),
+    target
+  )
+
+  if (metPeriods.length === 0) {
+    return { currentStreak: 0, longestStreak: 0, streakSafeUntil: null }
+  }
+
+  let run = 1
+  let longestStreak = 1
+  for (let i = 1; i < metPeriods.length; i++) {
+    const continuesRun = !isAfter(
+      getNextPeriodStart(metPeriods[i], target.period),
+      getSafeUntil(metPeriods[i - 1], target)
+    )
+    run = continuesRun ? run + 1 : 1
+    longestStreak = Math.max(longestStreak, run)
+  }
+
+  const streakSafeUntil = getSafeUntil(metPeriods[metPeriods.length - 1], target)
+  const isBroken = !isAfter(streakSafeUntil, now)
+
+  return {
+    currentStreak: isBroken ? 0 : run,
+    longestStreak,
+    streakSafeUntil: isBroken ? null : streakSafeUntil,
+  }
+}
+
+export function isStreakExpired(
+  task: Pick<Task, 'current_streak' | 'streak_safe_until'>,
+  now: Date = new Date()
+): boolean {
+  if (task.current_streak === 0 || !task.streak_safe_until) return false
+  return !isAfter(parseISO(task.streak_safe_until), now)
+}
+
+export function getCompletionsInPeriod(
+  completedAts: Date[],
+  period: HabitPeriod,
+  now: Date = new Date()
+): number {
+  const start = getPeriodStart(now, period).getTime()
+  const end = getNextPeriodStart(new Date(start), period).getTime()
+  return completedAts.filter(d => d.getTime() >= start && d.getTime() < end).length
+}
+
+export function getHabitTargetDescription(target: HabitTargetFrequency): string {
+  const times = target.count === 1 ? 'Once' : `${target.count} times`
+  const period = target.period === 'day' ? 'a day' : `a ${target.period}`
+  return target.count === 1 && target.period === 'day' ? 'Daily' : `${times} ${period}`
+}
+
+export function isHabitDoneToday(
+  task: Pick<Task, 'type' | 'last_completed_at'>,
+  now: Date = new Date()
+): boolean {
+  if (task.type !== 'habit' || !task.last_completed_at) return false
+  return isSameDay(parseISO(task.last_completed_at), now)
+}
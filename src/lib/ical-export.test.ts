@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest'
+import { createCalendar, countCalendarTasks } from '@/lib/ical-export'
+import { findProperty, parseIcs } from '@/lib/ical'
+import { parseIcalTodos } from '@/lib/import-ical'
+import { Recurrence } from '@/types/recurrence'
+import { Tag } from '@/types/tag'
+import { TaskWithTags } from '@/types/task'
+
+const now = new Date(Date.UTC(2024, 4, 1, 12))
+const localDay = (month: number, day: number) => new Date(2024, month - 1, day).toISOString()
+
+function makeTask(overrides: Partial<TaskWithTags>): TaskWithTags {
+  return {
+    actual_minutes: null,
+    blocked_reason: null,
+    completed_at: null,
+    completed_count: 0,
+    created_at: '2024-04-01T08:00:00.000Z',
+    current_streak: 0,
+    description: null,
+    due_date: null,
+    estimated_minutes: null,
+    has_due_date: false,
+    id: 'task',
+    is_important: false,
+    is_urgent: false,
+    last_completed_at: null,
+    last_nudged_at: null,
+    longest_streak: 0,
+    notes: null,
+    nudge_count: 0,
+    nudge_threshold_days: null,
+    order_index: 0,
+    parent_id: null,
+    scheduled_date: null,
+    started_at: null,
+    status: 'ready',
+    streak_safe_until: null,
+    target_frequency: null,
+    time_of_day: null,
+    timer_duration_minutes: null,
+    title: 'Task',
+    type: 'task',
+    updated_at: '2024-04-02T08:00:00.000Z',
+    user_id: 'user',
+    tags: [],
+    ...overrides,
+  }
+}
+
+function makeTag(id: string, name: string, parentId: string | null = null): Tag {
+  return {
+    id,
+    name,
+    parent_id: parentId,
+    color: null,
+    gradient: null,
+    icon: null,
+    created_at: '2024-04-01T08:00:00.000Z',
+    updated_at: '2024-04-01T08:00:00.000Z',
+    user_id: 'user',
+  }
+}
+
+const tags = [makeTag('work', 'Work'), makeTag('clients', 'Clients, Inc', 'work')]
+
+const tasks = [
+  makeTask({
+    id: 'proposal',
+    title: 'Send the proposal; then call',
+    description: 'Pricing, scope\nand dates',
+    notes: 'Ask for a deposit',
+    due_date: localDay(5, 10),
+    scheduled_date: localDay(5, 6),
+    status: 'in_progress',
+    is_urgent: true,
+    is_important: true,
+    tags: ['clients'],
+  }),
+  makeTask({
+    id: 'proofread',
+    parent_id: 'proposal',
+    title: 'Proofread it',
+    due_date: localDay(5, 9),
+    status: 'blocked',
+    is_important: true,
+  }),
+  makeTask({
+    id: 'invoice',
+    title: 'Send the invoice',
+    due_date: localDay(4, 30),
+    status: 'completed',
+    completed_at: '2024-04-29T16:45:00.000Z',
+    is_urgent: true,
+  }),
+  makeTask({
+    id: 'timesheet',
+    title: 'Timesheet',
+    type: 'recurring',
+    due_date: localDay(5, 3),
+    tags: ['work'],
+  }),
+  makeTask({ id: 'someday', title: 'No date, so not on the calendar' }),
+]
+
+const recurrences: Recurrence[] = [
+  {
+    id: 'timesheet-recurrence',
+    task_id: 'timesheet',
+    type: 'after_completion',
+    frequency: { kind: 'weekdays', days: [5] },
+    anchor_date: null,
+    next_due_date: localDay(5, 3),
+    created_at: '2024-04-01T08:00:00.000Z',
+  },
+]
+
+describe('createCalendar', () => {
+  const options = { name: 'Work, this week', tags, recurrences, now }
+
+  it('leaves out tasks with no due or scheduled date', () => {
+    const { data } = parseIcs(createCalendar(tasks, { ...options, kind: 'VTODO' }))
+
+    expect(data?.[0].components).toHaveLength(4)
+    expect(countCalendarTasks(tasks)).toBe(4)
+  })
+
+  it('writes CRLF lines of at most 75 octets', () => {
+    const text = createCalendar(tasks, { ...options, kind: 'VEVENT' })
+    const lines = text.split('\r\n')
+
+    expect(text.endsWith('END:VCALENDAR\r\n')).toBe(true)
+    expect(text.replace(/\r\n/g, '')).not.toContain('\n')
+    lines.forEach(line => expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75))
+  })
+
+  it('maps the task status onto event STATUS and marks completed events', () => {
+    const { data } = parseIcs(createCalendar(tasks, { ...options, kind: 'VEVENT' }))
+    const events = data![0].components
+    const valueOf = (index: number, name: string) => findProperty(events[index], name)?.value
+
+    expect(events.map(event => event.name)).toEqual(['VEVENT', 'VEVENT', 'VEVENT', 'VEVENT'])
+    expect(events.map((_, index) => valueOf(index, 'STATUS'))).toEqual([
+      'CONFIRMED',
+      'TENTATIVE',
+      'CONFIRMED',
+      'CONFIRMED',
+    ])
+    expect(valueOf(2, 'SUMMARY')).toBe('✓ Send the invoice')
+    expect(valueOf(0, 'DTSTART')).toBe('20240510')
+    expect(valueOf(0, 'DTEND')).toBe('20240511')
+  })
+
+  it('maps the task status onto to-do STATUS', () => {
+    const { data } = parseIcs(createCalendar(tasks, { ...options, kind: 'VTODO' }))
+    const todos = data![0].components
+
+    expect(todos.map(todo => findProperty(todo, 'STATUS')?.value)).toEqual([
+      'IN-PROCESS',
+      'NEEDS-ACTION',
+      'COMPLETED',
+      'NEEDS-ACTION',
+    ])
+    expect(findProperty(todos[2], 'COMPLETED')?.value).toBe('20240429T164500Z')
+  })
+})
+
+describe('createCalendar → parseIcalTodos', () => {
+  const text = createCalendar(tasks, { name: 'Work', kind: 'VTODO', tags, recurrences, now })
+  const { data, error } = parseIcalTodos(text, 'work.ics')
+
+  it('reads back every dated task, parents first', () => {
+    expect(error).toBeNull()
+    expect(data?.warnings).toEqual([])
+    expect(data?.tasks.map(task => task.data.title)).toEqual([
+      'Send the proposal; then call',
+      'Proofread it',
+      'Send the invoice',
+      'Timesheet',
+    ])
+  })
+
+  it('keeps dates, text, status and priority', () => {
+    const [proposal, proofread, invoice] = data!.tasks
+
+    expect(proposal.data).toEqual({
+      title: 'Send the proposal; then call',
+      description: 'Pricing, scope\nand dates\n\nAsk for a deposit',
+      status: 'in_progress',
+      due_date: localDay(5, 10),
+      scheduled_date: localDay(5, 6),
+      completed_at: null,
+      is_urgent: true,
+      is_important: true,
+    })
+    expect(proofread.data).toMatchObject({
+      status: 'blocked',
+      is_urgent: false,
+      is_important: true,
+    })
+    expect(invoice.data).toMatchObject({
+      status: 'completed',
+      completed_at: '2024-04-29T16:45:00.000Z',
+      is_urgent: true,
+      is_important: false,
+    })
+  })
+
+  it('keeps the tag tree and subtasks', () => {
+    const [proposal, proofread, , timesheet] = data!.tasks
+
+    expect(data?.tags).toEqual([
+      { key: 'category:Work', name: 'Work', parentKey: null },
+      { key: 'category:Work/Clients, Inc', name: 'Clients, Inc', parentKey: 'category:Work' },
+    ])
+    expect(proposal.tagKeys).toEqual(['category:Work/Clients, Inc'])
+    expect(timesheet.tagKeys).toEqual(['category:Work'])
+    expect(proofread.parentKey).toBe(proposal.key)
+  })
+
+  it('keeps recurrences, including repeating after completion', () => {
+    const timesheet = data!.tasks[3]
+
+    expect(timesheet.data).toMatchObject({
+      type: 'recurring',
+      recurrence: {
+        type: 'after_completion',
+        frequency: { kind: 'weekdays', days: [5] },
+        anchor_date: localDay(5, 3),
+      },
+    })
+  })
+})
@@ -0,0 +1,196 @@
+import { addDays, isBefore, parseISO, startOfDay } from 'date-fns'
+import {
+  IcsComponent,
+  IcsProperty,
+  escapeText,
+  formatIcsDate,
+  formatIcsDateTime,
+  frequencyToRrule,
+  property,
+  serializeComponent,
+} from '@/lib/ical'
+import { getTaskPriorityQuadrant } from '@/lib/task-utils'
+import { Recurrence } from '@/types/recurrence'
+import { Tag } from '@/types/tag'
+import { EisenhowerQuadrant, TaskStatus, TaskWithTags } from '@/types/task'
+
+// Task dates as an iCalendar feed. Events are for calendar apps, which mostly ignore to-dos;
+// to-dos carry more (start and due dates, completion) for apps that show them. Dates are whole
+// days, as the app picks them.
+
+export type CalendarEntryKind = 'VEVENT' | 'VTODO'
+
+export interface CalendarOptions {
+  name: string
+  kind: CalendarEntryKind
+  tags: Tag[]
+  recurrences: Recurrence[]
+  now?: Date
+}
+
+export const ICAL_PRODUCT_ID = '-//DoTheThing//Tasks//EN'
+export const ICAL_UID_DOMAIN = 'dothething'
+
+// RRULE has no "after completion"; this marks those so an import can tell them apart from
+// fixed schedules. Other apps show the pattern from the current due date, which is close.
+export const ICAL_RECURRENCE_TYPE_PROPERTY = 'X-DOTHETHING-RECURRENCE-TYPE'
+
+// STATUS can't say everything (events have no "done", neither kind has "blocked"), so the task's
+// own status goes alongside it
+export const ICAL_TASK_STATUS_PROPERTY = 'X-DOTHETHING-STATUS'
+
+export const todoStatuses: Record<TaskStatus, string> = {
+  ready: 'NEEDS-ACTION',
+  blocked: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  completed: 'COMPLETED',
+  archived: 'CANCELLED',
+}
+
+// A completed task's day still happened, so its event stays confirmed; the title says it's done
+export const eventStatuses: Record<TaskStatus, string> = {
+  ready: 'CONFIRMED',
+  in_progress: 'CONFIRMED',
+  blocked: 'TENTATIVE',
+  completed: 'CONFIRMED',
+  archived: 'CANCELLED',
+}
+
+const COMPLETED_EVENT_PREFIX = '✓ '
+
+// PRIORITY runs from 1 (highest) to 9; the last quadrant leaves it undefined
+export const quadrantPriorities: Record<EisenhowerQuadrant, number | null> = {
+  1: 1,
+  2: 3,
+  3: 5,
+  4: null,
+}
+
+export function toTaskUid(taskId: string): string {
+  return `${taskId}@${ICAL_UID_DOMAIN}`
+}
+
+// Categories are written as tag paths (Work/Clients) so the tree survives a round trip
+function getTagPaths(tags: Tag[]): Map<string, string> {
+  const byId = new Map(tags.map(tag => [tag.id, tag]))
+  const paths = new Map<string, string>()
+
+  const pathOf = (tag: Tag, seen: Set<string>): string => {
+    const parent = tag.parent_id ? byId.get(tag.parent_id) : undefined
+    if (!parent || seen.has(parent.id)) return tag.name
+    return `${pathOf(parent, seen.add(tag.id))}/${tag.name}`
+  }
+  tags.forEach(tag => paths.set(tag.id, pathOf(tag, new Set())))
+
+  return paths
+}
+
+function dateProperty(name: string, date: Date): IcsProperty {
+  return property(name, formatIcsDate(date), { VALUE: 'DATE' })
+}
+
+function createEntry(
+  task: TaskWithTags,
+  options: CalendarOptions & { now: Date },
+  tagPaths: Map<string, string>,
+  recurrence: Recurrence | undefined
+): IcsComponent | null {
+  const due = task.due_date ? startOfDay(parseISO(task.due_date)) : null
+  const scheduled = task.scheduled_date ? startOfDay(parseISO(task.scheduled_date)) : null
+  if (!due && !scheduled) return null
+
+  const properties: IcsProperty[] = [
+    property('UID', toTaskUid(task.id)),
+    property('DTSTAMP', formatIcsDateTime(options.now)),
+    property('CREATED', formatIcsDateTime(parseISO(task.created_at))),
+    property('LAST-MODIFIED', formatIcsDateTime(parseISO(task.updated_at))),
+    property(
+      'SUMMARY',
+      escapeText(
+        options.kind === 'VEVENT' && task.status === 'completed'
+          ? `${COMPLETED_EVENT_PREFIX}${task.title}`
+          : task.title
+      )
+    ),
+  ]
+
+  if (options.kind === 'VEVENT') {
+    // An all-day event on the due day, or the scheduled day when there is no due date
+    const day = (due ?? scheduled)!
+    properties.push(
+      dateProperty('DTSTART', day),
+      dateProperty('DTEND', addDays(day, 1)),
+      property('TRANSP', 'TRANSPARENT'),
+      property('STATUS', eventStatuses[task.status])
+    )
+  } else {
+    // DUE has to come after DTSTART, so a start on or after the due day is left out
+    if (scheduled && (!due || isBefore(scheduled, due))) {
+      properties.push(dateProperty('DTSTART', scheduled))
+    }
+    if (due) {
+      properties.push(dateProperty('DUE', due))
+    }
+    properties.push(property('STATUS', todoStatuses[task.status]))
+    if (task.status === 'completed' && task.completed_at) {
+      properties.push(property('COMPLETED', formatIcsDateTime(parseISO(task.completed_at))))
+    }
+  }
+  properties.push(property(ICAL_TASK_STATUS_PROPERTY, task.status.toUpperCase()))
+
+  const description = [task.description, task.notes].filter(Boolean).join('\n\n')
+  if (description) {
+    properties.push(property('DESCRIPTION', escapeText(description)))
+  }
+
+  const quadrant = getTaskPriorityQuadrant(task)
+  const priority = quadrant ? quadrantPriorities[quadrant] : null
+  if (priority) {
+    properties.push(property('PRIORITY', String(priority)))
+  }
+
+  const categories = task.tags.flatMap(tagId => tagPaths.get(tagId) ?? [])
+  if (categories.length > 0) {
+    properties.push(property('CATEGORIES', categories.map(escapeText).join(',')))
+  }
+
+  if (task.parent_id) {
+    properties.push(property('RELATED-TO', toTaskUid(task.parent_id), { RELTYPE: 'PARENT' }))
+  }
+
+  if (recurrence) {
+    properties.push(property('RRULE', frequencyToRrule(recurrence.frequency)))
+    if (recurrence.type === 'after_completion') {
+      properties.push(property(ICAL_RECURRENCE_TYPE_PROPERTY, 'AFTER-COMPLETION'))
+    }
+  }
+
+  return { name: options.kind, properties, components: [] }
+}
+
+// Tasks without a due or scheduled date have nothing to put on a calendar and are left out
+export function createCalendar(tasks: TaskWithTags[], options: CalendarOptions): string {
+  const withNow = { ...options, now: options.now ?? new Date() }
+  const tagPaths = getTagPaths(options.tags)
+  const recurrencesByTask = new Map(options.recurrences.map(rec => [rec.task_id, rec]))
+
+  const calendar: IcsComponent = {
+    name: 'VCALENDAR',
+    properties: [
+      property('VERSION', '2.0'),
+      property('PRODID', ICAL_PRODUCT_ID),
+      property('CALSCALE', 'GREGORIAN'),
+      property('METHOD', 'PUBLISH'),
+      property('X-WR-CALNAME', escapeText(options.name)),
+    ],
+    components: tasks.flatMap(
+      task => createEntry(task, withNow, tagPaths, recurrencesByTask.get(task.id)) ?? []
+    ),
+  }
+
+  return `${serializeComponent(calendar)}\r\n`
+}
+
+export function countCalendarTasks(tasks: TaskWithTags[]): number {
+  return tasks.filter(task => task.due_date || task.scheduled_date).length
+}
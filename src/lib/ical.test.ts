@@ -0,0 +1,175 @@
+import { describe, expect, it } from 'vitest'
+import {
+  escapeText,
+  frequencyToRrule,
+  parseIcs,
+  parseIcsDate,
+  property,
+  rruleToFrequency,
+  serializeComponent,
+  splitTextList,
+  unescapeText,
+} from '@/lib/ical'
+import { RecurrenceFrequency } from '@/types/recurrence'
+
+const octets = (line: string) => new TextEncoder().encode(line).length
+
+function serializeOne(name: string, value: string): string {
+  return serializeComponent({ name: 'VTODO', properties: [property(name, value)], components: [] })
+}
+
+describe('TEXT escaping', () => {
+  it('escapes backslashes, semicolons, commas and line breaks', () => {
+    expect(escapeText('a\\b;c,d\ne\r\nf')).toBe('a\\\\b\\;c\\,d\\ne\\nf')
+  })
+
+  it('reads back what it wrote, including an uppercase \\N', () => {
+    const text = 'Path C:\\tmp; milk, eggs\nand "bread"'
+
+    expect(unescapeText(escapeText(text))).toBe(text)
+    expect(unescapeText('one\\Ntwo')).toBe('one\ntwo')
+  })
+
+  it('splits lists only on commas that are not escaped', () => {
+    const value = ['Work/Clients', 'Eggs, milk', 'a\\b'].map(escapeText).join(',')
+
+    expect(splitTextList(value)).toEqual(['Work/Clients', 'Eggs, milk', 'a\\b'])
+  })
+})
+
+describe('line folding', () => {
+  it('leaves lines of up to 75 octets alone', () => {
+    const lines = serializeOne('SUMMARY', 'x'.repeat(75 - 'SUMMARY:'.length)).split('\r\n')
+
+    expect(lines).toHaveLength(3)
+    expect(octets(lines[1])).toBe(75)
+  })
+
+  it('folds longer lines onto continuation lines starting with a space', () => {
+    const value = 'x'.repeat(200)
+    const lines = serializeOne('DESCRIPTION', value).split('\r\n').slice(1, -1)
+
+    expect(lines.length).toBeGreaterThan(1)
+    lines.forEach(line => expect(octets(line)).toBeLessThanOrEqual(75))
+    lines.slice(1).forEach(line => expect(line.startsWith(' ')).toBe(true))
+  })
+
+  it('counts bytes and never splits a character', () => {
+    const value = 'Café crème brûlée 🍮 '.repeat(10)
+    const lines = serializeOne('SUMMARY', value).split('\r\n').slice(1, -1)
+
+    lines.forEach(line => {
+      expect(octets(line)).toBeLessThanOrEqual(75)
+      // A split surrogate pair would not survive encoding
+      expect(new TextDecoder().decode(new TextEncoder().encode(line))).toBe(line)
+    })
+  })
+
+  it('unfolds what it folded back into the same value', () => {
+    const value = escapeText('Café crème brûlée 🍮, twice; '.repeat(8))
+    const { data } = parseIcs(serializeOne('SUMMARY', value))
+
+    expect(data?.[0].properties).toEqual([property('SUMMARY', value)])
+  })
+
+  it('unfolds continuation lines that start with a tab or end in a bare LF', () => {
+    const { data, error } = parseIcs('BEGIN:VTODO\nSUMMARY:Call\n\tthe plumber\nEND:VTODO\n')
+
+    expect(error).toBeNull()
+    expect(data?.[0].properties[0].value).toBe('Callthe plumber')
+  })
+})
+
+describe('parseIcs', () => {
+  it('reads nested components, parameters and quoted values', () => {
+    const { data, error } = parseIcs(
+      [
+        '\uFEFFBEGIN:VCALENDAR',
+        'BEGIN:VTODO',
+        'DUE;VALUE=DATE:20240115',
+        'X-LINK;ALTREP="https://example.com/a;b":See link',
+        'END:VTODO',
+        'END:VCALENDAR',
+      ].join('\r\n')
+    )
+
+    expect(error).toBeNull()
+    expect(data?.[0].components[0].properties).toEqual([
+      property('DUE', '20240115', { VALUE: 'DATE' }),
+      property('X-LINK', 'See link', { ALTREP: 'https://example.com/a;b' }),
+    ])
+  })
+
+  it('rejects components that are not closed properly', () => {
+    expect(parseIcs('BEGIN:VCALENDAR\r\nBEGIN:VTODO\r\nEND:VCALENDAR').error?.message).toBe(
+      'END:VCALENDAR does not close a component'
+    )
+    expect(parseIcs('BEGIN:VCALENDAR').error?.message).toBe('VCALENDAR is never closed')
+  })
+})
+
+describe('parseIcsDate', () => {
+  it('reads dates and floating times locally, and UTC times as UTC', () => {
+    expect(parseIcsDate('20240115')).toEqual(new Date(2024, 0, 15))
+    expect(parseIcsDate('20240115T093000')).toEqual(new Date(2024, 0, 15, 9, 30))
+    expect(parseIcsDate('20240115T093000Z')).toEqual(new Date(Date.UTC(2024, 0, 15, 9, 30)))
+    expect(parseIcsDate('Jan 15')).toBeNull()
+  })
+})
+
+describe('frequencyToRrule and rruleToFrequency', () => {
+  const frequencies: [RecurrenceFrequency, string][] = [
+    [{ kind: 'daily' }, 'FREQ=DAILY'],
+    [{ kind: 'every_n_days', interval: 3 }, 'FREQ=DAILY;INTERVAL=3'],
+    [{ kind: 'weekdays', days: [1, 3, 5] }, 'FREQ=WEEKLY;BYDAY=MO,WE,FR'],
+    [{ kind: 'day_of_month', day: 15 }, 'FREQ=MONTHLY;BYMONTHDAY=15'],
+    [{ kind: 'day_of_month', day: 30 }, 'FREQ=MONTHLY;BYMONTHDAY=28,29,30;BYSETPOS=-1'],
+    [{ kind: 'day_of_month', day: -1 }, 'FREQ=MONTHLY;BYMONTHDAY=-1'],
+    [{ kind: 'nth_weekday', week: 2, weekday: 2 }, 'FREQ=MONTHLY;BYDAY=2TU'],
+    [{ kind: 'nth_weekday', week: -1, weekday: 5 }, 'FREQ=MONTHLY;BYDAY=-1FR'],
+  ]
+
+  it.each(frequencies)('round-trips %j', (frequency, rule) => {
+    expect(frequencyToRrule(frequency)).toBe(rule)
+    expect(rruleToFrequency(rule, null)).toEqual(frequency)
+  })
+
+  it('writes weekdays in order and every 1 day as daily', () => {
+    expect(frequencyToRrule({ kind: 'weekdays', days: [5, 0, 3] })).toBe(
+      'FREQ=WEEKLY;BYDAY=SU,WE,FR'
+    )
+    expect(frequencyToRrule({ kind: 'every_n_days', interval: 1 })).toBe('FREQ=DAILY')
+  })
+
+  it('writes the 31st as the last day of the month, which is the same schedule', () => {
+    const rule = frequencyToRrule({ kind: 'day_of_month', day: 31 })
+
+    expect(rule).toBe('FREQ=MONTHLY;BYMONTHDAY=-1')
+    expect(rruleToFrequency(rule, null)).toEqual({ kind: 'day_of_month', day: -1 })
+  })
+
+  it('fills in a missing day from the start date', () => {
+    // A Wednesday
+    const start = new Date(2024, 0, 17)
+
+    expect(rruleToFrequency('FREQ=WEEKLY', start)).toEqual({ kind: 'weekdays', days: [3] })
+    expect(rruleToFrequency('FREQ=MONTHLY', start)).toEqual({ kind: 'day_of_month', day: 17 })
+    expect(rruleToFrequency('FREQ=WEEKLY', null)).toBeNull()
+  })
+
+  it("reads other apps' spellings of the same patterns", () => {
+    expect(rruleToFrequency('freq=monthly;byday=TU;bysetpos=2', null)).toEqual({
+      kind: 'nth_weekday',
+      week: 2,
+      weekday: 2,
+    })
+    expect(rruleToFrequency('FREQ=DAILY;COUNT=5', null)).toEqual({ kind: 'daily' })
+  })
+
+  it('returns null for patterns the app cannot repeat by', () => {
+    expect(rruleToFrequency('FREQ=YEARLY', null)).toBeNull()
+    expect(rruleToFrequency('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO', null)).toBeNull()
+    expect(rruleToFrequency('FREQ=MONTHLY;BYMONTHDAY=1,15', null)).toBeNull()
+    expect(rruleToFrequency('FREQ=DAILY;BYHOUR=9', null)).toBeNull()
+  })
+})
@@ -0,0 +1,293 @@
+import { format, getDate, getDay } from 'date-fns'
+import { DayOfWeek, RecurrenceFrequency } from '@/types/recurrence'
+
+// Reading and writing iCalendar (RFC 5545) text. Knows the format, not tasks: see
+// ical-export and import-ical for how tasks map onto it.
+
+export interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+export interface IcsComponent {
+  name: string
+  properties: IcsProperty[]
+  components: IcsComponent[]
+}
+
+// Lines longer than this many bytes are folded onto continuation lines
+const MAX_LINE_OCTETS = 75
+
+const weekdayCodes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+export function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  )
+}
+
+// Splits a CATEGORIES-style list on the commas that aren't escaped
+export function splitTextList(value: string): string[] {
+  return (value.match(/(?:\\.|[^,])+/g) ?? []).map(unescapeText)
+}
+
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0
+  if (code < 0x80) return 1
+  if (code < 0x800) return 2
+  if (code < 0x10000) return 3
+  return 4
+}
+
+// Folds by bytes without splitting a character; continuation lines start with a space
+function foldLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+
+  for (const char of line) {
+    const length = utf8Length(char)
+    if (octets + length > MAX_LINE_OCTETS) {
+      lines.push(current)
+      current = ' '
+      octets = 1
+    }
+    current += char
+    octets += length
+  }
+  lines.push(current)
+
+  return lines.join('\r\n')
+}
+
+function serializeProperty({ name, params, value }: IcsProperty): string {
+  const paramText = Object.entries(params)
+    .map(([key, param]) => `;${key}=${/[;:,]/.test(param) ? `"${param}"` : param}`)
+    .join('')
+  return foldLine(`${name}${paramText}:${value}`)
+}
+
+export function property(
+  name: string,
+  value: string,
+  params: Record<string, string> = {}
+): IcsProperty {
+  return { name, params, value }
+}
+
+export function serializeComponent(component: IcsComponent): string {
+  return [
+    `BEGIN:${component.name}`,
+    ...component.properties.map(serializeProperty),
+    ...component.components.map(serializeComponent),
+    `END:${component.name}`,
+  ].join('\r\n')
+}
+
+// NAME;PARAM=value;PARAM="quoted:value":value
+function parseContentLine(line: string): IcsProperty | null {
+  let quoted = false
+  let colon = -1
+  for (let i = 0; i < line.length && colon === -1; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) colon = i
+  }
+  if (colon === -1) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).match(/(?:"[^"]*"|[^;])+/g) ?? []
+  if (!name || !/^[A-Za-z0-9-]+$/.test(name)) return null
+
+  const params: Record<string, string> = {}
+  rawParams.forEach(param => {
+    const equals = param.indexOf('=')
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/"/g, '')
+    }
+  })
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+// The top-level components of a file, normally a single VCALENDAR
+export function parseIcs(text: string): { data: IcsComponent[] | null; error: Error | null } {
+  // A byte order mark would otherwise end up in the first line
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const lines = input
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+
+  const roots: IcsComponent[] = []
+  const open: IcsComponent[] = []
+
+  for (const [index, line] of lines.entries()) {
+    const parsed = parseContentLine(line)
+    if (!parsed) {
+      return { data: null, error: new Error(`Line ${index + 1} is not valid iCalendar`) }
+    }
+
+    if (parsed.name === 'BEGIN') {
+      open.push({ name: parsed.value.toUpperCase(), properties: [], components: [] })
+    } else if (parsed.name === 'END') {
+      const component = open.pop()
+      if (!component || component.name !== parsed.value.toUpperCase()) {
+        return { data: null, error: new Error(`END:${parsed.value} does not close a component`) }
+      }
+      const parent = open[open.length - 1]
+      if (parent) {
+        parent.components.push(component)
+      } else {
+        roots.push(component)
+      }
+    } else if (open.length > 0) {
+      open[open.length - 1].properties.push(parsed)
+    }
+  }
+
+  if (open.length > 0) {
+    return { data: null, error: new Error(`${open[open.length - 1].name} is never closed`) }
+  }
+  return { data: roots, error: null }
+}
+
+export function findProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find(prop => prop.name === name)
+}
+
+// A day in the user's time zone, as DATE values are
+export function formatIcsDate(date: Date): string {
+  return format(date, 'yyyyMMdd')
+}
+
+export function formatIcsDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '')
+}
+
+// DATE values and floating times are read in the user's time zone. Times with a TZID are too:
+// resolving arbitrary VTIMEZONE definitions isn't worth it for dates shown by the day.
+export function parseIcsDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/)
+  if (!match) return null
+
+  const [, year, month, day, hours = '0', minutes = '0', seconds = '0', utc] = match
+  const parts = [+year, +month - 1, +day, +hours, +minutes, +seconds] as const
+  const date = utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// Monthly days past the 28th fall on the month's last day when it's shorter, as the app's own
+// schedule does; BYSETPOS=-1 over 28..day says the same in RRULE terms
+export function frequencyToRrule(frequency: RecurrenceFrequency): string {
+  switch (frequency.kind) {
+    case 'daily':
+      return 'FREQ=DAILY'
+    case 'every_n_days':
+      return frequency.interval > 1 ? `FREQ=DAILY;INTERVAL=${frequency.interval}` : 'FREQ=DAILY'
+    case 'weekdays':
+      return `FREQ=WEEKLY;BYDAY=${[...frequency.days]
+        .sort((a, b) => a - b)
+        .map(day => weekdayCodes[day])
+        .join(',')}`
+    case 'day_of_month': {
+      if (frequency.day === -1 || frequency.day === 31) return 'FREQ=MONTHLY;BYMONTHDAY=-1'
+      if (frequency.day <= 28) return `FREQ=MONTHLY;BYMONTHDAY=${frequency.day}`
+      const days = Array.from({ length: frequency.day - 27 }, (_, index) => 28 + index)
+      return `FREQ=MONTHLY;BYMONTHDAY=${days.join(',')};BYSETPOS=-1`
+    }
+    case 'nth_weekday':
+      return `FREQ=MONTHLY;BYDAY=${frequency.week}${weekdayCodes[frequency.weekday]}`
+  }
+}
+
+function toWeekday(code: string): DayOfWeek | null {
+  const index = weekdayCodes.indexOf(code)
+  return index === -1 ? null : (index as DayOfWeek)
+}
+
+// The RRULE parts that decide which days match. COUNT, UNTIL and WKST don't change that, so
+// they're left to the caller.
+const patternParts = new Set(['FREQ', 'INTERVAL', 'BYDAY', 'BYMONTHDAY', 'BYSETPOS'])
+
+// The pattern an RRULE describes, or null when the app can't repeat that way (yearly, every
+// other week, several days a month...). `start` is the DTSTART, which fills in a missing BYDAY
+// or BYMONTHDAY.
+export function rruleToFrequency(rule: string, start: Date | null): RecurrenceFrequency | null {
+  const parts = new Map<string, string>()
+  rule.split(';').forEach(part => {
+    const [key, value = ''] = part.split('=')
+    parts.set(key.trim().toUpperCase(), value.trim().toUpperCase())
+  })
+  if ([...parts.keys()].some(key => key.startsWith('BY') && !patternParts.has(key))) return null
+
+  const interval = parseInt(parts.get('INTERVAL') ?? '1', 10)
+  const byDay = parts.get('BYDAY')?.split(',').filter(Boolean) ?? []
+  const byMonthDay = (parts.get('BYMONTHDAY')?.split(',') ?? []).map(day => parseInt(day, 10))
+  const bySetPos = parts.has('BYSETPOS') ? parseInt(parts.get('BYSETPOS')!, 10) : null
+
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      if (byDay.length || byMonthDay.length || bySetPos !== null || !(interval >= 1)) return null
+      return interval > 1 ? { kind: 'every_n_days', interval } : { kind: 'daily' }
+
+    case 'WEEKLY': {
+      if (interval !== 1 || byMonthDay.length || bySetPos !== null) return null
+      if (byDay.length === 0) {
+        return start ? { kind: 'weekdays', days: [getDay(start) as DayOfWeek] } : null
+      }
+      const days = byDay.map(toWeekday)
+      return days.every(day => day !== null)
+        ? { kind: 'weekdays', days: days as DayOfWeek[] }
+        : null
+    }
+
+    case 'MONTHLY': {
+      if (interval !== 1) return null
+
+      if (byMonthDay.length > 0) {
+        if (byDay.length) return null
+        const [first] = byMonthDay
+        if (byMonthDay.length === 1 && bySetPos === null) {
+          return first === -1 || (first >= 1 && first <= 31)
+            ? { kind: 'day_of_month', day: first }
+            : null
+        }
+        // 28,29,30 with BYSETPOS=-1: the 30th, or the last day of a shorter month
+        const last = byMonthDay[byMonthDay.length - 1]
+        const isRunToLast =
+          bySetPos === -1 &&
+          first === 28 &&
+          last <= 31 &&
+          byMonthDay.every((day, index) => day === first + index)
+        return isRunToLast ? { kind: 'day_of_month', day: last } : null
+      }
+
+      if (byDay.length === 1) {
+        const match = byDay[0].match(/^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/)
+        const week = match?.[1] ? parseInt(match[1], 10) : bySetPos
+        const weekday = match ? toWeekday(match[2]) : null
+        if (weekday === null || week === null || !(week === -1 || (week >= 1 && week <= 5))) {
+          return null
+        }
+        return { kind: 'nth_weekday', week, weekday }
+      }
+
+      if (byDay.length || bySetPos !== null) return null
+      return start ? { kind: 'day_of_month', day: getDate(start) } : null
+    }
+
+    default:
+      return null
+  }
+}
@@ -0,0 +1,164 @@
+import { createTagCollector, toImportResult } from '@/lib/import-utils'
+import { ICAL_RECURRENCE_TYPE_PROPERTY, ICAL_TASK_STATUS_PROPERTY } from '@/lib/ical-export'
+import {
+  IcsComponent,
+  findProperty,
+  parseIcs,
+  parseIcsDate,
+  rruleToFrequency,
+  splitTextList,
+  unescapeText,
+} from '@/lib/ical'
+import { getQuadrantFlags } from '@/lib/task-utils'
+import { Constants } from '@/types/database'
+import { ImportedTask, ImportParser } from '@/types/import'
+import { EisenhowerQuadrant, TaskStatus } from '@/types/task'
+
+// To-dos (VTODO) from any calendar or task app. Categories become tags, read as tag paths
+// (Work/Clients) the way the app's own feeds write them; RELATED-TO makes subtasks; RRULEs the
+// app can repeat by become recurring tasks. Events are not tasks and are left out.
+
+const statuses: Record<string, TaskStatus> = {
+  'NEEDS-ACTION': 'ready',
+  'IN-PROCESS': 'in_progress',
+  COMPLETED: 'completed',
+  CANCELLED: 'archived',
+}
+
+// PRIORITY 1-4 is high, 5 medium and 6-9 low, with 0 for none. The app writes 1, 3 and 5 for
+// the first three quadrants, so those come back as they went out.
+function priorityQuadrant(priority: number): EisenhowerQuadrant {
+  if (priority >= 1 && priority <= 2) return 1
+  if (priority >= 3 && priority <= 4) return 2
+  if (priority === 5) return 3
+  return 4
+}
+
+// The app's own status when the file came from it, else the one STATUS stands for
+function statusOf(todo: IcsComponent): TaskStatus {
+  const own = textOf(todo, ICAL_TASK_STATUS_PROPERTY).toLowerCase()
+  const taskStatuses: readonly string[] = Constants.public.Enums.task_status
+  if (taskStatuses.includes(own)) return own as TaskStatus
+
+  return statuses[textOf(todo, 'STATUS').toUpperCase()] ?? 'ready'
+}
+
+function textOf(component: IcsComponent, name: string): string {
+  const value = findProperty(component, name)?.value
+  return value ? unescapeText(value).trim() : ''
+}
+
+function dateOf(component: IcsComponent, name: string): Date | null {
+  const value = findProperty(component, name)?.value
+  return value ? parseIcsDate(value) : null
+}
+
+function collectTodos(components: IcsComponent[]): IcsComponent[] {
+  return components.flatMap(component =>
+    component.name === 'VTODO' ? [component] : collectTodos(component.components)
+  )
+}
+
+function countEvents(components: IcsComponent[]): number {
+  return components.reduce(
+    (count, component) =>
+      count + (component.name === 'VEVENT' ? 1 : countEvents(component.components)),
+    0
+  )
+}
+
+export const parseIcalTodos: ImportParser = content => {
+  const { data: components, error } = parseIcs(content)
+  if (error || !components) {
+    return { data: null, error: error ?? new Error('The file is not valid iCalendar') }
+  }
+  if (!components.some(component => component.name === 'VCALENDAR')) {
+    return { data: null, error: new Error('This is not an iCalendar (.ics) file') }
+  }
+
+  const todos = collectTodos(components)
+  if (todos.length === 0) {
+    const events = countEvents(components)
+    return {
+      data: null,
+      error: new Error(
+        events > 0
+          ? `The file has ${events} events but no to-dos; only to-dos (VTODO) are imported`
+          : 'No to-dos were found in the file'
+      ),
+    }
+  }
+
+  const tags = createTagCollector()
+  const warnings: string[] = []
+
+  const tasks = todos.map<ImportedTask>((todo, index) => {
+    const title = textOf(todo, 'SUMMARY') || 'Untitled to-do'
+    const uid = textOf(todo, 'UID')
+
+    const dueText = findProperty(todo, 'DUE')?.value
+    const due = dateOf(todo, 'DUE')
+    const start = dateOf(todo, 'DTSTART')
+    if (dueText && !due) {
+      warnings.push(`"${title}": the due date "${dueText}" was left out`)
+    }
+
+    const categories = todo.properties
+      .filter(prop => prop.name === 'CATEGORIES')
+      .flatMap(prop => splitTextList(prop.value))
+      .map(category =>
+        category
+          .split('/')
+          .map(segment => segment.trim())
+          .filter(Boolean)
+      )
+      .filter(segments => segments.length > 0)
+
+    // Only a parent link is a subtask; siblings and children are described from the other side
+    const related = todo.properties.find(
+      prop => prop.name === 'RELATED-TO' && (prop.params.RELTYPE ?? 'PARENT') === 'PARENT'
+    )
+
+    const status = statusOf(todo)
+    const data: ImportedTask['data'] = {
+      title,
+      description: textOf(todo, 'DESCRIPTION') || null,
+      status,
+      due_date: due?.toISOString() ?? null,
+      completed_at:
+        status === 'completed' ? (dateOf(todo, 'COMPLETED')?.toISOString() ?? null) : null,
+      scheduled_date: start?.toISOString() ?? null,
+      ...getQuadrantFlags(priorityQuadrant(parseInt(textOf(todo, 'PRIORITY'), 10) || 0)),
+    }
+
+    const rrule = findProperty(todo, 'RRULE')?.value
+    if (rrule) {
+      const anchor = due ?? start
+      const frequency = rruleToFrequency(rrule, anchor)
+      if (!frequency) {
+        warnings.push(`"${title}" repeats in a way this app can't; it was imported once`)
+      } else {
+        if (/(^|;)(COUNT|UNTIL)=/i.test(rrule)) {
+          warnings.push(`"${title}" stops repeating at some point; here it repeats without an end`)
+        }
+        const isAfterCompletion =
+          textOf(todo, ICAL_RECURRENCE_TYPE_PROPERTY).toUpperCase() === 'AFTER-COMPLETION'
+        data.type = 'recurring'
+        data.recurrence = {
+          type: isAfterCompletion ? 'after_completion' : 'fixed_schedule',
+          frequency,
+          anchor_date: anchor?.toISOString() ?? null,
+        }
+      }
+    }
+
+    return {
+      key: uid ? `task:${uid}` : `todo:${index}`,
+      parentKey: related ? `task:${unescapeText(related.value).trim()}` : null,
+      tagKeys: categories.map(segments => tags.addPath('category', segments)!),
+      data,
+    }
+  })
+
+  return { data: toImportResult(tasks, tags.list(), warnings), error: null }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { parseTaskwarriorJson } from '@/lib/import-taskwarrior'
+import exportJson from '@/lib/__fixtures__/taskwarrior-export.json?raw'
+
+describe('parseTaskwarriorJson', () => {
+  const { data, error } = parseTaskwarriorJson(exportJson, 'export.json')
+
+  it('skips deleted tasks and recurring templates', () => {
+    expect(error).toBeNull()
+    expect(data?.tasks.map(task => task.data.title)).toEqual([
+      'Fix the garden gate',
+      'File taxes',
+      'Water the plants',
+    ])
+    expect(data?.warnings).toEqual([
+      '"Water the plants" repeats in Taskwarrior; only its instances were kept',
+    ])
+  })
+
+  it('makes dotted projects a tag tree, and tags top-level tags', () => {
+    expect(data?.tags).toEqual([
+      { key: 'project:Home', name: 'Home', parentKey: null },
+      { key: 'project:Home/Garden', name: 'Garden', parentKey: 'project:Home' },
+      { key: 'tag:outdoor', name: 'outdoor', parentKey: null },
+      { key: 'project:Admin', name: 'Admin', parentKey: null },
+    ])
+
+    const [gate, taxes, plants] = data!.tasks
+    expect(gate.tagKeys).toEqual(['project:Home/Garden', 'tag:outdoor'])
+    expect(taxes.tagKeys).toEqual(['project:Admin'])
+    expect(plants.tagKeys).toEqual(['tag:outdoor'])
+  })
+
+  it('reads its compact dates, annotations and priorities', () => {
+    const [gate, taxes, plants] = data!.tasks
+
+    expect(gate.data).toMatchObject({
+      status: 'ready',
+      due_date: '2024-01-15T09:30:00.000Z',
+      scheduled_date: '2024-01-10T00:00:00.000Z',
+      notes: 'Hinges are in the shed\nNeeds two people',
+      is_urgent: true,
+      is_important: true,
+    })
+    expect(taxes.data).toMatchObject({
+      status: 'completed',
+      completed_at: '2024-04-10T16:00:00.000Z',
+      is_urgent: false,
+      is_important: true,
+    })
+    expect(plants.data).toMatchObject({ status: 'ready', is_urgent: false, is_important: false })
+  })
+
+  it('has no subtasks', () => {
+    expect(data?.tasks.every(task => task.parentKey === null)).toBe(true)
+  })
+
+  it('accepts one task per line, as older versions export', () => {
+    const lines = (JSON.parse(exportJson) as unknown[])
+      .map(task => `${JSON.stringify(task)},`)
+      .join('\n')
+
+    expect(parseTaskwarriorJson(lines, 'export.json').data).toEqual(data)
+  })
+
+  it('rejects files that are not Taskwarrior JSON', () => {
+    expect(parseTaskwarriorJson('not json', 'a.json').error?.message).toBe(
+      'The file is not valid Taskwarrior JSON'
+    )
+    expect(parseTaskwarriorJson('[{"name": "x"}]', 'a.json').error?.message).toBe(
+      'No Taskwarrior tasks were found in the file'
+    )
+  })
+})
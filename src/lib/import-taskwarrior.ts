@@ -0,0 +1,120 @@
+import { createTagCollector, readDate, toImportResult } from '@/lib/import-utils'
+import { getQuadrantFlags } from '@/lib/task-utils'
+import { ImportedTask, ImportParser } from '@/types/import'
+import { TaskStatus } from '@/types/task'
+
+// `task export` output: a JSON array, or one object per line from older versions. Dotted
+// projects (Home.Garden) become a tag tree and tags top-level tags; priority H is urgent and
+// important, M important, and L or none neither. Taskwarrior has no subtasks (depends is an
+// ordering, not nesting), so every task is top-level.
+
+interface TaskwarriorTask {
+  uuid: string
+  description: string
+  status: string
+  project?: string
+  tags?: string[]
+  priority?: 'H' | 'M' | 'L'
+  due?: string
+  scheduled?: string
+  end?: string // When it was completed or deleted
+  annotations?: { entry?: string; description: string }[]
+}
+
+const statuses: Record<string, TaskStatus> = {
+  pending: 'ready',
+  waiting: 'ready',
+  completed: 'completed',
+}
+
+function priorityQuadrant(priority: string | undefined) {
+  if (priority === 'H') return 1
+  if (priority === 'M') return 2
+  return 4
+}
+
+// Taskwarrior writes dates as 20240115T093000Z
+function toDate(value: string | undefined, warnings: string[], description: string) {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/)
+  const iso = match
+    ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}Z`
+    : value
+  return readDate(iso, warnings, description)
+}
+
+function parseJson(content: string): unknown[] | null {
+  try {
+    const text = content.trim()
+    if (text.startsWith('[')) {
+      const parsed: unknown = JSON.parse(text)
+      return Array.isArray(parsed) ? parsed : null
+    }
+    return text
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line.replace(/,\s*$/, '')) as unknown)
+  } catch {
+    return null
+  }
+}
+
+function isTask(value: unknown): value is TaskwarriorTask {
+  if (typeof value !== 'object' || value === null) return false
+  const task = value as Partial<TaskwarriorTask>
+  return typeof task.uuid === 'string' && typeof task.description === 'string'
+}
+
+export const parseTaskwarriorJson: ImportParser = content => {
+  const parsed = parseJson(content)
+  if (!parsed) {
+    return { data: null, error: new Error('The file is not valid Taskwarrior JSON') }
+  }
+
+  const exported = parsed.filter(isTask)
+  if (exported.length === 0) {
+    return { data: null, error: new Error('No Taskwarrior tasks were found in the file') }
+  }
+
+  const tags = createTagCollector()
+  const warnings: string[] = []
+  const tasks: ImportedTask[] = []
+
+  exported.forEach(task => {
+    const status = statuses[task.status]
+    // Deleted tasks are in the trash; a recurring one is the template its instances came from
+    if (!status) {
+      if (task.status === 'recurring') {
+        warnings.push(`"${task.description}" repeats in Taskwarrior; only its instances were kept`)
+      }
+      return
+    }
+
+    const title = task.description.trim()
+    const projectKey = task.project ? tags.addPath('project', task.project.split('.')) : null
+    const labels = Array.isArray(task.tags) ? task.tags.filter(tag => typeof tag === 'string') : []
+    const notes = (task.annotations ?? []).map(annotation => annotation.description).join('\n')
+
+    tasks.push({
+      key: `task:${task.uuid}`,
+      parentKey: null,
+      tagKeys: [
+        ...(projectKey ? [projectKey] : []),
+        ...labels.map(label => tags.add(`tag:${label.toLowerCase()}`, label)),
+      ],
+      data: {
+        title,
+        status,
+        due_date: toDate(task.due, warnings, `"${title}": the due date`),
+        scheduled_date: toDate(task.scheduled, warnings, `"${title}": the scheduled date`),
+        completed_at:
+          status === 'completed'
+            ? toDate(task.end, warnings, `"${title}": the completion date`)
+            : null,
+        notes: notes || null,
+        ...getQuadrantFlags(priorityQuadrant(task.priority)),
+      },
+    })
+  })
+
+  return { data: toImportResult(tasks, tags.list(), warnings), error: null }
+}
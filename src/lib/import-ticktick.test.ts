@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { parseTickTickCsv } from '@/lib/import-ticktick'
+import backupCsv from '@/lib/__fixtures__/ticktick-backup.csv?raw'
+
+describe('parseTickTickCsv', () => {
+  const { data, error } = parseTickTickCsv(backupCsv, 'TickTick-backup.csv')
+
+  it('finds the header below the lines describing the export', () => {
+    expect(error).toBeNull()
+    expect(data?.tasks.map(task => task.data.title)).toEqual([
+      'Vacuum the stairs',
+      'Empty the bag',
+      'Return the library books',
+      'Old idea',
+    ])
+  })
+
+  it('makes folders and their lists a tag tree, and tags top-level tags', () => {
+    expect(data?.tags).toEqual([
+      { key: 'folder:Life', name: 'Life', parentKey: null },
+      { key: 'list:Life/Chores', name: 'Chores', parentKey: 'folder:Life' },
+      { key: 'tag:home', name: 'home', parentKey: null },
+      { key: 'tag:weekly', name: 'weekly', parentKey: null },
+      { key: 'tag:errands', name: 'errands', parentKey: null },
+    ])
+
+    const [vacuum, bag, books] = data!.tasks
+    expect(vacuum.tagKeys).toEqual(['list:Life/Chores', 'tag:home', 'tag:weekly'])
+    expect(bag.tagKeys).toEqual(['list:Life/Chores'])
+    // The inbox is not a list anyone made, so it gets no tag
+    expect(books.tagKeys).toEqual(['tag:errands'])
+  })
+
+  it('links subtasks by parentId', () => {
+    const [vacuum, bag] = data!.tasks
+
+    expect(bag.parentKey).toBe(vacuum.key)
+  })
+
+  it('maps status, priority and dates', () => {
+    const [vacuum, bag, books, idea] = data!.tasks
+
+    expect(vacuum.data).toMatchObject({
+      status: 'ready',
+      description: 'Use the small brush',
+      due_date: '2024-05-04T00:00:00.000Z',
+      is_urgent: true,
+      is_important: true,
+    })
+    expect(bag.data).toMatchObject({
+      status: 'completed',
+      completed_at: '2024-04-20T18:30:00.000Z',
+      is_urgent: false,
+      is_important: false,
+    })
+    expect(books.data).toMatchObject({
+      scheduled_date: '2024-05-01T00:00:00.000Z',
+      due_date: '2024-05-06T00:00:00.000Z',
+      is_urgent: false,
+      is_important: true,
+    })
+    expect(idea.data.status).toBe('archived')
+  })
+
+  it('warns that repeats are not carried over', () => {
+    expect(data?.warnings).toEqual([
+      '"Vacuum the stairs" repeats in TickTick; only its next due date was kept',
+    ])
+  })
+
+  it('rejects other CSV files', () => {
+    const { data: other, error: otherError } = parseTickTickCsv('Title,Due\nA,B\n', 'a.csv')
+
+    expect(other).toBeNull()
+    expect(otherError?.message).toBe('This is not a TickTick CSV backup')
+  })
+})
@@ -0,0 +1,71 @@
+import { parseCsv, toRecords } from '@/lib/csv'
+import { createTagCollector, readDate, toImportResult } from '@/lib/import-utils'
+import { getQuadrantFlags } from '@/lib/task-utils'
+import { ImportedTask, ImportParser } from '@/types/import'
+import { TaskStatus } from '@/types/task'
+
+// TickTick's backup CSV. A few lines describing the export come before the header. Folders and
+// their lists become a tag tree and TickTick's tags top-level tags; high priority is urgent and
+// important, medium important, and low or none neither.
+
+const statuses: Record<string, TaskStatus> = { '0': 'ready', '1': 'completed', '2': 'archived' }
+
+function priorityQuadrant(priority: string) {
+  if (priority === '5') return 1
+  if (priority === '3') return 2
+  return 4
+}
+
+export const parseTickTickCsv: ImportParser = content => {
+  const rows = parseCsv(content)
+  const headerIndex = rows.findIndex(row => row.includes('Title') && row.includes('List Name'))
+  if (headerIndex === -1) {
+    return { data: null, error: new Error('This is not a TickTick CSV backup') }
+  }
+
+  const tags = createTagCollector()
+  const warnings: string[] = []
+
+  const records = toRecords(rows[headerIndex], rows.slice(headerIndex + 1))
+  const tasks = records.map<ImportedTask>((record, index) => {
+    const folder = record['Folder Name']?.trim()
+    const list = record['List Name']?.trim()
+    const folderKey = folder ? tags.add(`folder:${folder}`, folder) : null
+    const listKey =
+      list && list !== 'Inbox' ? tags.add(`list:${folder}/${list}`, list, folderKey) : folderKey
+
+    const labels = (record.Tags ?? '')
+      .split(',')
+      .map(tag => tag.trim().replace(/^#/, ''))
+      .filter(Boolean)
+
+    const title = record.Title.trim()
+    if (record.Repeat?.trim()) {
+      warnings.push(`"${title}" repeats in TickTick; only its next due date was kept`)
+    }
+
+    return {
+      key: record.taskId ? `task:${record.taskId}` : `row:${index}`,
+      parentKey: record.parentId ? `task:${record.parentId}` : null,
+      tagKeys: [
+        ...(listKey ? [listKey] : []),
+        ...labels.map(label => tags.add(`tag:${label.toLowerCase()}`, label)),
+      ],
+      data: {
+        title,
+        description: record.Content?.trim() || null,
+        status: statuses[record.Status?.trim()] ?? 'ready',
+        due_date: readDate(record['Due Date'], warnings, `"${title}": the due date`),
+        scheduled_date: readDate(record['Start Date'], warnings, `"${title}": the start date`),
+        completed_at: readDate(
+          record['Completed Time'],
+          warnings,
+          `"${title}": the completion date`
+        ),
+        ...getQuadrantFlags(priorityQuadrant(record.Priority?.trim())),
+      },
+    }
+  })
+
+  return { data: toImportResult(tasks, tags.list(), warnings), error: null }
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import { parseTodoistCsv, parseTodoistJson } from '@/lib/import-todoist'
+import projectCsv from '@/lib/__fixtures__/todoist-home.csv?raw'
+import syncJson from '@/lib/__fixtures__/todoist-sync.json?raw'
+
+const localDay = (month: number, day: number, hour = 0) =>
+  new Date(2024, month - 1, day, hour).toISOString()
+
+describe('parseTodoistCsv', () => {
+  const { data, error } = parseTodoistCsv(projectCsv, 'Home.csv')
+
+  it('reads the project export', () => {
+    expect(error).toBeNull()
+    expect(data?.tasks.map(task => task.data.title)).toEqual([
+      'Call the plumber',
+      'Mow the lawn',
+      'Buy petrol, for the mower',
+      'Sharpen the blades',
+      'Plant bulbs',
+    ])
+  })
+
+  it('makes the project a tag, with its sections under it, and labels top-level tags', () => {
+    expect(data?.tags).toEqual([
+      { key: 'project', name: 'Home', parentKey: null },
+      { key: 'label:phone', name: 'phone', parentKey: null },
+      { key: 'section:2', name: 'Garden', parentKey: 'project' },
+      { key: 'label:errands', name: 'errands', parentKey: null },
+      { key: 'label:shop', name: 'shop', parentKey: null },
+    ])
+
+    const [plumber, lawn, petrol] = data!.tasks
+    expect(plumber.tagKeys).toEqual(['project', 'label:phone'])
+    expect(lawn.tagKeys).toEqual(['section:2'])
+    expect(petrol.tagKeys).toEqual(['section:2', 'label:errands', 'label:shop'])
+  })
+
+  it('nests tasks by INDENT', () => {
+    const [plumber, lawn, petrol, blades, bulbs] = data!.tasks
+
+    expect(plumber.parentKey).toBeNull()
+    expect(petrol.parentKey).toBe(lawn.key)
+    expect(blades.parentKey).toBe(petrol.key)
+    expect(bulbs.parentKey).toBeNull()
+  })
+
+  it('maps PRIORITY 1 to 4 onto the four quadrants in order', () => {
+    const flags = data!.tasks.map(({ data: task }) => [task.is_urgent, task.is_important])
+
+    expect(flags).toEqual([
+      [true, true],
+      [false, true],
+      [false, false],
+      [true, false],
+      [false, false],
+    ])
+  })
+
+  it('keeps descriptions, comments and ISO due dates', () => {
+    const [plumber, , , , bulbs] = data!.tasks
+
+    expect(plumber.data).toMatchObject({
+      description: 'About the kitchen sink',
+      notes: 'Ask about weekends, too',
+      due_date: localDay(3, 4),
+    })
+    expect(bulbs.data.due_date).toBe(localDay(10, 1, 9))
+  })
+
+  it('leaves out free-text dates with a warning instead of guessing', () => {
+    const [, lawn, , blades] = data!.tasks
+
+    expect(lawn.data.due_date).toBeNull()
+    expect(blades.data.due_date).toBeNull()
+    expect(data?.warnings).toEqual([
+      '"Mow the lawn": the due date "every saturday" was left out',
+      '"Sharpen the blades": the due date "Jan 15" was left out',
+    ])
+  })
+
+  it('gives the inbox no tag', () => {
+    const { data: inbox } = parseTodoistCsv(projectCsv, 'Inbox.csv')
+
+    expect(inbox?.tags.map(tag => tag.name)).not.toContain('Inbox')
+    expect(inbox?.tasks[0].tagKeys).toEqual(['label:phone'])
+  })
+
+  it('rejects other CSV files', () => {
+    const { data: other, error: otherError } = parseTodoistCsv('Title,Due\nA,B\n', 'a.csv')
+
+    expect(other).toBeNull()
+    expect(otherError?.message).toBe('This is not a Todoist CSV export')
+  })
+})
+
+describe('parseTodoistJson', () => {
+  const { data, error } = parseTodoistJson(syncJson, 'todoist.json')
+
+  it('reads the sync response, skipping tasks without a title', () => {
+    expect(error).toBeNull()
+    expect(data?.tasks.map(task => task.data.title)).toEqual([
+      'Send the Acme proposal',
+      'Proofread it',
+      'Timesheet',
+      'Buy milk',
+    ])
+    expect(data?.warnings).toContain('1 task has no title and will be skipped')
+  })
+
+  it('builds the tag tree from projects, sub-projects and sections', () => {
+    expect(data?.tags).toEqual([
+      { key: 'project:200', name: 'Work', parentKey: null },
+      { key: 'project:201', name: 'Clients', parentKey: 'project:200' },
+      { key: 'section:300', name: 'Acme', parentKey: 'project:201' },
+      { key: 'label:writing', name: 'writing', parentKey: null },
+    ])
+
+    const [proposal, proofread, timesheet, milk] = data!.tasks
+    expect(proposal.tagKeys).toEqual(['section:300', 'label:writing'])
+    // Labels differing only in case are the same tag
+    expect(proofread.tagKeys).toEqual(['section:300', 'label:writing'])
+    expect(timesheet.tagKeys).toEqual(['project:200'])
+    expect(milk.tagKeys).toEqual([])
+  })
+
+  it('links subtasks by parent_id', () => {
+    const [proposal, proofread] = data!.tasks
+
+    expect(proofread.parentKey).toBe(proposal.key)
+  })
+
+  it('reads priority 4 as p1', () => {
+    const flags = data!.tasks.map(({ data: task }) => [task.is_urgent, task.is_important])
+
+    expect(flags).toEqual([
+      [true, true],
+      [false, true],
+      [true, false],
+      [false, false],
+    ])
+  })
+
+  it('keeps due dates, completion and a warning for recurring tasks', () => {
+    const [proposal, , timesheet, milk] = data!.tasks
+
+    expect(proposal.data.due_date).toBe(localDay(5, 2))
+    expect(timesheet.data.due_date).toBe(localDay(5, 3, 17))
+    expect(milk.data).toMatchObject({
+      status: 'completed',
+      completed_at: '2024-04-30T08:15:00.000Z',
+    })
+    expect(data?.warnings).toContain(
+      '"Timesheet" repeats in Todoist; only its next due date was kept'
+    )
+  })
+
+  it('accepts a plain list of tasks', () => {
+    const { data: list } = parseTodoistJson(
+      JSON.stringify([{ id: 9, content: 'Alone', priority: 1 }]),
+      'tasks.json'
+    )
+
+    expect(list?.tasks).toHaveLength(1)
+    expect(list?.tags).toEqual([])
+  })
+
+  it('rejects files that are not Todoist JSON', () => {
+    expect(parseTodoistJson('{', 'a.json').error?.message).toBe('The file is not valid JSON')
+    expect(parseTodoistJson('{"items": []}', 'a.json').error?.message).toBe(
+      'No Todoist tasks were found in the file'
+    )
+  })
+})
@@ -0,0 +1,202 @@
+import { parseCsv, toRecords } from '@/lib/csv'
+import { createTagCollector, readDate, toImportResult } from '@/lib/import-utils'
+import { getQuadrantFlags } from '@/lib/task-utils'
+import { ImportedTask, ImportParser } from '@/types/import'
+import { EisenhowerQuadrant } from '@/types/task'
+
+// Todoist exports. Projects (and their sub-projects and sections) become a tag tree, labels
+// become top-level tags, and Todoist's four priorities map onto the four matrix quadrants in
+// order. The inbox is not a project anyone chose, so it gets no tag.
+
+const LABEL_PATTERN = /(^|\s)@([^\s@]+)/g
+
+function labelKey(name: string) {
+  return `label:${name.toLowerCase()}`
+}
+
+// Todoist CSV keeps labels in the task text, as @label
+function splitLabels(content: string): { title: string; labels: string[] } {
+  const labels = [...content.matchAll(LABEL_PATTERN)].map(match => match[2])
+  const title = content.replace(LABEL_PATTERN, '$1').replace(/\s+/g, ' ').trim()
+  return { title: title || content.trim(), labels }
+}
+
+function clampPriority(priority: number): EisenhowerQuadrant {
+  return Math.min(4, Math.max(1, Math.round(priority) || 4)) as EisenhowerQuadrant
+}
+
+// A project's CSV export: one file per project (named after it), with sections, tasks and
+// comments as rows. INDENT nests a task under the last task one level up; PRIORITY 1 is p1.
+export const parseTodoistCsv: ImportParser = (content, fileName) => {
+  const [header, ...rows] = parseCsv(content)
+  if (!header?.includes('TYPE') || !header.includes('CONTENT')) {
+    return { data: null, error: new Error('This is not a Todoist CSV export') }
+  }
+
+  const tags = createTagCollector()
+  const tasks: ImportedTask[] = []
+  const warnings: string[] = []
+
+  const projectName = fileName.replace(/\.csv$/i, '').trim()
+  const projectKey =
+    projectName && projectName !== 'Inbox' ? tags.add('project', projectName) : null
+  let sectionKey: string | null = null
+  const lastTaskAtIndent: string[] = []
+
+  toRecords(header, rows).forEach((record, index) => {
+    const type = record.TYPE.trim().toLowerCase()
+
+    if (type === 'section') {
+      sectionKey = tags.add(`section:${index}`, record.CONTENT, projectKey)
+      return
+    }
+
+    // Comments follow the task they belong to
+    if (type === 'note') {
+      const task = tasks[tasks.length - 1]
+      if (task && record.CONTENT.trim()) {
+        task.data.notes = [task.data.notes, record.CONTENT.trim()].filter(Boolean).join('\n\n')
+      }
+      return
+    }
+
+    if (type !== 'task') return
+
+    const { title, labels } = splitLabels(record.CONTENT)
+    const indent = Math.max(1, parseInt(record.INDENT, 10) || 1)
+    const key = `task:${index}`
+    const parentKey = indent > 1 ? (lastTaskAtIndent[indent - 2] ?? null) : null
+    lastTaskAtIndent.length = indent - 1
+    lastTaskAtIndent.push(key)
+
+    // Recurring tasks keep their schedule ("every monday") here, which is left out too
+    const dueDate = readDate(record.DATE, warnings, `"${title}": the due date`)
+
+    const listKey = sectionKey ?? projectKey
+    tasks.push({
+      key,
+      parentKey,
+      tagKeys: [
+        ...(listKey ? [listKey] : []),
+        ...labels.map(label => tags.add(labelKey(label), label)),
+      ],
+      data: {
+        title,
+        description: record.DESCRIPTION?.trim() || null,
+        due_date: dueDate,
+        ...getQuadrantFlags(clampPriority(parseInt(record.PRIORITY, 10))),
+      },
+    })
+  })
+
+  return { data: toImportResult(tasks, tags.list(), warnings), error: null }
+}
+
+interface TodoistProject {
+  id: string | number
+  name: string
+  parent_id?: string | number | null
+  inbox_project?: boolean
+  is_inbox_project?: boolean
+}
+
+interface TodoistSection {
+  id: string | number
+  name: string
+  project_id: string | number
+}
+
+interface TodoistItem {
+  id: string | number
+  content: string
+  description?: string
+  project_id?: string | number
+  section_id?: string | number | null
+  parent_id?: string | number | null
+  priority?: number // 4 is p1 here, unlike in the CSV
+  labels?: string[]
+  due?: { date: string; is_recurring?: boolean } | null
+  checked?: boolean | number
+  is_completed?: boolean
+  completed_at?: string | null
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function listOf<T>(value: unknown, isItem: (item: Record<string, unknown>) => boolean): T[] {
+  return Array.isArray(value) ? (value.filter(item => isRecord(item) && isItem(item)) as T[]) : []
+}
+
+// The JSON the Todoist API returns: a sync response ({ items, projects, sections }), the same
+// with tasks in place of items, or just a list of tasks
+export const parseTodoistJson: ImportParser = content => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    return { data: null, error: new Error('The file is not valid JSON') }
+  }
+
+  const root = isRecord(parsed) ? parsed : { items: parsed }
+  const hasName = (item: Record<string, unknown>) => typeof item.name === 'string'
+  const items = listOf<TodoistItem>(
+    root.items ?? root.tasks,
+    item => typeof item.content === 'string'
+  )
+  const projects = listOf<TodoistProject>(root.projects, hasName)
+  const sections = listOf<TodoistSection>(root.sections, hasName)
+  if (items.length === 0) {
+    return { data: null, error: new Error('No Todoist tasks were found in the file') }
+  }
+
+  const tags = createTagCollector()
+  const warnings: string[] = []
+
+  const projectKeys = new Map<string, string>()
+  projects.forEach(project => {
+    if (project.inbox_project || project.is_inbox_project) return
+    const parentKey = project.parent_id ? `project:${project.parent_id}` : null
+    projectKeys.set(String(project.id), tags.add(`project:${project.id}`, project.name, parentKey))
+  })
+  const sectionKeys = new Map<string, string>()
+  sections.forEach(section => {
+    const parentKey = projectKeys.get(String(section.project_id)) ?? null
+    sectionKeys.set(String(section.id), tags.add(`section:${section.id}`, section.name, parentKey))
+  })
+
+  const tasks = items.map<ImportedTask>(item => {
+    const listKey =
+      (item.section_id && sectionKeys.get(String(item.section_id))) ||
+      projectKeys.get(String(item.project_id))
+    const labels = Array.isArray(item.labels)
+      ? item.labels.filter(label => typeof label === 'string')
+      : []
+
+    const title = item.content.trim()
+    const dueDate = readDate(item.due?.date, warnings, `"${title}": the due date`)
+    if (item.due?.is_recurring) {
+      warnings.push(`"${item.content}" repeats in Todoist; only its next due date was kept`)
+    }
+
+    return {
+      key: `task:${item.id}`,
+      parentKey: item.parent_id ? `task:${item.parent_id}` : null,
+      tagKeys: [
+        ...(listKey ? [listKey] : []),
+        ...labels.map(label => tags.add(labelKey(label), label)),
+      ],
+      data: {
+        title,
+        description: item.description?.trim() || null,
+        status: item.checked || item.is_completed ? 'completed' : 'ready',
+        due_date: dueDate,
+        completed_at: readDate(item.completed_at, warnings, `"${title}": the completion date`),
+        ...getQuadrantFlags(clampPriority(5 - (item.priority ?? 1))),
+      },
+    }
+  })
+
+  return { data: toImportResult(tasks, tags.list(), warnings), error: null }
+}
@@ -0,0 +1,91 @@
+import { isValid, parseISO } from 'date-fns'
+import { ImportedTag, ImportedTask, ImportResult } from '@/types/import'
+
+// Helpers shared by the importers
+
+// ISO 8601, with or without a time, offset or separators; a date without a time is taken as that
+// day in the user's time zone. Free text ("Jan 15", "every day") is not guessed at: Date would
+// read a missing year as 2001.
+export function toIsoDate(value: string | null | undefined): string | null {
+  const text = value?.trim()
+  if (!text) return null
+
+  const iso = parseISO(text)
+  return isValid(iso) ? iso.toISOString() : null
+}
+
+// toIsoDate, noting in warnings when a date was given but couldn't be read
+export function readDate(
+  value: string | null | undefined,
+  warnings: string[],
+  description: string
+): string | null {
+  const date = toIsoDate(value)
+  if (value?.trim() && !date) {
+    warnings.push(`${description} "${value.trim()}" was left out`)
+  }
+  return date
+}
+
+// Collects the tags an import needs, so the same project or label met twice becomes one tag
+export function createTagCollector() {
+  const tags = new Map<string, ImportedTag>()
+
+  const add = (key: string, name: string, parentKey: string | null = null): string => {
+    if (!tags.has(key)) {
+      tags.set(key, { key, name: name.trim(), parentKey })
+    }
+    return key
+  }
+
+  // Adds each segment of a path such as Work.Clients.Acme under the one before it, and returns
+  // the key of the last
+  const addPath = (prefix: string, segments: string[]): string | null =>
+    segments.reduce<string | null>(
+      (parentKey, segment, index) =>
+        add(`${prefix}:${segments.slice(0, index + 1).join('/')}`, segment, parentKey),
+      null
+    )
+
+  return { add, addPath, list: () => [...tags.values()] }
+}
+
+// Puts parents before their children. Rows whose parent isn't in the list become top-level.
+function orderParentsFirst<T extends { key: string; parentKey: string | null }>(rows: T[]): T[] {
+  const byKey = new Map(rows.map(row => [row.key, row]))
+  const placed = new Set<string>()
+  const ordered: T[] = []
+
+  const place = (row: T) => {
+    if (placed.has(row.key)) return
+    placed.add(row.key)
+
+    const parent = row.parentKey ? byKey.get(row.parentKey) : undefined
+    if (parent) place(parent)
+    ordered.push(parent || !row.parentKey ? row : { ...row, parentKey: null })
+  }
+  rows.forEach(place)
+
+  return ordered
+}
+
+// Tasks need a title to be stored, so rows without one are dropped here rather than failing the
+// import halfway; their subtasks move up to the top level
+export function toImportResult(
+  tasks: ImportedTask[],
+  tags: ImportedTag[],
+  warnings: string[]
+): ImportResult {
+  const titled = tasks.filter(task => task.data.title.trim())
+  const untitled = tasks.length - titled.length
+  const skipped =
+    untitled > 0
+      ? [`${untitled} ${untitled === 1 ? 'task has' : 'tasks have'} no title and will be skipped`]
+      : []
+
+  return {
+    tasks: orderParentsFirst(titled),
+    tags: orderParentsFirst(tags.filter(tag => tag.name)),
+    warnings: [...warnings, ...skipped],
+  }
+}
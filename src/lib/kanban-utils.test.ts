@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import { mergeColumnOrder } from '@/lib/kanban-utils'
+
+describe('mergeColumnOrder', () => {
+  it('keeps hidden cards after the visible card they followed', () => {
+    // b and d are hidden by the filters; c is dragged to the top
+    expect(mergeColumnOrder(['a', 'b', 'c', 'd', 'e'], ['c', 'a', 'e'])).toEqual([
+      'c',
+      'd',
+      'a',
+      'b',
+      'e',
+    ])
+  })
+
+  it('keeps hidden cards at the top and takes in a card dropped from another column', () => {
+    expect(mergeColumnOrder(['hidden', 'a', 'b'], ['a', 'moved', 'b'])).toEqual([
+      'hidden',
+      'a',
+      'moved',
+      'b',
+    ])
+  })
+})
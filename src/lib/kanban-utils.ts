@@ -0,0 +1,63 @@
+import { TaskStatus, TaskWithTags } from '@/types/task'
+import { parseISO } from 'date-fns'
+
+// One column per status, in workflow order
+export const kanbanColumnOrder: TaskStatus[] = [
+  'ready',
+  'in_progress',
+  'blocked',
+  'completed',
+  'archived',
+]
+
+// Columns that can be folded away; they tend to grow without bound
+export const collapsibleKanbanColumns: TaskStatus[] = ['completed', 'archived']
+
+export function isWipLimitExceeded(taskCount: number, wipLimit?: number): boolean {
+  if (!wipLimit) return false
+  return taskCount > wipLimit
+}
+
+// Manual order first; ties (e.g. new tasks at 0) fall back to newest first
+export function sortByOrderIndex(tasks: TaskWithTags[]): TaskWithTags[] {
+  return [...tasks].sort(
+    (a, b) =>
+      a.order_index - b.order_index ||
+      parseISO(b.created_at).getTime() - parseISO(a.created_at).getTime()
+  )
+}
+
+export function groupTasksByStatus(tasks: TaskWithTags[]): Record<TaskStatus, TaskWithTags[]> {
+  const groups = Object.fromEntries(
+    kanbanColumnOrder.map(status => [status, [] as TaskWithTags[]])
+  ) as Record<TaskStatus, TaskWithTags[]>
+
+  tasks.forEach(task => groups[task.status].push(task))
+  kanbanColumnOrder.forEach(status => {
+    groups[status] = sortByOrderIndex(groups[status])
+  })
+
+  return groups
+}
+
+// Puts a new order of the visible cards back into the whole column. A card hidden by the filters
+// stays right after the visible card it followed, so the positions written never collide with it.
+export function mergeColumnOrder(columnIds: string[], visibleIds: string[]): string[] {
+  const visible = new Set(visibleIds)
+  const leading: string[] = []
+  const following = new Map<string, string[]>()
+
+  let previous: string | null = null
+  for (const id of columnIds) {
+    if (visible.has(id)) {
+      previous = id
+      following.set(id, [])
+    } else if (previous) {
+      following.get(previous)!.push(id)
+    } else {
+      leading.push(id)
+    }
+  }
+
+  return [...leading, ...visibleIds.flatMap(id => [id, ...(following.get(id) ?? [])])]
+}
@@ -0,0 +1,105 @@
+import { Tables } from '@/types/database'
+
+// IndexedDB storage for the local backend: one object store per table, holding rows under the
+// key the local repository gives them
+
+const DB_NAME = 'dothething-local'
+const DB_VERSION = 1
+
+export const LOCAL_TABLES = [
+  'tasks',
+  'task_tags',
+  'tags',
+  'completions',
+  'recurrences',
+  'saved_views',
+  'deleted_rows',
+] as const
+
+export type LocalTable = (typeof LOCAL_TABLES)[number]
+
+export type LocalRows = { [T in LocalTable]: Map<string, Tables<T>> }
+
+// A row written (or, with a null row, deleted) by a local transaction
+export interface LocalChange {
+  table: LocalTable
+  key: string
+  row: Tables<LocalTable> | null
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        LOCAL_TABLES.forEach(table => request.result.createObjectStore(table))
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+export function emptyLocalRows(): LocalRows {
+  return {
+    tasks: new Map(),
+    task_tags: new Map(),
+    tags: new Map(),
+    completions: new Map(),
+    recurrences: new Map(),
+    saved_views: new Map(),
+    deleted_rows: new Map(),
+  }
+}
+
+export async function readLocalRows(): Promise<LocalRows> {
+  const database = await openDatabase()
+  const rows = emptyLocalRows()
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction([...LOCAL_TABLES], 'readonly')
+    const requests = LOCAL_TABLES.map(table => {
+      const store = transaction.objectStore(table)
+      return { table, keys: store.getAllKeys(), values: store.getAll() }
+    })
+    transaction.oncomplete = () => {
+      requests.forEach(({ table, keys, values }) => {
+        const target = rows[table] as Map<string, Tables<LocalTable>>
+        keys.result.forEach((key, i) => target.set(String(key), values.result[i]))
+      })
+      resolve(rows)
+    }
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Stores every change of a local transaction in one IndexedDB transaction, so a reload never
+// sees half of it
+export async function writeLocalChanges(changes: LocalChange[]): Promise<void> {
+  if (changes.length === 0) return
+
+  const database = await openDatabase()
+  const tables = [...new Set(changes.map(change => change.table))]
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(tables, 'readwrite')
+    changes.forEach(({ table, key, row }) => {
+      const store = transaction.objectStore(table)
+      if (row) {
+        store.put(row, key)
+      } else {
+        store.delete(key)
+      }
+    })
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
@@ -0,0 +1,612 @@
+import { Tables, TablesInsert, TablesUpdate } from '@/types/database'
+import { NewTask, Repository, RepositoryError, RepositoryResult } from '@/types/repository'
+import {
+  LocalChange,
+  LocalRows,
+  LocalTable,
+  emptyLocalRows,
+  readLocalRows,
+  writeLocalChanges,
+} from '@/lib/local-database'
+import {
+  newCompletionDefaults,
+  newSavedViewDefaults,
+  newTagDefaults,
+  newTaskDefaults,
+} from '@/lib/column-defaults'
+
+// The browser backend: every table is held in memory and, unless persist is off, stored in
+// IndexedDB. It enforces what the Supabase schema does, so stores can't tell the two apart:
+// users only see and write their own rows (the RLS policies), keys and references are checked,
+// deletes cascade, and the triggers (updated_at, tag links touching their task, task tombstones)
+// are reproduced. A failed call changes nothing.
+
+export interface LocalRepositoryOptions {
+  getUserId: () => string | null // Who auth.uid() would be
+  persist?: boolean // Off keeps everything in memory, e.g. in tests
+}
+
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000 // As in 016_delta_sync.sql
+
+class LocalDatabaseError extends Error {
+  code: string
+
+  constructor(message: string, code: string) {
+    super(message)
+    this.code = code
+  }
+}
+
+// The errors Postgres and PostgREST report in the same situations
+const rlsViolation = (table: LocalTable) =>
+  new LocalDatabaseError(`new row violates row-level security policy for table "${table}"`, '42501')
+const duplicateKey = (constraint: string) =>
+  new LocalDatabaseError(`duplicate key value violates unique constraint "${constraint}"`, '23505')
+const missingReference = (table: LocalTable, constraint: string) =>
+  new LocalDatabaseError(
+    `insert or update on table "${table}" violates foreign key constraint "${constraint}"`,
+    '23503'
+  )
+const checkViolation = (table: LocalTable, constraint: string) =>
+  new LocalDatabaseError(
+    `new row for relation "${table}" violates check constraint "${constraint}"`,
+    '23514'
+  )
+const noSingleRow = () =>
+  new LocalDatabaseError('Cannot coerce the result to a single JSON object', 'PGRST116')
+
+interface Transaction {
+  rows: LocalRows
+  userId: string | null
+  now: string // NOW() is the same throughout a transaction
+  put: <T extends LocalTable>(table: T, row: Tables<T>) => void
+  remove: (table: LocalTable, key: string) => void
+}
+
+function rowKey(table: LocalTable, row: Tables<LocalTable>): string {
+  if (table === 'task_tags') {
+    const link = row as Tables<'task_tags'>
+    return `${link.task_id}:${link.tag_id}`
+  }
+  return (row as { id: string }).id
+}
+
+function requireUser(tx: Transaction, table: LocalTable): string {
+  if (!tx.userId) throw rlsViolation(table)
+  return tx.userId
+}
+
+function ownTask(tx: Transaction, id: string): Tables<'tasks'> | undefined {
+  const task = tx.rows.tasks.get(id)
+  return task && task.user_id === tx.userId ? task : undefined
+}
+
+function ownRow<T extends 'tags' | 'saved_views'>(
+  tx: Transaction,
+  table: T,
+  id: string
+): Tables<T> | undefined {
+  const row = tx.rows[table].get(id) as Tables<T> | undefined
+  return row && row.user_id === tx.userId ? row : undefined
+}
+
+// Completions and recurrences belong to whoever owns their task
+function ownTaskRow<T extends 'completions' | 'recurrences'>(
+  tx: Transaction,
+  table: T,
+  id: string
+): Tables<T> | undefined {
+  const row = tx.rows[table].get(id) as Tables<T> | undefined
+  return row && ownTask(tx, row.task_id) ? row : undefined
+}
+
+function byCreatedAtDesc(a: Tables<'tasks'>, b: Tables<'tasks'>) {
+  return b.created_at.localeCompare(a.created_at) || a.id.localeCompare(b.id)
+}
+
+function isAfter(timestamp: string, since: string) {
+  return new Date(timestamp).getTime() > new Date(since).getTime()
+}
+
+// tasks.updated_at trigger, also fired by tag link changes
+function touchTask(tx: Transaction, taskId: string) {
+  const task = tx.rows.tasks.get(taskId)
+  if (task) {
+    tx.put('tasks', { ...task, updated_at: tx.now })
+  }
+}
+
+function checkTaskReferences(tx: Transaction, task: Tables<'tasks'>) {
+  if (task.user_id !== tx.userId) throw rlsViolation('tasks')
+  if (task.parent_id && !tx.rows.tasks.has(task.parent_id)) {
+    throw missingReference('tasks', 'tasks_parent_id_fkey')
+  }
+}
+
+function checkRecurrence(recurrence: Tables<'recurrences'>) {
+  if (recurrence.type === 'fixed_schedule' && !recurrence.anchor_date) {
+    throw checkViolation('recurrences', 'recurrences_fixed_has_anchor')
+  }
+}
+
+function insertTaskTag(tx: Transaction, taskId: string, tagId: string) {
+  const userId = requireUser(tx, 'task_tags')
+  if (!ownTask(tx, taskId)) throw rlsViolation('task_tags')
+  if (!tx.rows.tags.has(tagId)) throw missingReference('task_tags', 'task_tags_tag_id_fkey')
+  if (tx.rows.task_tags.has(`${taskId}:${tagId}`)) throw duplicateKey('task_tags_pkey')
+
+  tx.put('task_tags', { task_id: taskId, tag_id: tagId, user_id: userId })
+  touchTask(tx, taskId)
+}
+
+function deleteTaskTag(tx: Transaction, link: Tables<'task_tags'>) {
+  tx.remove('task_tags', rowKey('task_tags', link))
+  touchTask(tx, link.task_id)
+}
+
+// Completions made under the recurrence keep their own task, but no longer a series
+function deleteRecurrence(tx: Transaction, id: string) {
+  tx.rows.completions.forEach(completion => {
+    if (completion.recurrence_id === id) {
+      tx.put('completions', { ...completion, recurrence_id: null })
+    }
+  })
+  tx.remove('recurrences', id)
+}
+
+// The task, its subtasks and everything hanging off them; each leaves a tombstone
+function deleteTask(tx: Transaction, task: Tables<'tasks'>) {
+  tx.rows.tasks.forEach(child => {
+    if (child.parent_id === task.id) deleteTask(tx, child)
+  })
+  tx.rows.task_tags.forEach((link, key) => {
+    if (link.task_id === task.id) tx.remove('task_tags', key)
+  })
+  tx.rows.completions.forEach(completion => {
+    if (completion.task_id === task.id) tx.remove('completions', completion.id)
+  })
+  tx.rows.recurrences.forEach(recurrence => {
+    if (recurrence.task_id === task.id) deleteRecurrence(tx, recurrence.id)
+  })
+  tx.remove('tasks', task.id)
+
+  tx.put('deleted_rows', {
+    id: crypto.randomUUID(),
+    user_id: task.user_id,
+    table_name: 'tasks',
+    row_id: task.id,
+    deleted_at: tx.now,
+  })
+  const cutoff = new Date(tx.now).getTime() - TOMBSTONE_RETENTION_MS
+  tx.rows.deleted_rows.forEach(tombstone => {
+    if (tombstone.user_id === task.user_id && new Date(tombstone.deleted_at).getTime() < cutoff) {
+      tx.remove('deleted_rows', tombstone.id)
+    }
+  })
+}
+
+function updateTask(
+  tx: Transaction,
+  task: Tables<'tasks'>,
+  updates: TablesUpdate<'tasks'>
+): Tables<'tasks'> {
+  const updated = { ...task, ...updates, updated_at: tx.now }
+  checkTaskReferences(tx, updated)
+  tx.put('tasks', updated)
+  return updated
+}
+
+// The columns create_task_with_tags copies from its argument; the rest get their defaults
+function buildTask(task: NewTask, userId: string, now: string): Tables<'tasks'> {
+  return {
+    ...newTaskDefaults(task.id, userId),
+    title: task.title,
+    description: task.description ?? null,
+    status: task.status ?? 'ready',
+    type: task.type ?? 'task',
+    due_date: task.due_date ?? null,
+    scheduled_date: task.scheduled_date ?? null,
+    completed_at: task.status === 'completed' ? (task.completed_at ?? now) : null,
+    is_urgent: task.is_urgent ?? false,
+    is_important: task.is_important ?? false,
+    parent_id: task.parent_id ?? null,
+    estimated_minutes: task.estimated_minutes ?? null,
+    notes: task.notes ?? null,
+    timer_duration_minutes: task.timer_duration_minutes ?? null,
+    target_frequency: task.target_frequency ?? null,
+    time_of_day: task.time_of_day ?? null,
+    nudge_threshold_days: task.nudge_threshold_days ?? null,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+export function createLocalRepository({
+  getUserId,
+  persist = true,
+}: LocalRepositoryOptions): Repository {
+  let loading: Promise<LocalRows> | null = null
+
+  function load(): Promise<LocalRows> {
+    if (!loading) {
+      loading = persist
+        ? readLocalRows().catch(error => {
+            loading = null
+            throw error
+          })
+        : Promise.resolve(emptyLocalRows())
+    }
+    return loading
+  }
+
+  // Transactions run one at a time. While one waits on its writes another could change the same
+  // rows, and undoing the first would then also undo the second.
+  let lastTransaction: Promise<unknown> = Promise.resolve()
+
+  function run<T>(work: (tx: Transaction) => T): RepositoryResult<T> {
+    const result = lastTransaction.then(() => runNow(work))
+    lastTransaction = result
+    return result
+  }
+
+  // Runs work against the tables as one transaction: it sees its own writes, and if it throws
+  // (or the writes can't be stored) every change it made is undone
+  async function runNow<T>(work: (tx: Transaction) => T): RepositoryResult<T> {
+    let rows: LocalRows
+    try {
+      rows = await load()
+    } catch (error) {
+      return { data: null, error: { message: (error as Error).message } }
+    }
+
+    const changes: (LocalChange & { previous: Tables<LocalTable> | undefined })[] = []
+    const tableRows = (table: LocalTable) => rows[table] as Map<string, Tables<LocalTable>>
+
+    const tx: Transaction = {
+      rows,
+      userId: getUserId(),
+      now: new Date().toISOString(),
+      put: (table, row) => {
+        const key = rowKey(table, row)
+        const stored = structuredClone(row)
+        changes.push({ table, key, row: stored, previous: tableRows(table).get(key) })
+        tableRows(table).set(key, stored)
+      },
+      remove: (table, key) => {
+        changes.push({ table, key, row: null, previous: tableRows(table).get(key) })
+        tableRows(table).delete(key)
+      },
+    }
+
+    try {
+      const data = work(tx)
+      if (persist) {
+        await writeLocalChanges(changes.map(({ table, key, row }) => ({ table, key, row })))
+      }
+      return { data: structuredClone(data), error: null }
+    } catch (error) {
+      changes.reverse().forEach(({ table, key, previous }) => {
+        if (previous) {
+          tableRows(table).set(key, previous)
+        } else {
+          tableRows(table).delete(key)
+        }
+      })
+
+      const { message, code } = error as Partial<LocalDatabaseError>
+      const repositoryError: RepositoryError = { message: message ?? String(error), code }
+      return { data: null, error: repositoryError }
+    }
+  }
+
+  return {
+    kind: 'local',
+
+    tasks: {
+      list: (options = {}) =>
+        run(tx =>
+          [...tx.rows.tasks.values()]
+            .filter(task => task.user_id === tx.userId)
+            .filter(task => !options.changedSince || isAfter(task.updated_at, options.changedSince))
+            .sort(byCreatedAtDesc)
+        ),
+
+      get: id => run(tx => ownTask(tx, id) ?? null),
+
+      create: (task, tagIds) =>
+        run(tx => {
+          const userId = requireUser(tx, 'tasks')
+          if (tx.rows.tasks.has(task.id)) throw duplicateKey('tasks_pkey')
+
+          const row = buildTask(task, userId, tx.now)
+          checkTaskReferences(tx, row)
+          tx.put('tasks', row)
+          tagIds.forEach(tagId => insertTaskTag(tx, row.id, tagId))
+          return tx.rows.tasks.get(row.id)!
+        }),
+
+      update: (id, updates) =>
+        run(tx => {
+          const task = ownTask(tx, id)
+          if (!task) throw noSingleRow()
+          return updateTask(tx, task, updates)
+        }),
+
+      updateMany: (ids, updates) =>
+        run(tx =>
+          ids.flatMap(id => {
+            const task = ownTask(tx, id)
+            return task ? [updateTask(tx, task, updates)] : []
+          })
+        ),
+
+      reorder: orderIndexes =>
+        run(tx =>
+          Object.entries(orderIndexes).flatMap(([id, order_index]) => {
+            const task = ownTask(tx, id)
+            return task ? [updateTask(tx, task, { order_index })] : []
+          })
+        ),
+
+      delete: id =>
+        run(tx => {
+          const task = ownTask(tx, id)
+          if (task) deleteTask(tx, task)
+          return null
+        }),
+
+      listDeletedSince: since =>
+        run(tx =>
+          [...tx.rows.deleted_rows.values()]
+            .filter(
+              tombstone =>
+                tombstone.user_id === tx.userId &&
+                tombstone.table_name === 'tasks' &&
+                isAfter(tombstone.deleted_at, since)
+            )
+            .sort((a, b) => a.deleted_at.localeCompare(b.deleted_at))
+            .map(({ row_id, deleted_at }) => ({ row_id, deleted_at }))
+        ),
+
+      serverTime: () => run(tx => tx.now),
+    },
+
+    taskTags: {
+      list: taskIds =>
+        run(tx => {
+          const wanted = taskIds && new Set(taskIds)
+          return [...tx.rows.task_tags.values()]
+            .filter(link => link.user_id === tx.userId && (!wanted || wanted.has(link.task_id)))
+            .sort((a, b) => a.task_id.localeCompare(b.task_id) || a.tag_id.localeCompare(b.tag_id))
+        }),
+
+      add: (taskId, tagId) =>
+        run(tx => {
+          if (!tx.rows.task_tags.has(`${taskId}:${tagId}`)) {
+            insertTaskTag(tx, taskId, tagId)
+          }
+          return null
+        }),
+
+      remove: (taskId, tagId) =>
+        run(tx => {
+          const link = tx.rows.task_tags.get(`${taskId}:${tagId}`)
+          if (link && ownTask(tx, taskId)) deleteTaskTag(tx, link)
+          return null
+        }),
+
+      replace: (taskId, tagIds) =>
+        run(tx => {
+          if (!ownTask(tx, taskId)) {
+            throw new LocalDatabaseError(`Task ${taskId} not found`, 'P0001')
+          }
+
+          tx.rows.task_tags.forEach(link => {
+            if (link.task_id === taskId && !tagIds.includes(link.tag_id)) deleteTaskTag(tx, link)
+          })
+          tagIds.forEach(tagId => {
+            if (!tx.rows.task_tags.has(`${taskId}:${tagId}`)) insertTaskTag(tx, taskId, tagId)
+          })
+          return null
+        }),
+    },
+
+    tags: {
+      list: () =>
+        run(tx =>
+          [...tx.rows.tags.values()]
+            .filter(tag => tag.user_id === tx.userId)
+            .sort((a, b) => a.name.localeCompare(b.name))
+        ),
+
+      create: (tag: TablesInsert<'tags'>) =>
+        run(tx => {
+          const userId = requireUser(tx, 'tags')
+          const id = tag.id ?? crypto.randomUUID()
+          const row = { ...newTagDefaults(id, userId), ...tag, id }
+          if (row.user_id !== userId) throw rlsViolation('tags')
+          if (tx.rows.tags.has(row.id)) throw duplicateKey('tags_pkey')
+          if (row.parent_id && !tx.rows.tags.has(row.parent_id)) {
+            throw missingReference('tags', 'tags_parent_id_fkey')
+          }
+
+          tx.put('tags', row)
+          return row
+        }),
+
+      update: (id, updates) =>
+        run(tx => {
+          const tag = ownRow(tx, 'tags', id)
+          if (!tag) throw noSingleRow()
+
+          const updated = { ...tag, ...updates, updated_at: tx.now }
+          if (updated.user_id !== tx.userId) throw rlsViolation('tags')
+          if (updated.parent_id && !tx.rows.tags.has(updated.parent_id)) {
+            throw missingReference('tags', 'tags_parent_id_fkey')
+          }
+
+          tx.put('tags', updated)
+          return updated
+        }),
+
+      // Tag links go with the tag; child tags lose their parent
+      delete: id =>
+        run(tx => {
+          if (!ownRow(tx, 'tags', id)) return null
+
+          tx.rows.task_tags.forEach(link => {
+            if (link.tag_id === id) deleteTaskTag(tx, link)
+          })
+          tx.rows.tags.forEach(child => {
+            if (child.parent_id === id) {
+              tx.put('tags', { ...child, parent_id: null, updated_at: tx.now })
+            }
+          })
+          tx.remove('tags', id)
+          return null
+        }),
+    },
+
+    completions: {
+      list: taskIds =>
+        run(tx => {
+          const wanted = taskIds && new Set(taskIds)
+          return [...tx.rows.completions.values()]
+            .filter(c => ownTask(tx, c.task_id) && (!wanted || wanted.has(c.task_id)))
+            .sort((a, b) => b.completed_at.localeCompare(a.completed_at))
+        }),
+
+      listForRecurrence: recurrenceId =>
+        run(tx =>
+          [...tx.rows.completions.values()]
+            .filter(c => c.recurrence_id === recurrenceId && ownTask(tx, c.task_id))
+            .sort((a, b) => b.completed_at.localeCompare(a.completed_at))
+        ),
+
+      getLatest: taskId =>
+        run(tx => {
+          if (!ownTask(tx, taskId)) return null
+          const completions = [...tx.rows.completions.values()].filter(c => c.task_id === taskId)
+          return completions.sort((a, b) => b.completed_at.localeCompare(a.completed_at))[0] ?? null
+        }),
+
+      create: completion =>
+        run(tx => {
+          requireUser(tx, 'completions')
+          if (!ownTask(tx, completion.task_id)) throw rlsViolation('completions')
+
+          const id = completion.id ?? crypto.randomUUID()
+          const row = { ...newCompletionDefaults(id, completion.task_id), ...completion, id }
+          if (row.recurrence_id && !tx.rows.recurrences.has(row.recurrence_id)) {
+            throw missingReference('completions', 'completions_recurrence_id_fkey')
+          }
+          if (row.recurrence_id && !ownTaskRow(tx, 'recurrences', row.recurrence_id)) {
+            throw rlsViolation('completions')
+          }
+          if (tx.rows.completions.has(row.id)) throw duplicateKey('completions_pkey')
+
+          tx.put('completions', row)
+          return row
+        }),
+
+      delete: id =>
+        run(tx => {
+          if (ownTaskRow(tx, 'completions', id)) tx.remove('completions', id)
+          return null
+        }),
+    },
+
+    recurrences: {
+      list: () =>
+        run(tx =>
+          [...tx.rows.recurrences.values()].filter(recurrence => ownTask(tx, recurrence.task_id))
+        ),
+
+      create: recurrence =>
+        run(tx => {
+          requireUser(tx, 'recurrences')
+          if (!ownTask(tx, recurrence.task_id)) throw rlsViolation('recurrences')
+
+          const row: Tables<'recurrences'> = {
+            anchor_date: null,
+            created_at: tx.now,
+            ...recurrence,
+            id: recurrence.id ?? crypto.randomUUID(),
+          }
+          checkRecurrence(row)
+          if (tx.rows.recurrences.has(row.id)) throw duplicateKey('recurrences_pkey')
+
+          tx.put('recurrences', row)
+          return row
+        }),
+
+      update: (id, updates) =>
+        run(tx => {
+          const recurrence = ownTaskRow(tx, 'recurrences', id)
+          if (!recurrence) throw noSingleRow()
+
+          const updated = { ...recurrence, ...updates }
+          if (!ownTask(tx, updated.task_id)) throw rlsViolation('recurrences')
+          checkRecurrence(updated)
+
+          tx.put('recurrences', updated)
+          return updated
+        }),
+
+      delete: id =>
+        run(tx => {
+          if (ownTaskRow(tx, 'recurrences', id)) deleteRecurrence(tx, id)
+          return null
+        }),
+    },
+
+    savedViews: {
+      list: () =>
+        run(tx =>
+          [...tx.rows.saved_views.values()]
+            .filter(view => view.user_id === tx.userId)
+            .sort((a, b) => a.position - b.position)
+        ),
+
+      create: view =>
+        run(tx => {
+          const userId = requireUser(tx, 'saved_views')
+          const id = view.id ?? crypto.randomUUID()
+          const row = { ...newSavedViewDefaults(id, userId), ...view, id }
+          if (row.user_id !== userId) throw rlsViolation('saved_views')
+          if (tx.rows.saved_views.has(row.id)) throw duplicateKey('saved_views_pkey')
+
+          tx.put('saved_views', row)
+          return row
+        }),
+
+      update: (id, updates) =>
+        run(tx => {
+          const view = ownRow(tx, 'saved_views', id)
+          if (!view) throw noSingleRow()
+
+          const updated = { ...view, ...updates, updated_at: tx.now }
+          if (updated.user_id !== tx.userId) throw rlsViolation('saved_views')
+
+          tx.put('saved_views', updated)
+          return updated
+        }),
+
+      delete: id =>
+        run(tx => {
+          if (ownRow(tx, 'saved_views', id)) tx.remove('saved_views', id)
+          return null
+        }),
+
+      setDefault: id =>
+        run(tx => {
+          tx.rows.saved_views.forEach(view => {
+            if (view.user_id === tx.userId && view.is_default !== (view.id === id)) {
+              tx.put('saved_views', { ...view, is_default: view.id === id, updated_at: tx.now })
+            }
+          })
+          return null
+        }),
+    },
+  }
+}
@@ -0,0 +1,19 @@
+// Keeps the result of the last call and returns it again while every argument is identical
+// (===). Meant for selectors over immutable store state, where an unchanged input keeps its
+// reference.
+export function memoizeLast<A extends unknown[], R>(compute: (...args: A) => R): (...args: A) => R {
+  let lastArgs: A | null = null
+  let lastResult: R
+
+  return (...args: A) => {
+    if (
+      !lastArgs ||
+      lastArgs.length !== args.length ||
+      args.some((arg, i) => arg !== lastArgs![i])
+    ) {
+      lastResult = compute(...args)
+      lastArgs = args
+    }
+    return lastResult
+  }
+}
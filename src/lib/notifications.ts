@@ -0,0 +1,14 @@
+// Thin wrapper around the browser Notification API; in-app notifications are shown by antd
+
+export function requestNotificationPermission(): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return
+  Notification.requestPermission()
+}
+
+export function showBrowserNotification(title: string, body?: string): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return
+  // Only needed when the tab is in the background; otherwise the in-app notification is enough
+  if (document.visibilityState === 'visible') return
+
+  new Notification(title, { body })
+}
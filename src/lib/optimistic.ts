@@ -0,0 +1,122 @@
+// Optimistic mutations: change local state immediately, confirm with the server, and put the
+// touched rows back if the server says no
+
+import { isNetworkError } from '@/lib/outbox'
+
+interface Entity {
+  id: string
+}
+
+// A local change that has been applied to a store but not yet confirmed by the server
+export interface PendingMutation {
+  id: string
+  entityIds: string[] // Rows the change touched
+}
+
+// The touched rows as they were before a mutation, with their positions so removed rows go back
+// where they were. An undefined item means the row didn't exist yet.
+export type Snapshot<T> = Map<string, { item: T | undefined; index: number }>
+
+export function createPendingMutation(entityIds: string[]): PendingMutation {
+  return { id: crypto.randomUUID(), entityIds }
+}
+
+export function isEntityPending(
+  pendingMutations: Pick<PendingMutation, 'entityIds'>[],
+  entityId: string
+): boolean {
+  return pendingMutations.some(mutation => mutation.entityIds.includes(entityId))
+}
+
+export function takeSnapshot<T extends Entity>(items: T[], ids: string[]): Snapshot<T> {
+  const snapshot: Snapshot<T> = new Map()
+  ids.forEach(id => {
+    const index = items.findIndex(item => item.id === id)
+    snapshot.set(id, { item: index >= 0 ? items[index] : undefined, index })
+  })
+  return snapshot
+}
+
+// Restores only the snapshotted rows, so other changes made in the meantime are kept
+export function restoreSnapshot<T extends Entity>(items: T[], snapshot: Snapshot<T>): T[] {
+  const restored = items
+    .filter(item => !snapshot.has(item.id) || snapshot.get(item.id)!.item)
+    .map(item => snapshot.get(item.id)?.item ?? item)
+
+  snapshot.forEach(({ item, index }) => {
+    if (item && !restored.some(existing => existing.id === item.id)) {
+      restored.splice(index, 0, item)
+    }
+  })
+
+  return restored
+}
+
+// A realtime row no newer than the one we hold is the echo of a write we've already applied
+export function isStaleEcho(
+  incoming: { updated_at: string },
+  current: { updated_at: string } | undefined
+): boolean {
+  if (!current) return false
+  return new Date(incoming.updated_at).getTime() <= new Date(current.updated_at).getTime()
+}
+
+interface OptimisticMutation<T extends Entity, R extends Entity> {
+  entityIds: string[]
+  // Read and write the store's rows and its pending mutations
+  read: () => { items: T[]; pendingMutations: PendingMutation[] }
+  write: (items: T[], pendingMutations: PendingMutation[]) => void
+  apply: (items: T[]) => T[]
+  commit: () => PromiseLike<{ data?: R | R[] | null; error: { message: string } | null }>
+  // Folds a confirmed server row into the local one
+  merge: (current: T, confirmed: R) => T
+  // Hands the change to the outbox instead. Used when the write can't reach the server, or
+  // straight away with queueFirst (e.g. offline); the local change is kept either way.
+  enqueue?: () => Promise<{ error: Error | null }>
+  queueFirst?: boolean
+}
+
+export async function runOptimisticMutation<T extends Entity, R extends Entity>({
+  entityIds,
+  read,
+  write,
+  apply,
+  commit,
+  merge,
+  enqueue,
+  queueFirst = false,
+}: OptimisticMutation<T, R>): Promise<{ error: Error | null; queued: boolean }> {
+  const mutation = createPendingMutation(entityIds)
+  const before = read()
+  const snapshot = takeSnapshot(before.items, entityIds)
+  write(apply(before.items), [...before.pendingMutations, mutation])
+
+  const { data, error } = queueFirst && enqueue ? { data: null, error: null } : await commit()
+
+  const after = read()
+  const pendingMutations = after.pendingMutations.filter(pending => pending.id !== mutation.id)
+
+  if (enqueue && (queueFirst || (error && isNetworkError(error)))) {
+    write(after.items, pendingMutations)
+    const { error: enqueueError } = await enqueue()
+    return { error: enqueueError, queued: true }
+  }
+
+  if (error) {
+    write(restoreSnapshot(after.items, snapshot), pendingMutations)
+    return { error: new Error(`${error.message}. Your change was undone.`), queued: false }
+  }
+
+  // Take the server's version of each row unless a later change to it is still in flight
+  const rows = Array.isArray(data) ? data : data ? [data] : []
+  const confirmed = new Map(rows.map(row => [row.id, row]))
+  write(
+    after.items.map(item => {
+      const row = confirmed.get(item.id)
+      return row && !isEntityPending(pendingMutations, item.id) ? merge(item, row) : item
+    }),
+    pendingMutations
+  )
+
+  return { error: null, queued: false }
+}
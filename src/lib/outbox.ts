@@ -0,0 +1,63 @@
+import { OutboxEntry } from '@/types/outbox'
+
+// IndexedDB storage for the outbox, so changes made offline survive a reload
+
+const DB_NAME = 'dothething'
+const DB_VERSION = 1
+const OUTBOX_STORE = 'outbox'
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        databasePromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return databasePromise
+}
+
+// Resolves once the transaction has committed, not just when the request succeeds
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  request: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(OUTBOX_STORE, mode)
+    const pending = request(transaction.objectStore(OUTBOX_STORE))
+    transaction.oncomplete = () => resolve(pending.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function readOutbox(userId: string): Promise<OutboxEntry[]> {
+  const entries = await runRequest<OutboxEntry[]>('readonly', store => store.getAll())
+  return entries.filter(entry => entry.userId === userId).sort((a, b) => a.sequence - b.sequence)
+}
+
+export async function writeOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await runRequest('readwrite', store => store.put(entry))
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(id))
+}
+
+// Whether a failed write never reached the server (as opposed to being rejected by it).
+// supabase-js reports fetch failures as an error whose message carries the browser's wording.
+export function isNetworkError(error: { message: string }): boolean {
+  return (
+    !navigator.onLine ||
+    /Failed to fetch|NetworkError|Load failed|fetch failed/i.test(error.message)
+  )
+}
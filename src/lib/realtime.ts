@@ -0,0 +1,157 @@
+import { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js'
+import { getSupabase } from '@/lib/supabase'
+import { getRepository } from '@/lib/repository'
+import { Tables } from '@/types/database'
+
+// One realtime channel per signed-in user, carrying the changes to their tasks, tag links and
+// tags. Stores register their handlers once; pages retain the channel while they are mounted and
+// it stays open until the last of them releases it. A channel that drops is replaced after an
+// increasing delay, and every (re)subscription is followed by a catch-up sync, since changes made
+// while it was down are never sent.
+
+type RealtimeTable = 'tasks' | 'task_tags' | 'tags'
+
+type ChangeHandler<T extends RealtimeTable> = (
+  payload: RealtimePostgresChangesPayload<Tables<T>>
+) => void
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 60_000
+
+const changeHandlers: { [T in RealtimeTable]: ChangeHandler<T>[] } = {
+  tasks: [],
+  task_tags: [],
+  tags: [],
+}
+const subscribeHandlers: (() => void)[] = []
+
+interface Connection {
+  userId: string
+  refCount: number
+  channel: RealtimeChannel | null // null while waiting to reconnect
+  failedAttempts: number
+  reconnectTimer: number | null
+}
+
+let connection: Connection | null = null
+
+export function onRealtimeChange<T extends RealtimeTable>(table: T, handler: ChangeHandler<T>) {
+  changeHandlers[table].push(handler)
+}
+
+// Called each time the channel is subscribed, including after reconnecting
+export function onRealtimeSubscribed(handler: () => void) {
+  subscribeHandlers.push(handler)
+}
+
+function dispatch<T extends RealtimeTable>(
+  table: T,
+  payload: RealtimePostgresChangesPayload<Tables<T>>
+) {
+  changeHandlers[table].forEach(handler => handler(payload))
+}
+
+function openChannel(current: Connection) {
+  const filter = `user_id=eq.${current.userId}`
+  const channel = getSupabase()
+    .channel(`user-changes:${current.userId}`)
+    .on<Tables<'tasks'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'tasks', filter },
+      payload => dispatch('tasks', payload)
+    )
+    .on<Tables<'task_tags'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'task_tags', filter },
+      payload => dispatch('task_tags', payload)
+    )
+    .on<Tables<'tags'>>(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'tags', filter },
+      payload => dispatch('tags', payload)
+    )
+
+  current.channel = channel
+  channel.subscribe((status, error) => {
+    // Statuses from a channel we've already replaced or closed
+    if (connection !== current || current.channel !== channel) return
+
+    if (status === 'SUBSCRIBED') {
+      current.failedAttempts = 0
+      subscribeHandlers.forEach(handler => handler())
+    } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+      if (error) {
+        console.error('Realtime channel error:', error)
+      }
+      scheduleReconnect(current)
+    }
+  })
+}
+
+// Drops the channel (supabase-js would otherwise keep retrying it on its own schedule) and opens
+// a new one after 1s, 2s, 4s… up to a minute, with jitter so clients don't all return at once
+function scheduleReconnect(current: Connection) {
+  const channel = current.channel
+  current.channel = null
+  if (channel) {
+    getSupabase().removeChannel(channel)
+  }
+
+  const delay = Math.min(
+    RECONNECT_BASE_DELAY_MS * 2 ** current.failedAttempts,
+    RECONNECT_MAX_DELAY_MS
+  )
+  current.failedAttempts += 1
+  current.reconnectTimer = window.setTimeout(
+    () => {
+      current.reconnectTimer = null
+      if (connection === current) {
+        openChannel(current)
+      }
+    },
+    delay / 2 + Math.random() * (delay / 2)
+  )
+}
+
+function closeConnection(current: Connection) {
+  if (current.reconnectTimer !== null) {
+    window.clearTimeout(current.reconnectTimer)
+  }
+  const channel = current.channel
+  current.channel = null
+  if (channel) {
+    getSupabase().removeChannel(channel)
+  }
+}
+
+// Keeps the user's channel open until the returned function is called. Each call needs its own
+// release, so mounting, unmounting and remounting a page (as StrictMode does) leaves one channel.
+// The local backend has no one else writing to it, so there is nothing to listen to.
+export function retainRealtime(userId: string): () => void {
+  if (getRepository().kind !== 'supabase') return () => {}
+
+  if (connection && connection.userId !== userId) {
+    closeConnection(connection)
+    connection = null
+  }
+
+  if (!connection) {
+    connection = { userId, refCount: 0, channel: null, failedAttempts: 0, reconnectTimer: null }
+    openChannel(connection)
+  }
+
+  const retained = connection
+  retained.refCount += 1
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+
+    retained.refCount -= 1
+    if (retained.refCount === 0 && connection === retained) {
+      closeConnection(retained)
+      connection = null
+    }
+  }
+}
@@ -0,0 +1,177 @@
+import {
+  Recurrence,
+  RecurrenceFrequency,
+  RecurrenceFrequencyKind,
+  DayOfWeek,
+} from '@/types/recurrence'
+import {
+  addDays,
+  differenceInCalendarDays,
+  getDate,
+  getDay,
+  getDaysInMonth,
+  isAfter,
+  parseISO,
+  setHours,
+  setMilliseconds,
+  setMinutes,
+  setSeconds,
+  startOfDay,
+} from 'date-fns'
+
+// Upper bound for the day-by-day search; covers any monthly pattern with room to spare
+const MAX_SEARCH_DAYS = 800
+
+const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const ordinals: Record<number, string> = {
+  1: '1st',
+  2: '2nd',
+  3: '3rd',
+  4: '4th',
+  5: '5th',
+  [-1]: 'last',
+}
+
+export const recurrenceFrequencyConfig: Record<
+  RecurrenceFrequencyKind,
+  { label: string; description: string }
+> = {
+  daily: {
+    label: 'Daily',
+    description: 'Every day',
+  },
+  every_n_days: {
+    label: 'Every N days',
+    description: 'Every few days',
+  },
+  weekdays: {
+    label: 'Days of the week',
+    description: 'On selected days each week',
+  },
+  day_of_month: {
+    label: 'Day of the month',
+    description: 'On the same date each month',
+  },
+  nth_weekday: {
+    label: 'Nth weekday',
+    description: 'e.g. the first Monday of each month',
+  },
+}
+
+export function isValidFrequency(frequency: RecurrenceFrequency): boolean {
+  switch (frequency.kind) {
+    case 'daily':
+      return true
+    case 'every_n_days':
+      return Number.isInteger(frequency.interval) && frequency.interval > 0
+    case 'weekdays':
+      return frequency.days.length > 0
+    case 'day_of_month':
+      return frequency.day === -1 || (frequency.day >= 1 && frequency.day <= 31)
+    case 'nth_weekday':
+      return frequency.week === -1 || (frequency.week >= 1 && frequency.week <= 5)
+    default:
+      return false
+  }
+}
+
+function matchesFrequency(frequency: RecurrenceFrequency, day: Date, anchor: Date): boolean {
+  switch (frequency.kind) {
+    case 'daily':
+      return true
+    case 'every_n_days': {
+      const diff = differenceInCalendarDays(day, anchor)
+      return diff >= 0 && diff % frequency.interval === 0
+    }
+    case 'weekdays':
+      return frequency.days.includes(getDay(day) as DayOfWeek)
+    case 'day_of_month': {
+      const daysInMonth = getDaysInMonth(day)
+      // Clamp to the month length so "the 31st" still fires in short months
+      const target = frequency.day === -1 ? daysInMonth : Math.min(frequency.day, daysInMonth)
+      return getDate(day) === target
+    }
+    case 'nth_weekday': {
+      if (getDay(day) !== frequency.weekday) return false
+      if (frequency.week === -1) return getDate(day) + 7 > getDaysInMonth(day)
+      return Math.ceil(getDate(day) / 7) === frequency.week
+    }
+    default:
+      return false
+  }
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  return setMilliseconds(
+    setSeconds(setMinutes(setHours(day, time.getHours()), time.getMinutes()), time.getSeconds()),
+    0
+  )
+}
+
+// First date matching the pattern strictly after `after`, keeping the time of day of `anchor`
+export function getNextOccurrence(
+  frequency: RecurrenceFrequency,
+  after: Date,
+  anchor: Date
+): Date | null {
+  if (!isValidFrequency(frequency)) return null
+
+  const firstDay = startOfDay(after)
+  for (let i = 0; i <= MAX_SEARCH_DAYS; i++) {
+    const day = addDays(firstDay, i)
+    if (!matchesFrequency(frequency, day, anchor)) continue
+
+    const candidate = withTimeOf(day, anchor)
+    if (isAfter(candidate, after)) return candidate
+  }
+
+  return null
+}
+
+// Next due date once the current occurrence is completed at `completedAt`.
+// Fixed schedules stay on the anchor's cadence and skip any occurrences already in the past;
+// after-completion schedules restart from the actual completion time.
+export function getNextDueDate(recurrence: Recurrence, completedAt: Date): Date | null {
+  if (recurrence.type === 'after_completion') {
+    return getNextOccurrence(recurrence.frequency, completedAt, completedAt)
+  }
+
+  const anchor = parseISO(recurrence.anchor_date ?? recurrence.next_due_date)
+  const currentDue = parseISO(recurrence.next_due_date)
+  const after = isAfter(completedAt, currentDue) ? completedAt : currentDue
+
+  return getNextOccurrence(recurrence.frequency, after, anchor)
+}
+
+export function getRecurrenceDescription(
+  recurrence: Pick<Recurrence, 'type' | 'frequency'>
+): string {
+  const { type, frequency } = recurrence
+  let description: string
+
+  switch (frequency.kind) {
+    case 'daily':
+      description = 'Daily'
+      break
+    case 'every_n_days':
+      description = frequency.interval === 1 ? 'Daily' : `Every ${frequency.interval} days`
+      break
+    case 'weekdays':
+      description = `Every ${[...frequency.days]
+        .sort((a, b) => a - b)
+        .map(d => dayNames[d])
+        .join(', ')}`
+      break
+    case 'day_of_month':
+      description =
+        frequency.day === -1 ? 'Monthly on the last day' : `Monthly on day ${frequency.day}`
+      break
+    case 'nth_weekday':
+      description = `Monthly on the ${ordinals[frequency.week]} ${dayNames[frequency.weekday]}`
+      break
+    default:
+      description = 'Custom'
+  }
+
+  return type === 'after_completion' ? `${description} after completion` : description
+}
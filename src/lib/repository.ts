@@ -0,0 +1,44 @@
+import { BackendKind, Repository } from '@/types/repository'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { createSupabaseRepository } from '@/lib/supabase-repository'
+import { createLocalRepository } from '@/lib/local-repository'
+import { getGuestUserId, useAuthStore } from '@/stores/authStore'
+
+// Picks the data backend once, at startup: VITE_DATA_BACKEND when set, otherwise Supabase if
+// it is configured and the browser if not
+function selectBackend(): BackendKind {
+  const configured = import.meta.env.VITE_DATA_BACKEND
+  if (configured === 'supabase' || configured === 'local') return configured
+  if (configured) {
+    console.error(`Unknown VITE_DATA_BACKEND "${configured}"`)
+  }
+  return isSupabaseConfigured ? 'supabase' : 'local'
+}
+
+export function createRepository(kind: BackendKind): Repository {
+  return kind === 'supabase'
+    ? createSupabaseRepository()
+    : createLocalRepository({ getUserId: () => useAuthStore.getState().user?.id ?? null })
+}
+
+let repository: Repository = createRepository(selectBackend())
+let guestRepository: Repository | null = null
+
+// Where the guest's data lives: this browser, whichever backend accounts use
+export function getGuestRepository(): Repository {
+  if (repository.kind === 'local') return repository
+
+  if (!guestRepository) {
+    guestRepository = createLocalRepository({ getUserId: getGuestUserId })
+  }
+  return guestRepository
+}
+
+export function getRepository(): Repository {
+  return useAuthStore.getState().isGuest ? getGuestRepository() : repository
+}
+
+// Swaps the backend, e.g. for an in-memory one in tests
+export function setRepository(next: Repository) {
+  repository = next
+}
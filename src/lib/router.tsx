@@ -3,6 +3,10 @@ import { LoginPage } from '@/pages/LoginPage'
 import { SignupPage } from '@/pages/SignupPage'
 import { DashboardPage } from '@/pages/DashboardPage'
 import { TagsPage } from '@/pages/TagsPage'
+import { HabitsPage } from '@/pages/HabitsPage'
+import { TasksPage } from '@/pages/TasksPage'
+import { BoardPage } from '@/pages/BoardPage'
+import { MatrixPage } from '@/pages/MatrixPage'
 import { TestTasksPage } from '@/pages/TestTasksPage'
 import { ProtectedRoute } from '@/components/ProtectedRoute'
 
@@ -27,6 +31,30 @@ export const router = createBrowserRouter([
       </ProtectedRoute>
     ),
   },
+  {
+    path: '/tasks',
+    element: (
+      <ProtectedRoute>
+        <TasksPage />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/board',
+    element: (
+      <ProtectedRoute>
+        <BoardPage />
+      </ProtectedRoute>
+    ),
+  },
+  {
+    path: '/matrix',
+    element: (
+      <ProtectedRoute>
+        <MatrixPage />
+      </ProtectedRoute>
+    ),
+  },
   {
     path: '/tags',
     element: (
@@ -35,6 +63,14 @@ export const router = createBrowserRouter([
       </ProtectedRoute>
     ),
   },
+  {
+    path: '/habits',
+    element: (
+      <ProtectedRoute>
+        <HabitsPage />
+      </ProtectedRoute>
+    ),
+  },
   {
     path: '/test-tasks',
     element: (
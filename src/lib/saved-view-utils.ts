@@ -0,0 +1,53 @@
+import { ViewMode, SavedViewSort } from '@/types/saved-view'
+import { TaskFilters, TaskSortBy } from '@/types/task'
+
+export const viewModeConfig: Record<ViewMode, { label: string; path: string }> = {
+  list: {
+    label: 'List',
+    path: '/tasks',
+  },
+  kanban: {
+    label: 'Board',
+    path: '/board',
+  },
+  eisenhower: {
+    label: 'Matrix',
+    path: '/matrix',
+  },
+  today: {
+    label: 'Today',
+    path: '/dashboard',
+  },
+  habits: {
+    label: 'Habits',
+    path: '/habits',
+  },
+}
+
+export const DEFAULT_VIEW_SORT: SavedViewSort = { field: 'created_at', direction: 'desc' }
+
+export const sortFieldConfig: Record<TaskSortBy, { label: string }> = {
+  created_at: { label: 'Created' },
+  updated_at: { label: 'Updated' },
+  due_date: { label: 'Due date' },
+  scheduled_date: { label: 'Scheduled date' },
+  title: { label: 'Title' },
+  order_index: { label: 'Manual order' },
+}
+
+export const VIEW_ICONS = ['📋', '📅', '🎯', '⭐', '🔥', '💼', '🏠', '✅', '🚀', '💡', '📌', '🔔']
+
+// Drops empty values so saved filters only contain what was actually set
+export function normalizeFilters(filters: TaskFilters): TaskFilters {
+  return Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => {
+      if (value === undefined || value === '') return false
+      if (Array.isArray(value)) return value.length > 0
+      return true
+    })
+  ) as TaskFilters
+}
+
+export function countActiveFilters(filters: TaskFilters): number {
+  return Object.keys(normalizeFilters(filters)).length
+}
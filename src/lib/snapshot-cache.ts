@@ -0,0 +1,73 @@
+// Local snapshots of store data (the last known tasks and tags), so the app can show them at
+// startup before the server has answered. Reads are synchronous so a store can start out with
+// its snapshot; writes are batched, since serialising thousands of rows on every change would
+// make each change noticeably slow.
+
+// Bump when the shape of stored rows changes; older snapshots are then ignored
+const SNAPSHOT_VERSION = 2
+const WRITE_DELAY_MS = 1000
+
+interface Snapshot<T> {
+  version: number
+  userId: string // A snapshot is only ever shown to the user it was taken for
+  data: T
+}
+
+const pendingWrites = new Map<string, { snapshot: Snapshot<unknown>; timer: number }>()
+
+function storageKey(name: string) {
+  return `${name}-snapshot`
+}
+
+function write(name: string, snapshot: Snapshot<unknown>) {
+  try {
+    localStorage.setItem(storageKey(name), JSON.stringify(snapshot))
+  } catch (error) {
+    // Most likely the storage quota; the next startup just loads from the server
+    console.error('Error saving local snapshot:', error)
+  }
+}
+
+// Don't lose the last change when the tab is closed within the write delay
+window.addEventListener('pagehide', () => {
+  pendingWrites.forEach(({ snapshot, timer }, name) => {
+    window.clearTimeout(timer)
+    write(name, snapshot)
+  })
+  pendingWrites.clear()
+})
+
+export function readSnapshot<T>(name: string): { userId: string; data: T } | null {
+  const stored = localStorage.getItem(storageKey(name))
+  if (!stored) return null
+
+  try {
+    const snapshot = JSON.parse(stored) as Snapshot<T>
+    return snapshot.version === SNAPSHOT_VERSION ? snapshot : null
+  } catch {
+    return null
+  }
+}
+
+export function writeSnapshot<T>(name: string, userId: string, data: T) {
+  const pending = pendingWrites.get(name)
+  if (pending) {
+    window.clearTimeout(pending.timer)
+  }
+
+  const snapshot = { version: SNAPSHOT_VERSION, userId, data }
+  const timer = window.setTimeout(() => {
+    pendingWrites.delete(name)
+    write(name, snapshot)
+  }, WRITE_DELAY_MS)
+  pendingWrites.set(name, { snapshot, timer })
+}
+
+export function clearSnapshot(name: string) {
+  const pending = pendingWrites.get(name)
+  if (pending) {
+    window.clearTimeout(pending.timer)
+    pendingWrites.delete(name)
+  }
+  localStorage.removeItem(storageKey(name))
+}
@@ -0,0 +1,54 @@
+import { Task } from '@/types/task'
+import { addDays, differenceInCalendarDays, isAfter, parseISO } from 'date-fns'
+
+export const SOMEDAY_CONFIG = {
+  defaultNudgeInterval: 30, // Days untouched before a someday task comes up for review
+  maxNudgeCount: 5, // After this many nudges, suggest dropping the task
+  nudgeIntervals: [
+    { days: 7, label: 'Weekly' },
+    { days: 14, label: 'Every 2 weeks' },
+    { days: 30, label: 'Monthly' },
+    { days: 90, label: 'Quarterly' },
+    { days: 180, label: 'Semi-annually' },
+  ],
+}
+
+type SomedayFields = Pick<
+  Task,
+  'type' | 'status' | 'nudge_threshold_days' | 'last_nudged_at' | 'nudge_count' | 'updated_at'
+>
+
+export function getNudgeThresholdDays(task: Pick<Task, 'nudge_threshold_days'>): number {
+  return task.nudge_threshold_days ?? SOMEDAY_CONFIG.defaultNudgeInterval
+}
+
+// Editing the task or answering a nudge both count as touching it
+export function getLastTouchedAt(task: Pick<Task, 'last_nudged_at' | 'updated_at'>): Date {
+  const updatedAt = parseISO(task.updated_at)
+  if (!task.last_nudged_at) return updatedAt
+
+  const lastNudgedAt = parseISO(task.last_nudged_at)
+  return isAfter(lastNudgedAt, updatedAt) ? lastNudgedAt : updatedAt
+}
+
+export function getNextNudgeDate(task: SomedayFields): Date | null {
+  if (task.type !== 'someday') return null
+  return addDays(getLastTouchedAt(task), getNudgeThresholdDays(task))
+}
+
+export function shouldNudgeSomedayTask(task: SomedayFields, now: Date = new Date()): boolean {
+  if (task.type !== 'someday' || task.status === 'completed' || task.status === 'archived') {
+    return false
+  }
+
+  const nextNudge = getNextNudgeDate(task)
+  return nextNudge !== null && !isAfter(nextNudge, now)
+}
+
+export function getDaysUntouched(task: SomedayFields, now: Date = new Date()): number {
+  return differenceInCalendarDays(now, getLastTouchedAt(task))
+}
+
+export function shouldSuggestDrop(task: Pick<Task, 'nudge_count'>): boolean {
+  return task.nudge_count >= SOMEDAY_CONFIG.maxNudgeCount
+}
@@ -0,0 +1,252 @@
+import { PostgrestSingleResponse } from '@supabase/supabase-js'
+import { getSupabase } from '@/lib/supabase'
+import { Repository, RepositoryError } from '@/types/repository'
+
+// The Supabase backend. Scoping to the signed-in user is left to the RLS policies, and
+// updated_at, cascades and tombstones to the database's own triggers.
+
+const PAGE_SIZE = 1000 // Supabase's default cap on rows per request
+const ID_BATCH_SIZE = 200 // Keeps `in` filters within a sane URL length
+
+type Result<T> = { data: T; error: null } | { data: null; error: RepositoryError }
+type Page<T> = PromiseLike<{ data: T[] | null; error: RepositoryError | null }>
+
+// Follows the pages of an ordered query until a short page comes back
+async function fetchAllPages<T>(page: (from: number, to: number) => Page<T>): Promise<Result<T[]>> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) {
+      return { data: null, error }
+    }
+
+    rows.push(...(data ?? []))
+    if (!data || data.length < PAGE_SIZE) {
+      return { data: rows, error: null }
+    }
+  }
+}
+
+function toBatches(ids: string[]): string[][] {
+  return Array.from({ length: Math.ceil(ids.length / ID_BATCH_SIZE) }, (_, i) =>
+    ids.slice(i * ID_BATCH_SIZE, (i + 1) * ID_BATCH_SIZE)
+  )
+}
+
+// Runs a query once per batch of ids (once in all when ids is null) and joins the rows
+async function fetchInBatches<T>(
+  ids: string[] | null,
+  fetch: (batch: string[] | null) => Promise<Result<T[]>>
+): Promise<Result<T[]>> {
+  const rows: T[] = []
+  for (const batch of ids ? toBatches(ids) : [null]) {
+    const { data, error } = await fetch(batch)
+    if (error) {
+      return { data: null, error }
+    }
+    rows.push(...data)
+  }
+  return { data: rows, error: null }
+}
+
+// Passes a query's response on as a repository result. Going through PostgrestSingleResponse
+// keeps supabase-js from inferring the row type from the (nullable) result type.
+async function settle<T>(query: PromiseLike<PostgrestSingleResponse<T>>): Promise<Result<T>> {
+  return await query
+}
+
+// Writes that return nothing useful resolve to null data
+async function withoutData(
+  write: PromiseLike<{ error: RepositoryError | null }>
+): Promise<Result<null>> {
+  const { error } = await write
+  return error ? { data: null, error } : { data: null, error: null }
+}
+
+export function createSupabaseRepository(): Repository {
+  return {
+    kind: 'supabase',
+
+    tasks: {
+      list: (options = {}) =>
+        fetchAllPages((from, to) => {
+          const query = getSupabase().from('tasks').select('*')
+          return (options.changedSince ? query.gt('updated_at', options.changedSince) : query)
+            .order('created_at', { ascending: false })
+            .order('id')
+            .range(from, to)
+        }),
+
+      get: id => settle(getSupabase().from('tasks').select().eq('id', id).maybeSingle()),
+
+      create: (task, tagIds) =>
+        settle(getSupabase().rpc('create_task_with_tags', { p_task: task, p_tag_ids: tagIds })),
+
+      update: (id, updates) =>
+        settle(getSupabase().from('tasks').update(updates).eq('id', id).select().single()),
+
+      updateMany: (ids, updates) =>
+        settle(getSupabase().from('tasks').update(updates).in('id', ids).select()),
+
+      reorder: async orderIndexes => {
+        const results = await Promise.all(
+          Object.entries(orderIndexes).map(([id, order_index]) =>
+            getSupabase().from('tasks').update({ order_index }).eq('id', id).select()
+          )
+        )
+
+        const failed = results.find(result => result.error)
+        return failed ?? { data: results.flatMap(result => result.data ?? []), error: null }
+      },
+
+      delete: id => withoutData(getSupabase().from('tasks').delete().eq('id', id)),
+
+      listDeletedSince: since =>
+        fetchAllPages((from, to) =>
+          getSupabase()
+            .from('deleted_rows')
+            .select('row_id, deleted_at')
+            .eq('table_name', 'tasks')
+            .gt('deleted_at', since)
+            .order('deleted_at')
+            .order('row_id')
+            .range(from, to)
+        ),
+
+      serverTime: () => settle(getSupabase().rpc('get_server_time')),
+    },
+
+    taskTags: {
+      list: taskIds =>
+        fetchInBatches(taskIds, batch =>
+          fetchAllPages((from, to) => {
+            const query = getSupabase().from('task_tags').select('*')
+            return (batch ? query.in('task_id', batch) : query)
+              .order('task_id')
+              .order('tag_id')
+              .range(from, to)
+          })
+        ),
+
+      add: (taskId, tagId) =>
+        withoutData(
+          getSupabase()
+            .from('task_tags')
+            .upsert(
+              { task_id: taskId, tag_id: tagId },
+              { onConflict: 'task_id,tag_id', ignoreDuplicates: true }
+            )
+        ),
+
+      remove: (taskId, tagId) =>
+        withoutData(
+          getSupabase().from('task_tags').delete().eq('task_id', taskId).eq('tag_id', tagId)
+        ),
+
+      replace: (taskId, tagIds) =>
+        withoutData(
+          getSupabase().rpc('replace_task_tags', { p_task_id: taskId, p_tag_ids: tagIds })
+        ),
+    },
+
+    tags: {
+      list: () =>
+        fetchAllPages((from, to) =>
+          getSupabase()
+            .from('tags')
+            .select('*')
+            .order('name', { ascending: true })
+            .order('id')
+            .range(from, to)
+        ),
+
+      create: tag => settle(getSupabase().from('tags').insert(tag).select().single()),
+
+      update: (id, updates) =>
+        settle(getSupabase().from('tags').update(updates).eq('id', id).select().single()),
+
+      delete: id => withoutData(getSupabase().from('tags').delete().eq('id', id)),
+    },
+
+    completions: {
+      list: taskIds =>
+        fetchInBatches(taskIds, batch =>
+          fetchAllPages((from, to) => {
+            const query = getSupabase().from('completions').select('*')
+            return (batch ? query.in('task_id', batch) : query)
+              .order('completed_at', { ascending: false })
+              .order('id')
+              .range(from, to)
+          })
+        ),
+
+      listForRecurrence: recurrenceId =>
+        fetchAllPages((from, to) =>
+          getSupabase()
+            .from('completions')
+            .select('*')
+            .eq('recurrence_id', recurrenceId)
+            .order('completed_at', { ascending: false })
+            .order('id')
+            .range(from, to)
+        ),
+
+      getLatest: taskId =>
+        settle(
+          getSupabase()
+            .from('completions')
+            .select()
+            .eq('task_id', taskId)
+            .order('completed_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        ),
+
+      create: completion =>
+        settle(getSupabase().from('completions').insert(completion).select().single()),
+
+      delete: id => withoutData(getSupabase().from('completions').delete().eq('id', id)),
+    },
+
+    recurrences: {
+      list: () =>
+        fetchAllPages((from, to) =>
+          getSupabase().from('recurrences').select('*').order('id').range(from, to)
+        ),
+
+      create: recurrence =>
+        settle(getSupabase().from('recurrences').insert(recurrence).select().single()),
+
+      update: (id, updates) =>
+        settle(getSupabase().from('recurrences').update(updates).eq('id', id).select().single()),
+
+      delete: id => withoutData(getSupabase().from('recurrences').delete().eq('id', id)),
+    },
+
+    savedViews: {
+      list: () =>
+        settle(
+          getSupabase().from('saved_views').select('*').order('position', { ascending: true })
+        ),
+
+      create: view => settle(getSupabase().from('saved_views').insert(view).select().single()),
+
+      update: (id, updates) =>
+        settle(getSupabase().from('saved_views').update(updates).eq('id', id).select().single()),
+
+      delete: id => withoutData(getSupabase().from('saved_views').delete().eq('id', id)),
+
+      setDefault: async id => {
+        // RLS limits the update to the user's own views
+        const cleared = await withoutData(
+          getSupabase().from('saved_views').update({ is_default: false }).eq('is_default', true)
+        )
+        if (cleared.error || !id) return cleared
+
+        return withoutData(
+          getSupabase().from('saved_views').update({ is_default: true }).eq('id', id)
+        )
+      },
+    },
+  }
+}
@@ -1,16 +1,29 @@
 import { createClient } from '@supabase/supabase-js'
+import { Database } from '@/types/database'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error('Missing Supabase environment variables')
-}
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+type Client = ReturnType<typeof createClient<Database>>
+
+let client: Client | null = null
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    autoRefreshToken: true,
-    persistSession: true,
-    detectSessionInUrl: true,
-  },
-})
+// Created on first use, so the app (and its stores) can load without a Supabase project
+export function getSupabase(): Client {
+  if (!client) {
+    if (!isSupabaseConfigured) {
+      throw new Error('Missing Supabase environment variables')
+    }
+
+    client = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+      auth: {
+        autoRefreshToken: true,
+        persistSession: true,
+        detectSessionInUrl: true,
+      },
+    })
+  }
+  return client
+}
@@ -0,0 +1,112 @@
+import { parseTodoistCsv, parseTodoistJson } from '@/lib/import-todoist'
+import { parseTickTickCsv } from '@/lib/import-ticktick'
+import { parseTaskwarriorJson } from '@/lib/import-taskwarrior'
+import { parseIcalTodos } from '@/lib/import-ical'
+import { useTagStore } from '@/stores/tagStore'
+import { useTaskStore } from '@/stores/taskStore'
+import { ImportedTag, ImportParser, ImportResult, ImportSource } from '@/types/import'
+import { Tag } from '@/types/tag'
+
+// Bringing tasks over from other apps: each source has a parser that reads its export into an
+// ImportResult, which is previewed and then created here
+
+export const importSourceConfig: Record<
+  ImportSource,
+  { label: string; description: string; accept: string; parse: ImportParser }
+> = {
+  todoist_csv: {
+    label: 'Todoist (CSV)',
+    description: 'A project exported from Todoist as CSV; the file name is used as the project',
+    accept: '.csv,text/csv',
+    parse: parseTodoistCsv,
+  },
+  todoist_json: {
+    label: 'Todoist (JSON)',
+    description: 'Tasks and projects from the Todoist API',
+    accept: '.json,application/json',
+    parse: parseTodoistJson,
+  },
+  ticktick_csv: {
+    label: 'TickTick',
+    description: 'The CSV backup from TickTick settings',
+    accept: '.csv,text/csv',
+    parse: parseTickTickCsv,
+  },
+  taskwarrior_json: {
+    label: 'Taskwarrior',
+    description: 'The JSON that task export prints',
+    accept: '.json,application/json',
+    parse: parseTaskwarriorJson,
+  },
+  ical: {
+    label: 'Calendar to-dos (.ics)',
+    description: 'To-dos (VTODO) from a calendar or task app; events are not imported',
+    accept: '.ics,text/calendar',
+    parse: parseIcalTodos,
+  },
+}
+
+// The existing tag each imported tag will be merged into: same name (ignoring case) under the
+// same parent. Tags without a match are created.
+export function matchExistingTags(imported: ImportedTag[], existing: Tag[]): Map<string, string> {
+  const matches = new Map<string, string>()
+  imported.forEach(tag => {
+    const parentId = tag.parentKey ? (matches.get(tag.parentKey) ?? null) : null
+    // A tag under a parent that will be created can't match anything yet
+    if (tag.parentKey && !parentId) return
+
+    const match = existing.find(
+      candidate =>
+        candidate.parent_id === parentId && candidate.name.toLowerCase() === tag.name.toLowerCase()
+    )
+    if (match) {
+      matches.set(tag.key, match.id)
+    }
+  })
+  return matches
+}
+
+// Creates the imported tags and tasks, parents first. Stops at the first failure, keeping what
+// was created until then.
+export async function commitImport(
+  result: ImportResult
+): Promise<{ data: { tasks: number; tags: number }; error: Error | null }> {
+  const tagIds = matchExistingTags(result.tags, useTagStore.getState().tags)
+  const created = { tasks: 0, tags: 0 }
+
+  for (const tag of result.tags) {
+    if (tagIds.has(tag.key) || !tag.name) continue
+
+    const { data, error } = await useTagStore.getState().createTag({
+      name: tag.name,
+      color: null,
+      gradient: null,
+      icon: null,
+      parent_id: tag.parentKey ? (tagIds.get(tag.parentKey) ?? null) : null,
+    })
+    if (error || !data) {
+      return { data: created, error: error ?? new Error(`Failed to create the tag "${tag.name}"`) }
+    }
+    tagIds.set(tag.key, data.id)
+    created.tags += 1
+  }
+
+  const taskIds = new Map<string, string>()
+  for (const task of result.tasks) {
+    const { data, error } = await useTaskStore.getState().createTask({
+      ...task.data,
+      parent_id: task.parentKey ? (taskIds.get(task.parentKey) ?? null) : null,
+      tags: task.tagKeys.flatMap(key => tagIds.get(key) ?? []),
+    })
+    if (error || !data) {
+      return {
+        data: created,
+        error: error ?? new Error(`Failed to create the task "${task.data.title}"`),
+      }
+    }
+    taskIds.set(task.key, data.id)
+    created.tasks += 1
+  }
+
+  return { data: created, error: null }
+}
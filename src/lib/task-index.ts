@@ -0,0 +1,67 @@
+import { format, parseISO } from 'date-fns'
+import { TaskWithTags } from '@/types/task'
+
+// Lookup maps over the task list, so finding a task, its subtasks, the tasks with a tag or the
+// tasks due on a day doesn't scan every task. Built once per version of the list and shared by
+// every caller.
+export interface TaskIndex {
+  byId: Map<string, TaskWithTags>
+  position: Map<string, number> // Place in the store's list, to keep results in list order
+  childrenByParent: Map<string, TaskWithTags[]>
+  byTag: Map<string, TaskWithTags[]>
+  byDueDay: Map<string, TaskWithTags[]> // Keyed by dueDayKey
+}
+
+// Local calendar day, as yyyy-MM-dd so keys also sort by date
+export function dueDayKey(date: Date | string): string {
+  return format(typeof date === 'string' ? parseISO(date) : date, 'yyyy-MM-dd')
+}
+
+function addTo(map: Map<string, TaskWithTags[]>, key: string, task: TaskWithTags) {
+  const bucket = map.get(key)
+  if (bucket) {
+    bucket.push(task)
+  } else {
+    map.set(key, [task])
+  }
+}
+
+export function buildTaskIndex(tasks: TaskWithTags[]): TaskIndex {
+  const index: TaskIndex = {
+    byId: new Map(),
+    position: new Map(),
+    childrenByParent: new Map(),
+    byTag: new Map(),
+    byDueDay: new Map(),
+  }
+
+  tasks.forEach((task, position) => {
+    index.byId.set(task.id, task)
+    index.position.set(task.id, position)
+    if (task.parent_id) addTo(index.childrenByParent, task.parent_id, task)
+    task.tags.forEach(tagId => addTo(index.byTag, tagId, task))
+    if (task.due_date) addTo(index.byDueDay, dueDayKey(task.due_date), task)
+  })
+
+  return index
+}
+
+// Tasks due on any day from `from` to `to` (inclusive day keys; either end may be open), in
+// list order
+export function getTasksDueBetween(
+  index: TaskIndex,
+  from: string | null,
+  to: string | null
+): TaskWithTags[] {
+  const tasks: TaskWithTags[] = []
+  index.byDueDay.forEach((bucket, day) => {
+    if ((from === null || day >= from) && (to === null || day <= to)) {
+      tasks.push(...bucket)
+    }
+  })
+  return sortByListOrder(index, tasks)
+}
+
+export function sortByListOrder(index: TaskIndex, tasks: TaskWithTags[]): TaskWithTags[] {
+  return tasks.sort((a, b) => index.position.get(a.id)! - index.position.get(b.id)!)
+}
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createLocalRepository } from '@/lib/local-repository'
+import { getRepository, setRepository } from '@/lib/repository'
+import { syncTasks } from '@/lib/task-sync'
+
+const userId = '9e4b2a61-3c7d-4f08-b5a2-6d1e8c0f7a34'
+
+beforeEach(() => {
+  setRepository(createLocalRepository({ getUserId: () => userId, persist: false }))
+})
+
+describe('syncTasks', () => {
+  it('takes the cursor from the server time when there are no tasks', async () => {
+    const before = Date.now()
+    const { data: first, error } = await syncTasks(null)
+
+    expect(error).toBeNull()
+    expect(first).toMatchObject({ rows: [], full: true })
+    expect(new Date(first!.cursor!).getTime()).toBeGreaterThanOrEqual(before)
+
+    const { data: second } = await syncTasks(first!.cursor)
+    expect(second).toMatchObject({ rows: [], full: false })
+  })
+
+  it('loads everything first, then only what changed', async () => {
+    await getRepository().tasks.create({ id: crypto.randomUUID(), title: 'Old' }, [])
+    const { data: first } = await syncTasks(null)
+
+    expect(first?.rows.map(row => row.title)).toEqual(['Old'])
+
+    const { data: created } = await getRepository().tasks.create(
+      { id: crypto.randomUUID(), title: 'New' },
+      []
+    )
+    await getRepository().tasks.delete(first!.rows[0].id)
+    const { data: second } = await syncTasks(first!.cursor)
+
+    expect(second).toMatchObject({ full: false, deletedIds: [first!.rows[0].id] })
+    expect(second?.rows.map(row => row.id)).toEqual([created!.id])
+  })
+
+  it('starts over with a full load once the cursor is older than the tombstones', async () => {
+    const cursor = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000).toISOString()
+
+    expect((await syncTasks(cursor)).data?.full).toBe(true)
+  })
+})
@@ -0,0 +1,128 @@
+import { getRepository } from '@/lib/repository'
+import { Tables } from '@/types/database'
+
+// Loading tasks from the server: every task on the first load, then only what changed since the
+// last sync. The sync cursor is the newest updated_at (or tombstone deleted_at) seen so far, or
+// the server's time of the sync when that is later, so it always comes from the server's clock.
+// An account with no tasks, or none changed in a while, still moves its cursor forward.
+
+// Must match how long 016_delta_sync.sql keeps tombstones; an older cursor could miss deletions
+const TOMBSTONE_RETENTION_DAYS = 30
+
+// Rows written in transactions that commit out of order can carry an updated_at just before the
+// cursor, so each delta reaches back a little; that also covers rows written between the query
+// and the server time read alongside it. Seeing a row twice is harmless.
+const CURSOR_OVERLAP_MS = 60_000
+
+export interface TaskSync {
+  rows: Tables<'tasks'>[] // Tasks created or changed since the cursor
+  tagIdsByTask: Map<string, string[]> // Tag links of those tasks
+  deletedIds: string[]
+  full: boolean // rows holds every task, so any task not in it is gone
+  cursor: string | null // Pass to the next sync
+}
+
+// Tag links of the given tasks (all tasks when taskIds is null), indexed by task
+async function fetchTagIdsByTask(
+  taskIds: string[] | null
+): Promise<{ data: Map<string, string[]>; error: Error | null }> {
+  const tagIdsByTask = new Map<string, string[]>()
+  const { data: links, error } = await getRepository().taskTags.list(taskIds)
+  if (error) {
+    return { data: tagIdsByTask, error: new Error(error.message) }
+  }
+
+  links.forEach(({ task_id, tag_id }) => {
+    const tagIds = tagIdsByTask.get(task_id)
+    if (tagIds) {
+      tagIds.push(tag_id)
+    } else {
+      tagIdsByTask.set(task_id, [tag_id])
+    }
+  })
+
+  return { data: tagIdsByTask, error: null }
+}
+
+function latestTimestamp(current: string | null, timestamps: string[]): string | null {
+  return timestamps.reduce<string | null>(
+    (latest, timestamp) =>
+      !latest || new Date(timestamp).getTime() > new Date(latest).getTime() ? timestamp : latest,
+    current
+  )
+}
+
+export async function syncTasks(
+  cursor: string | null
+): Promise<{ data: TaskSync | null; error: Error | null }> {
+  const cursorTime = cursor ? new Date(cursor).getTime() : null
+  const full =
+    cursorTime === null || Date.now() - cursorTime > TOMBSTONE_RETENTION_DAYS * 24 * 60 * 60 * 1000
+
+  if (full) {
+    const [{ data: rows, error }, serverTime] = await Promise.all([
+      getRepository().tasks.list(),
+      getRepository().tasks.serverTime(),
+    ])
+    if (error || serverTime.error) {
+      return { data: null, error: new Error((error ?? serverTime.error)!.message) }
+    }
+
+    const { data: tagIdsByTask, error: tagsError } = await fetchTagIdsByTask(null)
+    if (tagsError) {
+      return { data: null, error: tagsError }
+    }
+
+    return {
+      data: {
+        rows,
+        tagIdsByTask,
+        deletedIds: [],
+        full: true,
+        cursor: latestTimestamp(
+          serverTime.data,
+          rows.map(row => row.updated_at)
+        ),
+      },
+      error: null,
+    }
+  }
+
+  const since = new Date(cursorTime - CURSOR_OVERLAP_MS).toISOString()
+  const [changed, deleted, serverTime] = await Promise.all([
+    getRepository().tasks.list({ changedSince: since }),
+    getRepository().tasks.listDeletedSince(since),
+    getRepository().tasks.serverTime(),
+  ])
+
+  if (changed.error || deleted.error || serverTime.error) {
+    return {
+      data: null,
+      error: new Error((changed.error ?? deleted.error ?? serverTime.error)!.message),
+    }
+  }
+
+  const changedRows = changed.data
+  const tombstones = deleted.data
+  const { data: tagIdsByTask, error: tagsError } = await fetchTagIdsByTask(
+    changedRows.map(row => row.id)
+  )
+  if (tagsError) {
+    return { data: null, error: tagsError }
+  }
+
+  return {
+    data: {
+      rows: changedRows,
+      tagIdsByTask,
+      deletedIds: tombstones.map(tombstone => tombstone.row_id),
+      full: false,
+      cursor: latestTimestamp(cursor, [
+        serverTime.data,
+        ...changedRows.map(row => row.updated_at),
+        ...tombstones.map(tombstone => tombstone.deleted_at),
+      ]),
+    },
+    error: null,
+  }
+}
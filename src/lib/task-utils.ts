@@ -1,5 +1,6 @@
-import { Task, TaskStatus, TaskType } from '@/types/task'
-import { isToday, isPast, parseISO, isThisWeek } from 'date-fns'
+import { EisenhowerQuadrant, QuadrantLabels, Task, TaskStatus, TaskType } from '@/types/task'
+import { colors } from '@/lib/design-tokens'
+import { isToday, isPast, parseISO, isThisWeek, differenceInCalendarDays } from 'date-fns'
 
 export function isTaskOverdue(task: Task): boolean {
   if (!task.due_date || task.status === 'completed' || task.status === 'archived') {
@@ -23,7 +24,15 @@ export function isTaskDueThisWeek(task: Task): boolean {
   return isThisWeek(parseISO(task.due_date), { weekStartsOn: 0 }) // Week starts on Sunday
 }
 
-export function getTaskPriorityQuadrant(task: Task): 1 | 2 | 3 | 4 | null {
+// Late means completed on a day after the due day, matching isTaskOverdue
+export function isCompletionLate(task: Task, completedAt: Date): boolean {
+  if (!task.due_date) return false
+  return differenceInCalendarDays(completedAt, parseISO(task.due_date)) > 0
+}
+
+export function getTaskPriorityQuadrant(
+  task: Pick<Task, 'is_urgent' | 'is_important'>
+): EisenhowerQuadrant | null {
   const { is_urgent, is_important } = task
 
   if (is_urgent && is_important) return 1 // Do First
@@ -34,6 +43,46 @@ export function getTaskPriorityQuadrant(task: Task): 1 | 2 | 3 | 4 | null {
   return null
 }
 
+export const quadrantConfig: Record<
+  EisenhowerQuadrant,
+  { label: string; color: string; description: string }
+> = {
+  1: {
+    label: 'Do First',
+    color: colors.urgentImportant,
+    description: 'Urgent & Important',
+  },
+  2: {
+    label: 'Schedule',
+    color: colors.notUrgentImportant,
+    description: 'Not Urgent but Important',
+  },
+  3: {
+    label: 'Delegate',
+    color: colors.urgentNotImportant,
+    description: 'Urgent but Not Important',
+  },
+  4: {
+    label: 'Eliminate',
+    color: colors.notUrgentNotImportant,
+    description: 'Not Urgent & Not Important',
+  },
+}
+
+export function getQuadrantFlags(quadrant: EisenhowerQuadrant): {
+  is_urgent: boolean
+  is_important: boolean
+} {
+  return {
+    is_urgent: quadrant === 1 || quadrant === 3,
+    is_important: quadrant === 1 || quadrant === 2,
+  }
+}
+
+export function getQuadrantLabel(quadrant: EisenhowerQuadrant, labels: QuadrantLabels): string {
+  return labels[`q${quadrant}`]?.trim() || quadrantConfig[quadrant].label
+}
+
 export const taskStatusConfig: Record<
   TaskStatus,
   { label: string; color: string; description: string }
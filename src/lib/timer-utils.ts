@@ -0,0 +1,43 @@
+import { Task } from '@/types/task'
+import { ActiveTimer } from '@/types/timer'
+import { differenceInMilliseconds, parseISO } from 'date-fns'
+
+export const DEFAULT_TIMER_MINUTES = 25
+
+export const timerDurationOptions = [5, 10, 15, 25, 45, 60, 90]
+
+export function getTimerDuration(task: Pick<Task, 'timer_duration_minutes'>): number {
+  return task.timer_duration_minutes ?? DEFAULT_TIMER_MINUTES
+}
+
+export function getTimerElapsedMs(timer: ActiveTimer, now: Date = new Date()): number {
+  if (timer.status === 'paused') return timer.elapsedMs
+
+  // Clamp in case the clock moved backwards while the tab was closed
+  const running = Math.max(0, differenceInMilliseconds(now, parseISO(timer.startedAt)))
+  return timer.elapsedMs + running
+}
+
+export function getTimerRemainingMs(timer: ActiveTimer, now: Date = new Date()): number {
+  return Math.max(0, timer.durationMinutes * 60_000 - getTimerElapsedMs(timer, now))
+}
+
+export function getTimerProgress(timer: ActiveTimer, now: Date = new Date()): number {
+  const durationMs = timer.durationMinutes * 60_000
+  return Math.min(100, (getTimerElapsedMs(timer, now) / durationMs) * 100)
+}
+
+export function isTimerExpired(timer: ActiveTimer, now: Date = new Date()): boolean {
+  return getTimerRemainingMs(timer, now) === 0
+}
+
+// Countdown label, e.g. "24:59" or "1:05:00"
+export function formatTimerRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = totalSeconds % 60
+  const pad = (n: number) => String(n).padStart(2, '0')
+
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`
+}
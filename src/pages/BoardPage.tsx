@@ -0,0 +1,140 @@
+import { useEffect } from 'react'
+import { Typography, Spin, message } from 'antd'
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  closestCorners,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core'
+import { arrayMove, sortableKeyboardCoordinates } from '@dnd-kit/sortable'
+import { AppLayout } from '@/components/AppLayout'
+import { KanbanColumn } from '@/components/KanbanColumn'
+import { TaskFilterBar } from '@/components/TaskFilterBar'
+import { useTaskStore } from '@/stores/taskStore'
+import { useFilteredTasks } from '@/hooks/useTaskSelectors'
+import { useTagStore } from '@/stores/tagStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useUIStore } from '@/stores/uiStore'
+import { TaskStatus } from '@/types/task'
+import {
+  collapsibleKanbanColumns,
+  groupTasksByStatus,
+  kanbanColumnOrder,
+  mergeColumnOrder,
+} from '@/lib/kanban-utils'
+
+const { Title } = Typography
+
+export function BoardPage() {
+  const {
+    tasks,
+    loading,
+    fetchTasks,
+    moveTask,
+    reorderTasks,
+    subscribeToTasks,
+    unsubscribeFromTasks,
+  } = useTaskStore()
+  const filteredTasks = useFilteredTasks()
+  const { fetchTags } = useTagStore()
+  const { fetchRecurrences } = useRecurrenceStore()
+  const { kanbanWipLimits, collapsedKanbanColumns, setKanbanWipLimit, toggleKanbanColumn } =
+    useUIStore()
+
+  // Small activation distance so clicks on checkboxes and menus still register
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
+
+  useEffect(() => {
+    fetchTasks()
+    fetchTags()
+    fetchRecurrences()
+    subscribeToTasks()
+    return () => unsubscribeFromTasks()
+  }, [fetchTasks, fetchTags, fetchRecurrences, subscribeToTasks, unsubscribeFromTasks])
+
+  // Habits never change status, so they have no place on the board
+  const columns = groupTasksByStatus(filteredTasks.filter(task => task.type !== 'habit'))
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    if (!over) return
+
+    const fromStatus = active.data.current?.status as TaskStatus | undefined
+    const toStatus = over.data.current?.status as TaskStatus | undefined
+    if (!fromStatus || !toStatus) return
+
+    const taskId = String(active.id)
+    const targetIds = columns[toStatus].map(task => task.id)
+    // Positions are counted over the whole column, including cards the filters hide
+    const allColumns = groupTasksByStatus(tasks.filter(task => task.type !== 'habit'))
+    const columnIds = allColumns[toStatus].map(task => task.id)
+
+    if (fromStatus === toStatus) {
+      const oldIndex = targetIds.indexOf(taskId)
+      const newIndex = targetIds.indexOf(String(over.id))
+      if (newIndex === -1 || oldIndex === newIndex) return
+
+      const { error } = await reorderTasks(
+        mergeColumnOrder(columnIds, arrayMove(targetIds, oldIndex, newIndex))
+      )
+      if (error) message.error(error.message)
+      return
+    }
+
+    const { error } = await moveTask(taskId, toStatus)
+    if (error) {
+      message.error(error.message)
+      return
+    }
+
+    // Dropped on a card: take its slot; dropped on the column itself: go to the bottom
+    const overIndex = targetIds.indexOf(String(over.id))
+    const insertAt = overIndex === -1 ? targetIds.length : overIndex
+    targetIds.splice(insertAt, 0, taskId)
+
+    const { error: reorderError } = await reorderTasks(mergeColumnOrder(columnIds, targetIds))
+    if (reorderError) message.error(reorderError.message)
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6">
+        <Title level={2} className="!mb-4">
+          Board
+        </Title>
+        <TaskFilterBar />
+      </div>
+
+      {loading && tasks.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Spin size="large" />
+        </div>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={closestCorners} onDragEnd={handleDragEnd}>
+          <div className="flex gap-4 overflow-x-auto pb-4 items-start">
+            {kanbanColumnOrder.map(status => (
+              <KanbanColumn
+                key={status}
+                status={status}
+                tasks={columns[status]}
+                wipLimit={kanbanWipLimits[status]}
+                collapsed={collapsedKanbanColumns.includes(status)}
+                onToggleCollapsed={
+                  collapsibleKanbanColumns.includes(status)
+                    ? () => toggleKanbanColumn(status)
+                    : undefined
+                }
+                onWipLimitChange={limit => setKanbanWipLimit(status, limit)}
+              />
+            ))}
+          </div>
+        </DndContext>
+      )}
+    </AppLayout>
+  )
+}
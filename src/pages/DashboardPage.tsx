@@ -1,28 +1,42 @@
 import { useEffect, useState } from 'react'
-import { Tabs, Input, Typography, Spin } from 'antd'
+import { Tabs, Input, Typography, Spin, message } from 'antd'
 import { PlusOutlined, InboxOutlined, CalendarOutlined, ThunderboltOutlined } from '@ant-design/icons'
+import { useShallow } from 'zustand/react/shallow'
 import { AppLayout } from '@/components/AppLayout'
 import { TaskList } from '@/components/TaskList'
+import { SomedayReview } from '@/components/SomedayReview'
 import { useTaskStore } from '@/stores/taskStore'
-import { TaskFormData, TaskWithTags } from '@/types/task'
-import { isTaskDueToday, isTaskDueThisWeek } from '@/lib/task-utils'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { DashboardView, useDashboardTasks, useSomedayTasksToReview } from '@/hooks/useTaskSelectors'
+import { TaskFormData } from '@/types/task'
 
 const { Title } = Typography
 
-type ViewType = 'today' | 'week' | 'inbox'
-
 export function DashboardPage() {
-  const { tasks, loading, fetchTasks, createTask, subscribeToTasks, unsubscribeFromTasks } =
-    useTaskStore()
-  const [activeView, setActiveView] = useState<ViewType>('today')
+  const { loading, hasTasks, fetchTasks, createTask, subscribeToTasks, unsubscribeFromTasks } =
+    useTaskStore(
+      useShallow(state => ({
+        loading: state.loading,
+        hasTasks: state.tasks.length > 0,
+        fetchTasks: state.fetchTasks,
+        createTask: state.createTask,
+        subscribeToTasks: state.subscribeToTasks,
+        unsubscribeFromTasks: state.unsubscribeFromTasks,
+      }))
+    )
+  const somedayTasksToReview = useSomedayTasksToReview()
+  const { fetchRecurrences } = useRecurrenceStore()
+  const [activeView, setActiveView] = useState<DashboardView>('today')
+  const filteredTasks = useDashboardTasks(activeView)
   const [quickAddValue, setQuickAddValue] = useState('')
   const [quickAddLoading, setQuickAddLoading] = useState(false)
 
   useEffect(() => {
     fetchTasks()
+    fetchRecurrences()
     subscribeToTasks()
     return () => unsubscribeFromTasks()
-  }, [fetchTasks, subscribeToTasks, unsubscribeFromTasks])
+  }, [fetchTasks, fetchRecurrences, subscribeToTasks, unsubscribeFromTasks])
 
   const handleQuickAdd = async () => {
     if (!quickAddValue.trim()) return
@@ -35,7 +49,9 @@ export function DashboardPage() {
     }
 
     const { error } = await createTask(taskData)
-    if (!error) {
+    if (error) {
+      message.error(error.message)
+    } else {
       setQuickAddValue('')
     }
     setQuickAddLoading(false)
@@ -47,31 +63,6 @@ export function DashboardPage() {
     }
   }
 
-  // Filter tasks based on active view
-  const getFilteredTasks = (): TaskWithTags[] => {
-    // Exclude archived tasks from all views
-    const activeTasks = tasks.filter(task => task.status !== 'archived')
-
-    switch (activeView) {
-      case 'today':
-        // Tasks due today or overdue
-        return activeTasks.filter(
-          task => isTaskDueToday(task) || (task.due_date && new Date(task.due_date) < new Date() && !isTaskDueToday(task))
-        )
-
-      case 'week':
-        // Tasks due this week
-        return activeTasks.filter(task => isTaskDueThisWeek(task))
-
-      case 'inbox':
-      default:
-        // All non-archived tasks
-        return activeTasks
-    }
-  }
-
-  const filteredTasks = getFilteredTasks()
-
   const tabItems = [
     {
       key: 'today',
@@ -129,12 +120,15 @@ export function DashboardPage() {
           <Tabs
             activeKey={activeView}
             items={tabItems}
-            onChange={key => setActiveView(key as ViewType)}
+            onChange={key => setActiveView(key as DashboardView)}
           />
         </div>
 
+        {/* Someday Review */}
+        <SomedayReview tasks={somedayTasksToReview} />
+
         {/* Task List */}
-        {loading && tasks.length === 0 ? (
+        {loading && !hasTasks ? (
           <div className="flex justify-center py-12">
             <Spin size="large" />
           </div>
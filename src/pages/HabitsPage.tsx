@@ -0,0 +1,212 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button, Card, Col, Empty, Row, Spin, Statistic, Typography, message } from 'antd'
+import { PlusOutlined, FireOutlined, TrophyOutlined, CheckCircleOutlined } from '@ant-design/icons'
+import { AppLayout } from '@/components/AppLayout'
+import { HabitCard } from '@/components/HabitCard'
+import { TaskDetailModal } from '@/components/TaskDetailModal'
+import { TaskFormModal } from '@/components/TaskFormModal'
+import { useTaskStore } from '@/stores/taskStore'
+import { useCompletionStore } from '@/stores/completionStore'
+import { TaskWithTags } from '@/types/task'
+import { HabitTimeOfDay } from '@/types/habit'
+import { habitTimeOfDayConfig, isHabitDoneToday } from '@/lib/habit-utils'
+
+const { Title, Text } = Typography
+
+const timeOfDayOrder: HabitTimeOfDay[] = ['morning', 'afternoon', 'evening', 'anytime']
+
+export function HabitsPage() {
+  const {
+    tasks,
+    loading,
+    fetchTasks,
+    completeTask,
+    uncompleteTask,
+    deleteTask,
+    subscribeToTasks,
+    unsubscribeFromTasks,
+  } = useTaskStore()
+  const { fetchCompletions, getCompletionsForTask } = useCompletionStore()
+  const [detailHabit, setDetailHabit] = useState<TaskWithTags | null>(null)
+  const [editHabit, setEditHabit] = useState<TaskWithTags | null>(null)
+  const [showCreateModal, setShowCreateModal] = useState(false)
+  const [togglingId, setTogglingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchTasks()
+    subscribeToTasks()
+    return () => unsubscribeFromTasks()
+  }, [fetchTasks, subscribeToTasks, unsubscribeFromTasks])
+
+  const habits = useMemo(
+    () => tasks.filter(task => task.type === 'habit' && task.status !== 'archived'),
+    [tasks]
+  )
+
+  // Load the completion history behind the heatmaps once the habit set is known
+  const habitIdsKey = habits.map(habit => habit.id).join(',')
+  useEffect(() => {
+    if (habitIdsKey) {
+      fetchCompletions(habitIdsKey.split(','))
+    }
+  }, [habitIdsKey, fetchCompletions])
+
+  const groupedHabits = timeOfDayOrder
+    .map(timeOfDay => ({
+      timeOfDay,
+      habits: habits.filter(habit => (habit.time_of_day ?? 'anytime') === timeOfDay),
+    }))
+    .filter(group => group.habits.length > 0)
+
+  const doneTodayCount = habits.filter(habit => isHabitDoneToday(habit)).length
+  const activeStreakCount = habits.filter(habit => habit.current_streak > 0).length
+  const bestCurrentStreak = Math.max(0, ...habits.map(habit => habit.current_streak))
+
+  const handleToggleToday = async (habit: TaskWithTags) => {
+    const isDoneToday = isHabitDoneToday(habit)
+    const action = isDoneToday ? uncompleteTask : completeTask
+
+    setTogglingId(habit.id)
+    const { error } = await action(habit.id)
+    setTogglingId(null)
+
+    if (error) {
+      message.error(error.message)
+    } else if (!isDoneToday) {
+      message.success('Nice! Habit done for today')
+    }
+  }
+
+  const handleDelete = async (habit: TaskWithTags) => {
+    const { error } = await deleteTask(habit.id)
+    if (error) {
+      message.error(error.message)
+    } else {
+      message.success('Habit deleted')
+      setDetailHabit(null)
+    }
+  }
+
+  const handleLogCompletion = async (habit: TaskWithTags, completedAt: string) => {
+    const { error } = await completeTask(habit.id, completedAt)
+    if (error) {
+      message.error(error.message)
+    } else {
+      message.success('Completion logged')
+    }
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-5xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <Title level={2} className="!mb-0">
+            Habits
+          </Title>
+          <Button type="primary" icon={<PlusOutlined />} onClick={() => setShowCreateModal(true)}>
+            New Habit
+          </Button>
+        </div>
+
+        {/* Statistics */}
+        <Row gutter={16} className="mb-6">
+          <Col xs={12} md={6}>
+            <Card size="small">
+              <Statistic title="Habits" value={habits.length} />
+            </Card>
+          </Col>
+          <Col xs={12} md={6}>
+            <Card size="small">
+              <Statistic
+                title="Done today"
+                value={doneTodayCount}
+                suffix={`/ ${habits.length}`}
+                prefix={<CheckCircleOutlined />}
+              />
+            </Card>
+          </Col>
+          <Col xs={12} md={6}>
+            <Card size="small">
+              <Statistic
+                title="Active streaks"
+                value={activeStreakCount}
+                prefix={<FireOutlined />}
+              />
+            </Card>
+          </Col>
+          <Col xs={12} md={6}>
+            <Card size="small">
+              <Statistic
+                title="Best current streak"
+                value={bestCurrentStreak}
+                prefix={<TrophyOutlined />}
+              />
+            </Card>
+          </Col>
+        </Row>
+
+        {/* Habits grouped by time of day */}
+        {loading && tasks.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Spin size="large" />
+          </div>
+        ) : habits.length === 0 ? (
+          <Empty
+            image={Empty.PRESENTED_IMAGE_SIMPLE}
+            description="No habits yet"
+            className="py-12"
+          />
+        ) : (
+          groupedHabits.map(group => (
+            <div key={group.timeOfDay} className="mb-8">
+              <Text strong className="block mb-3 text-lg">
+                {habitTimeOfDayConfig[group.timeOfDay].icon}{' '}
+                {habitTimeOfDayConfig[group.timeOfDay].label}
+              </Text>
+              <Row gutter={[16, 16]}>
+                {group.habits.map(habit => (
+                  <Col key={habit.id} xs={24} lg={12}>
+                    <HabitCard
+                      habit={habit}
+                      completions={getCompletionsForTask(habit.id)}
+                      onToggleToday={() => handleToggleToday(habit)}
+                      onClick={() => setDetailHabit(habit)}
+                      loading={togglingId === habit.id}
+                    />
+                  </Col>
+                ))}
+              </Row>
+            </div>
+          ))
+        )}
+      </div>
+
+      {/* Habit Detail Modal */}
+      <TaskDetailModal
+        task={detailHabit}
+        open={!!detailHabit}
+        onClose={() => setDetailHabit(null)}
+        onEdit={() => {
+          setEditHabit(detailHabit)
+          setDetailHabit(null)
+        }}
+        onDelete={() => detailHabit && handleDelete(detailHabit)}
+        onComplete={() => detailHabit && handleToggleToday(detailHabit)}
+        onLogCompletion={completedAt =>
+          detailHabit && handleLogCompletion(detailHabit, completedAt)
+        }
+      />
+
+      {/* Create / Edit Habit Modal */}
+      <TaskFormModal
+        open={showCreateModal || !!editHabit}
+        task={editHabit}
+        defaultType="habit"
+        onClose={() => {
+          setShowCreateModal(false)
+          setEditHabit(null)
+        }}
+      />
+    </AppLayout>
+  )
+}
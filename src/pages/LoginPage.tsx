@@ -1,8 +1,9 @@
 import { useState } from 'react'
 import { Navigate, useNavigate, Link } from 'react-router-dom'
-import { Form, Input, Button, Card, Typography, Alert, Space } from 'antd'
+import { Form, Input, Button, Card, Typography, Alert, Space, Divider } from 'antd'
 import { MailOutlined, LockOutlined } from '@ant-design/icons'
 import { useAuthStore } from '@/stores/authStore'
+import { isSupabaseConfigured } from '@/lib/supabase'
 
 const { Title, Text } = Typography
 
@@ -13,12 +14,12 @@ interface LoginFormValues {
 
 export function LoginPage() {
   const navigate = useNavigate()
-  const { user, loading, signIn } = useAuthStore()
+  const { user, isGuest, loading, signIn, continueAsGuest } = useAuthStore()
   const [error, setError] = useState<string | null>(null)
   const [form] = Form.useForm()
 
-  // Redirect if already logged in
-  if (user) {
+  // Redirect if already logged in; a guest may sign in to an account instead
+  if (user && !isGuest) {
     return <Navigate to="/dashboard" replace />
   }
 
@@ -36,6 +37,11 @@ export function LoginPage() {
     navigate('/dashboard')
   }
 
+  const handleContinueAsGuest = () => {
+    continueAsGuest()
+    navigate('/dashboard')
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <Card className="w-full max-w-md">
@@ -58,56 +64,75 @@ export function LoginPage() {
             />
           )}
 
-          <Form
-            form={form}
-            name="login"
-            onFinish={handleSubmit}
-            layout="vertical"
-            requiredMark={false}
-            size="large"
-          >
-            <Form.Item
-              name="email"
-              label="Email"
-              rules={[
-                { required: true, message: 'Please enter your email' },
-                { type: 'email', message: 'Please enter a valid email' },
-              ]}
-            >
-              <Input
-                prefix={<MailOutlined />}
-                placeholder="you@example.com"
-                autoComplete="email"
-              />
-            </Form.Item>
-
-            <Form.Item
-              name="password"
-              label="Password"
-              rules={[{ required: true, message: 'Please enter your password' }]}
-            >
-              <Input.Password
-                prefix={<LockOutlined />}
-                placeholder="Enter your password"
-                autoComplete="current-password"
-              />
-            </Form.Item>
-
-            <Form.Item>
-              <Button type="primary" htmlType="submit" block loading={loading}>
-                Sign In
-              </Button>
-            </Form.Item>
-          </Form>
+          {isSupabaseConfigured ? (
+            <>
+              <Form
+                form={form}
+                name="login"
+                onFinish={handleSubmit}
+                layout="vertical"
+                requiredMark={false}
+                size="large"
+              >
+                <Form.Item
+                  name="email"
+                  label="Email"
+                  rules={[
+                    { required: true, message: 'Please enter your email' },
+                    { type: 'email', message: 'Please enter a valid email' },
+                  ]}
+                >
+                  <Input
+                    prefix={<MailOutlined />}
+                    placeholder="you@example.com"
+                    autoComplete="email"
+                  />
+                </Form.Item>
 
-          <div className="text-center">
-            <Text type="secondary">
-              Don't have an account?{' '}
-              <Link to="/signup" className="text-blue-500 hover:text-blue-600">
-                Sign up
-              </Link>
-            </Text>
-          </div>
+                <Form.Item
+                  name="password"
+                  label="Password"
+                  rules={[{ required: true, message: 'Please enter your password' }]}
+                >
+                  <Input.Password
+                    prefix={<LockOutlined />}
+                    placeholder="Enter your password"
+                    autoComplete="current-password"
+                  />
+                </Form.Item>
+
+                <Form.Item>
+                  <Button type="primary" htmlType="submit" block loading={loading}>
+                    Sign In
+                  </Button>
+                </Form.Item>
+              </Form>
+
+              <div className="text-center">
+                <Text type="secondary">
+                  Don't have an account?{' '}
+                  <Link to="/signup" className="text-blue-500 hover:text-blue-600">
+                    Sign up
+                  </Link>
+                </Text>
+              </div>
+            </>
+          ) : (
+            <Alert
+              message="Accounts are not available"
+              description="This copy of DoTheThing isn't connected to a server. You can still use it as a guest; everything is stored in this browser."
+              type="info"
+              showIcon
+            />
+          )}
+
+          <Divider plain className="!my-0">
+            <Text type="secondary">or</Text>
+          </Divider>
+
+          <Button block size="large" onClick={handleContinueAsGuest}>
+            {isGuest ? 'Back to guest mode' : 'Try it without an account'}
+          </Button>
         </Space>
       </Card>
     </div>
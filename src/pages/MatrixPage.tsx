@@ -0,0 +1,113 @@
+import { useEffect } from 'react'
+import { Typography, Spin, message } from 'antd'
+import {
+  DndContext,
+  DragEndEvent,
+  KeyboardSensor,
+  PointerSensor,
+  pointerWithin,
+  useSensor,
+  useSensors,
+} from '@dnd-kit/core'
+import { AppLayout } from '@/components/AppLayout'
+import { MatrixQuadrant } from '@/components/MatrixQuadrant'
+import { TaskFilterBar } from '@/components/TaskFilterBar'
+import { useTaskStore } from '@/stores/taskStore'
+import { useFilteredTasks } from '@/hooks/useTaskSelectors'
+import { useTagStore } from '@/stores/tagStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useUIStore } from '@/stores/uiStore'
+import { EisenhowerQuadrant, TaskWithTags } from '@/types/task'
+import { getQuadrantFlags, getQuadrantLabel, getTaskPriorityQuadrant } from '@/lib/task-utils'
+
+const { Title, Text } = Typography
+
+const quadrants: EisenhowerQuadrant[] = [1, 2, 3, 4]
+
+export function MatrixPage() {
+  const {
+    tasks,
+    loading,
+    fetchTasks,
+    getTaskById,
+    updateTask,
+    subscribeToTasks,
+    unsubscribeFromTasks,
+  } = useTaskStore()
+  const filteredTasks = useFilteredTasks()
+  const { fetchTags } = useTagStore()
+  const { fetchRecurrences } = useRecurrenceStore()
+  const { eisenhowerQuadrantLabels, setQuadrantLabel } = useUIStore()
+
+  // Small activation distance so clicks on checkboxes and menus still register
+  const sensors = useSensors(
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  )
+
+  useEffect(() => {
+    fetchTasks()
+    fetchTags()
+    fetchRecurrences()
+    subscribeToTasks()
+    return () => unsubscribeFromTasks()
+  }, [fetchTasks, fetchTags, fetchRecurrences, subscribeToTasks, unsubscribeFromTasks])
+
+  // Only open work needs triaging; habits have no priority
+  const openTasks = filteredTasks.filter(
+    task => task.type !== 'habit' && task.status !== 'completed' && task.status !== 'archived'
+  )
+  const tasksByQuadrant = quadrants.reduce(
+    (groups, quadrant) => ({
+      ...groups,
+      [quadrant]: openTasks.filter(task => getTaskPriorityQuadrant(task) === quadrant),
+    }),
+    {} as Record<EisenhowerQuadrant, TaskWithTags[]>
+  )
+
+  const handleDragEnd = async ({ active, over }: DragEndEvent) => {
+    const quadrant = over?.data.current?.quadrant as EisenhowerQuadrant | undefined
+    const task = getTaskById(String(active.id))
+    if (!quadrant || !task || getTaskPriorityQuadrant(task) === quadrant) return
+
+    const { error } = await updateTask(task.id, getQuadrantFlags(quadrant))
+    if (error) {
+      message.error(error.message)
+    }
+  }
+
+  return (
+    <AppLayout>
+      <div className="mb-6">
+        <Title level={2} className="!mb-1">
+          Eisenhower Matrix
+        </Title>
+        <Text type="secondary" className="block mb-4">
+          Drag tasks between quadrants to set urgency and importance. Click a quadrant name to
+          rename it.
+        </Text>
+        <TaskFilterBar />
+      </div>
+
+      {loading && tasks.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Spin size="large" />
+        </div>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={pointerWithin} onDragEnd={handleDragEnd}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {quadrants.map(quadrant => (
+              <MatrixQuadrant
+                key={quadrant}
+                quadrant={quadrant}
+                label={getQuadrantLabel(quadrant, eisenhowerQuadrantLabels)}
+                tasks={tasksByQuadrant[quadrant]}
+                onRename={label => setQuadrantLabel(quadrant, label)}
+              />
+            ))}
+          </div>
+        </DndContext>
+      )}
+    </AppLayout>
+  )
+}
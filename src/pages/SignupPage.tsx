@@ -14,25 +14,32 @@ interface SignupFormValues {
 
 export function SignupPage() {
   const navigate = useNavigate()
-  const { user, loading, signUp } = useAuthStore()
+  const { user, isGuest, loading, signUp } = useAuthStore()
   const [error, setError] = useState<string | null>(null)
+  const [confirmationEmail, setConfirmationEmail] = useState<string | null>(null)
   const [form] = Form.useForm()
 
-  // Redirect if already logged in
-  if (user) {
+  // Redirect if already logged in; guests come here to create their account
+  if (user && !isGuest) {
     return <Navigate to="/dashboard" replace />
   }
 
   const handleSubmit = async (values: SignupFormValues) => {
     setError(null)
 
-    const { error } = await signUp(values.email, values.password)
+    const { error, needsConfirmation } = await signUp(values.email, values.password)
 
     if (error) {
       setError(error.message)
       return
     }
 
+    // Signed in once the address is confirmed; a guest stays one until then
+    if (needsConfirmation) {
+      setConfirmationEmail(values.email)
+      return
+    }
+
     // Navigate to dashboard on success
     navigate('/dashboard')
   }
@@ -48,6 +55,15 @@ export function SignupPage() {
             <Text type="secondary">Start organizing your tasks with DoTheThing</Text>
           </div>
 
+          {confirmationEmail && (
+            <Alert
+              message="Confirm your email"
+              description={`We sent a link to ${confirmationEmail}. Open it to finish creating your account.`}
+              type="success"
+              showIcon
+            />
+          )}
+
           {error && (
             <Alert
               message="Signup Failed"
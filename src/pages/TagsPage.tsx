@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import {
   Button,
   Card,
@@ -18,11 +18,13 @@ import {
   MoreOutlined,
   FolderOutlined,
   TagOutlined,
+  CalendarOutlined,
 } from '@ant-design/icons'
 import type { MenuProps, TreeDataNode } from 'antd'
 import { AppLayout } from '@/components/AppLayout'
 import { Tag } from '@/components/Tag'
 import { TagFormModal } from '@/components/TagFormModal'
+import { CalendarExportModal } from '@/components/CalendarExportModal'
 import { useTagStore } from '@/stores/tagStore'
 import { Tag as TagType, TagWithChildren } from '@/types/tag'
 
@@ -34,6 +36,11 @@ export function TagsPage() {
   const [isFormOpen, setIsFormOpen] = useState(false)
   const [editingTag, setEditingTag] = useState<TagType | null>(null)
   const [selectedTagId, setSelectedTagId] = useState<string | null>(null)
+  const [calendarTag, setCalendarTag] = useState<TagType | null>(null)
+  const calendarFilters = useMemo(
+    () => ({ tags: calendarTag ? [calendarTag.id] : [] }),
+    [calendarTag]
+  )
 
   useEffect(() => {
     fetchTags()
@@ -91,6 +98,12 @@ export function TagsPage() {
       icon: <PlusOutlined />,
       onClick: () => handleCreateChild(tag),
     },
+    {
+      key: 'calendar',
+      label: 'Download Calendar',
+      icon: <CalendarOutlined />,
+      onClick: () => setCalendarTag(tag),
+    },
     {
       type: 'divider',
     },
@@ -180,6 +193,13 @@ export function TagsPage() {
             setEditingTag(null)
           }}
         />
+
+        <CalendarExportModal
+          open={!!calendarTag}
+          name={calendarTag?.name ?? ''}
+          filters={calendarFilters}
+          onClose={() => setCalendarTag(null)}
+        />
       </div>
     </AppLayout>
   )
@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import { Button, Space, Typography, Spin, Tag as AntTag, message } from 'antd'
+import { SaveOutlined, EditOutlined } from '@ant-design/icons'
+import { AppLayout } from '@/components/AppLayout'
+import { TaskList } from '@/components/TaskList'
+import { TaskFilterBar } from '@/components/TaskFilterBar'
+import { SavedViewFormModal } from '@/components/SavedViewFormModal'
+import { useTaskStore } from '@/stores/taskStore'
+import { useFilteredTasks } from '@/hooks/useTaskSelectors'
+import { useTagStore } from '@/stores/tagStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { SavedView } from '@/types/saved-view'
+import { normalizeFilters } from '@/lib/saved-view-utils'
+
+const { Title } = Typography
+
+export function TasksPage() {
+  const {
+    tasks,
+    loading,
+    filters,
+    sortBy,
+    sortOrder,
+    fetchTasks,
+    subscribeToTasks,
+    unsubscribeFromTasks,
+  } = useTaskStore()
+  const filteredTasks = useFilteredTasks()
+  const { fetchTags } = useTagStore()
+  const { fetchRecurrences } = useRecurrenceStore()
+  const { currentViewId, getViewById, updateView } = useSavedViewStore()
+  const [formView, setFormView] = useState<SavedView | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+
+  useEffect(() => {
+    fetchTasks()
+    fetchTags()
+    fetchRecurrences()
+    subscribeToTasks()
+    return () => unsubscribeFromTasks()
+  }, [fetchTasks, fetchTags, fetchRecurrences, subscribeToTasks, unsubscribeFromTasks])
+
+  const currentView = currentViewId ? getViewById(currentViewId) : undefined
+  const isModified =
+    !!currentView &&
+    (JSON.stringify(normalizeFilters(filters)) !==
+      JSON.stringify(normalizeFilters(currentView.filters)) ||
+      sortBy !== currentView.sort_order.field ||
+      sortOrder !== currentView.sort_order.direction)
+
+  const handleSaveNew = () => {
+    setFormView(null)
+    setIsFormOpen(true)
+  }
+
+  const handleEditView = (view: SavedView) => {
+    setFormView(view)
+    setIsFormOpen(true)
+  }
+
+  const handleUpdateView = async (view: SavedView) => {
+    const { error } = await updateView(view.id, {
+      filters,
+      sort_order: { field: sortBy, direction: sortOrder },
+    })
+    if (error) {
+      message.error(error.message)
+    } else {
+      message.success('View updated')
+    }
+  }
+
+  return (
+    <AppLayout>
+      <div className="max-w-4xl mx-auto">
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-4">
+            <Space align="center">
+              <Title level={2} className="!mb-0">
+                {currentView ? `${currentView.icon ?? ''} ${currentView.name}`.trim() : 'All Tasks'}
+              </Title>
+              {isModified && <AntTag color="warning">Modified</AntTag>}
+            </Space>
+
+            <Space>
+              {currentView && (
+                <Button icon={<EditOutlined />} onClick={() => handleEditView(currentView)}>
+                  Edit View
+                </Button>
+              )}
+              {currentView && isModified && (
+                <Button onClick={() => handleUpdateView(currentView)}>Update View</Button>
+              )}
+              <Button type="primary" icon={<SaveOutlined />} onClick={handleSaveNew}>
+                Save as View
+              </Button>
+            </Space>
+          </div>
+
+          <TaskFilterBar />
+        </div>
+
+        {loading && tasks.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Spin size="large" />
+          </div>
+        ) : (
+          <TaskList
+            tasks={filteredTasks}
+            compact={currentView?.display_options?.compact ?? false}
+            emptyMessage="No tasks match these filters"
+          />
+        )}
+      </div>
+
+      <SavedViewFormModal
+        open={isFormOpen}
+        view={formView}
+        onClose={() => setIsFormOpen(false)}
+        onSuccess={view => useSavedViewStore.getState().applyView(view.id)}
+      />
+    </AppLayout>
+  )
+}
@@ -5,6 +5,7 @@ import { AppLayout } from '@/components/AppLayout'
 import { TaskList } from '@/components/TaskList'
 import { TaskFormModal } from '@/components/TaskFormModal'
 import { useTaskStore } from '@/stores/taskStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
 import { TaskFormData } from '@/types/task'
 
 const { Title, Text } = Typography
@@ -12,13 +13,15 @@ const { Title, Text } = Typography
 export function TestTasksPage() {
   const { tasks, loading, fetchTasks, createTask, subscribeToTasks, unsubscribeFromTasks } =
     useTaskStore()
+  const { fetchRecurrences } = useRecurrenceStore()
   const [showCreateModal, setShowCreateModal] = useState(false)
 
   useEffect(() => {
     fetchTasks()
+    fetchRecurrences()
     subscribeToTasks()
     return () => unsubscribeFromTasks()
-  }, [fetchTasks, subscribeToTasks, unsubscribeFromTasks])
+  }, [fetchTasks, fetchRecurrences, subscribeToTasks, unsubscribeFromTasks])
 
   const handleCreateTest = async () => {
     const testTask: TaskFormData = {
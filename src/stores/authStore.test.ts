@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { Session, User } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { getGuestUserId, useAuthStore } from '@/stores/authStore'
+
+const signUp = vi.fn()
+
+vi.mock('@/lib/supabase', () => ({
+  isSupabaseConfigured: true,
+  getSupabase: () => ({ auth: { signUp } }),
+}))
+
+const user = { id: 'a3d1c5e7-0b2f-4e6a-9c8d-1f2e3a4b5c6d' } as User
+
+beforeEach(() => {
+  localStorage.clear()
+  useAuthStore.setState({ user: null, session: null, isGuest: false })
+  useAuthStore.getState().continueAsGuest()
+})
+
+describe('useAuthStore.signUp', () => {
+  it('stays the guest while the email address waits to be confirmed', async () => {
+    const guestId = getGuestUserId()
+    signUp.mockResolvedValue({ data: { user, session: null }, error: null })
+
+    expect(await useAuthStore.getState().signUp('me@example.com', 'password1')).toEqual({
+      error: null,
+      needsConfirmation: true,
+    })
+
+    expect(useAuthStore.getState()).toMatchObject({ isGuest: true, session: null })
+    expect(useAuthStore.getState().user?.id).toBe(guestId)
+  })
+
+  it('signs in right away when there is a session, keeping the guest for the move', async () => {
+    const guestId = getGuestUserId()
+    const session = { user } as Session
+    signUp.mockResolvedValue({ data: { user, session }, error: null })
+
+    expect(await useAuthStore.getState().signUp('me@example.com', 'password1')).toEqual({
+      error: null,
+      needsConfirmation: false,
+    })
+
+    expect(useAuthStore.getState()).toMatchObject({ user, session, isGuest: false })
+    expect(getGuestUserId()).toBe(guestId)
+  })
+})
@@ -1,30 +1,81 @@
 import { create } from 'zustand'
 import { User, Session, AuthError } from '@supabase/supabase-js'
-import { supabase } from '@/lib/supabase'
+import { getSupabase, isSupabaseConfigured } from '@/lib/supabase'
+
+// The guest whose data is kept in this browser, and whether the app is currently used as them.
+// The guest outlives a sign-in, so their data can still be moved into the account afterwards.
+const GUEST_KEY = 'guest-user'
+const GUEST_ACTIVE_KEY = 'guest-active'
+
+interface StoredGuest {
+  id: string
+  created_at: string
+}
+
+function readGuest(): StoredGuest | null {
+  const stored = localStorage.getItem(GUEST_KEY)
+  if (!stored) return null
+
+  try {
+    return JSON.parse(stored) as StoredGuest
+  } catch {
+    return null
+  }
+}
+
+// Shaped like a Supabase user so the rest of the app doesn't have to tell guests apart
+function toGuestUser(guest: StoredGuest): User {
+  return {
+    id: guest.id,
+    aud: 'guest',
+    app_metadata: {},
+    user_metadata: {},
+    created_at: guest.created_at,
+    is_anonymous: true,
+  }
+}
+
+export function getGuestUserId(): string | null {
+  return readGuest()?.id ?? null
+}
+
+// Once their data has been moved or discarded; the next guest starts afresh
+export function forgetGuest() {
+  localStorage.removeItem(GUEST_KEY)
+  localStorage.removeItem(GUEST_ACTIVE_KEY)
+}
 
 interface AuthState {
   user: User | null
   session: Session | null
+  isGuest: boolean // Signed in as the browser's local pseudo-user, with no account
   loading: boolean
   initialized: boolean
 
   // Actions
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>
-  signUp: (email: string, password: string) => Promise<{ error: AuthError | null }>
+  // needsConfirmation: the account waits for its email address to be confirmed, and nobody is
+  // signed in until then
+  signUp: (
+    email: string,
+    password: string
+  ) => Promise<{ error: AuthError | null; needsConfirmation: boolean }>
   signOut: () => Promise<void>
+  continueAsGuest: () => void
   initialize: () => Promise<void>
 }
 
-export const useAuthStore = create<AuthState>(set => ({
+export const useAuthStore = create<AuthState>((set, get) => ({
   user: null,
   session: null,
+  isGuest: false,
   loading: false,
   initialized: false,
 
   signIn: async (email: string, password: string) => {
     set({ loading: true })
 
-    const { data, error } = await supabase.auth.signInWithPassword({
+    const { data, error } = await getSupabase().auth.signInWithPassword({
       email,
       password,
     })
@@ -34,9 +85,11 @@ export const useAuthStore = create<AuthState>(set => ({
       return { error }
     }
 
+    localStorage.removeItem(GUEST_ACTIVE_KEY)
     set({
       user: data.user,
       session: data.session,
+      isGuest: false,
       loading: false,
     })
 
@@ -46,29 +99,45 @@ export const useAuthStore = create<AuthState>(set => ({
   signUp: async (email: string, password: string) => {
     set({ loading: true })
 
-    const { data, error } = await supabase.auth.signUp({
+    const { data, error } = await getSupabase().auth.signUp({
       email,
       password,
     })
 
     if (error) {
       set({ loading: false })
-      return { error }
+      return { error, needsConfirmation: false }
     }
 
+    // With email confirmation on there is a user but no session yet. The app carries on as
+    // before (as the guest, if it was one) until the SIGNED_IN that follows confirming.
+    if (!data.session) {
+      set({ loading: false })
+      return { error: null, needsConfirmation: true }
+    }
+
+    localStorage.removeItem(GUEST_ACTIVE_KEY)
     set({
       user: data.user,
       session: data.session,
+      isGuest: false,
       loading: false,
     })
 
-    return { error: null }
+    return { error: null, needsConfirmation: false }
   },
 
   signOut: async () => {
+    // A guest's data stays in the browser for when they come back
+    if (get().isGuest) {
+      localStorage.removeItem(GUEST_ACTIVE_KEY)
+      set({ user: null, isGuest: false })
+      return
+    }
+
     set({ loading: true })
 
-    await supabase.auth.signOut()
+    await getSupabase().auth.signOut()
 
     set({
       user: null,
@@ -77,26 +146,54 @@ export const useAuthStore = create<AuthState>(set => ({
     })
   },
 
+  continueAsGuest: () => {
+    let guest = readGuest()
+    if (!guest) {
+      guest = { id: crypto.randomUUID(), created_at: new Date().toISOString() }
+      localStorage.setItem(GUEST_KEY, JSON.stringify(guest))
+    }
+    localStorage.setItem(GUEST_ACTIVE_KEY, 'true')
+
+    set({ user: toGuestUser(guest), session: null, isGuest: true })
+  },
+
   initialize: async () => {
+    const guest = localStorage.getItem(GUEST_ACTIVE_KEY) ? readGuest() : null
+
+    // Without a Supabase project there is no one to sign in as, so everyone is the guest
+    if (!isSupabaseConfigured) {
+      get().continueAsGuest()
+      set({ initialized: true })
+      return
+    }
+
     set({ loading: true })
 
     // Get initial session
     const {
       data: { session },
-    } = await supabase.auth.getSession()
+    } = await getSupabase().auth.getSession()
 
     set({
-      user: session?.user ?? null,
+      user: session?.user ?? (guest ? toGuestUser(guest) : null),
       session,
+      isGuest: !session && guest !== null,
       loading: false,
       initialized: true,
     })
 
     // Listen for auth changes
-    supabase.auth.onAuthStateChange((_event, session) => {
+    getSupabase().auth.onAuthStateChange((_event, session) => {
+      // Supabase knows nothing of the guest; only a real session replaces them
+      if (!session && get().isGuest) return
+
+      if (session) {
+        localStorage.removeItem(GUEST_ACTIVE_KEY)
+      }
       set({
         user: session?.user ?? null,
         session,
+        isGuest: false,
       })
     })
   },
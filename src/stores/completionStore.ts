@@ -0,0 +1,152 @@
+import { create } from 'zustand'
+import { getRepository } from '@/lib/repository'
+import { Completion } from '@/types/completion'
+
+interface CompletionState {
+  completions: Completion[]
+  loading: boolean
+  error: string | null
+
+  // Actions
+  fetchCompletions: (taskIds?: string | string[]) => Promise<void>
+  fetchSeriesCompletions: (recurrenceId: string) => Promise<void>
+  recordCompletion: (
+    taskId: string,
+    data: Pick<Completion, 'completed_at' | 'was_late' | 'was_retroactive'> &
+      Partial<Pick<Completion, 'id' | 'recurrence_id'>>
+  ) => Promise<{ data: Completion | null; error: Error | null }>
+  removeCompletion: (id: string) => Promise<{ error: Error | null }>
+  removeLatestCompletion: (taskId: string) => Promise<{ error: Error | null }>
+
+  // Getters
+  getCompletionsForTask: (taskId: string) => Completion[]
+  getCompletionsForSeries: (recurrenceId: string) => Completion[]
+}
+
+const byCompletedAtDesc = (a: Completion, b: Completion) =>
+  b.completed_at.localeCompare(a.completed_at)
+
+export const useCompletionStore = create<CompletionState>((set, get) => ({
+  completions: [],
+  loading: false,
+  error: null,
+
+  fetchCompletions: async (taskIds?: string | string[]) => {
+    set({ loading: true, error: null })
+
+    const ids = taskIds === undefined ? null : Array.isArray(taskIds) ? taskIds : [taskIds]
+    if (ids && ids.length === 0) {
+      set({ loading: false })
+      return
+    }
+
+    const { data, error } = await getRepository().completions.list(ids)
+
+    if (error) {
+      set({ error: error.message, loading: false })
+      return
+    }
+
+    // Fetching specific tasks only replaces those tasks' history
+    set(state => ({
+      completions: ids
+        ? [...state.completions.filter(c => !ids.includes(c.task_id)), ...(data || [])]
+        : data || [],
+      loading: false,
+    }))
+  },
+
+  // Every occurrence of a recurring task is its own task; the series ties their history together
+  fetchSeriesCompletions: async (recurrenceId: string) => {
+    set({ loading: true, error: null })
+
+    const { data, error } = await getRepository().completions.listForRecurrence(recurrenceId)
+
+    if (error) {
+      set({ error: error.message, loading: false })
+      return
+    }
+
+    const ids = new Set(data.map(c => c.id))
+    set(state => ({
+      completions: [
+        ...state.completions.filter(c => c.recurrence_id !== recurrenceId && !ids.has(c.id)),
+        ...data,
+      ],
+      loading: false,
+    }))
+  },
+
+  recordCompletion: async (taskId, data) => {
+    const { data: completion, error } = await getRepository().completions.create({
+      task_id: taskId,
+      ...data,
+    })
+
+    // A completion with a client-generated id that is already stored was recorded by an
+    // earlier attempt at the same change
+    if (error?.code === '23505' && data.id) {
+      return { data: get().completions.find(c => c.id === data.id) ?? null, error: null }
+    }
+
+    if (error) {
+      return { data: null, error: new Error(error.message) }
+    }
+
+    set(state => ({
+      completions: [completion, ...state.completions],
+    }))
+
+    return { data: completion, error: null }
+  },
+
+  removeCompletion: async (id: string) => {
+    const { error } = await getRepository().completions.delete(id)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    set(state => ({
+      completions: state.completions.filter(c => c.id !== id),
+    }))
+
+    return { error: null }
+  },
+
+  removeLatestCompletion: async (taskId: string) => {
+    const { data: latest, error: fetchError } = await getRepository().completions.getLatest(taskId)
+
+    if (fetchError) {
+      return { error: new Error(fetchError.message) }
+    }
+
+    if (!latest) {
+      return { error: null }
+    }
+
+    const { error } = await getRepository().completions.delete(latest.id)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    set(state => ({
+      completions: state.completions.filter(c => c.id !== latest.id),
+    }))
+
+    return { error: null }
+  },
+
+  getCompletionsForTask: (taskId: string) => {
+    return get()
+      .completions.filter(c => c.task_id === taskId)
+      .sort(byCompletedAtDesc)
+  },
+
+  getCompletionsForSeries: (recurrenceId: string) => {
+    return get()
+      .completions.filter(c => c.recurrence_id === recurrenceId)
+      .sort(byCompletedAtDesc)
+  },
+}))
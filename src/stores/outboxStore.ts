@@ -0,0 +1,122 @@
+import { create } from 'zustand'
+import { OutboxConflict, OutboxConflictReason, OutboxEntry } from '@/types/outbox'
+import { deleteOutboxEntry, readOutbox, writeOutboxEntry } from '@/lib/outbox'
+import { useAuthStore } from './authStore'
+
+interface OutboxState {
+  entries: OutboxEntry[] // Changes waiting to be written, in replay order
+  conflicts: OutboxConflict[]
+  online: boolean
+  syncing: boolean
+
+  // Actions
+  loadOutbox: (userId: string) => Promise<{ error: Error | null }>
+  enqueue: (
+    entry: Pick<OutboxEntry, 'operation' | 'entityIds' | 'label' | 'baseUpdatedAt'>
+  ) => Promise<{ error: Error | null }>
+  removeEntry: (id: string) => Promise<void>
+  setOnline: (online: boolean) => void
+  setSyncing: (syncing: boolean) => void
+  reportConflict: (
+    entry: OutboxEntry,
+    reason: OutboxConflictReason,
+    message?: string | null
+  ) => void
+  dismissConflict: (id: string) => void
+  clearConflicts: () => void
+
+  // Getters
+  hasQueuedChanges: (taskId: string) => boolean
+}
+
+export const useOutboxStore = create<OutboxState>((set, get) => ({
+  entries: [],
+  conflicts: [],
+  online: navigator.onLine,
+  syncing: false,
+
+  loadOutbox: async (userId: string) => {
+    try {
+      const stored = await readOutbox(userId)
+
+      // Keep anything queued while the stored entries were being read
+      set(state => ({
+        entries: [
+          ...stored,
+          ...state.entries.filter(
+            entry => entry.userId === userId && !stored.some(s => s.id === entry.id)
+          ),
+        ].sort((a, b) => a.sequence - b.sequence),
+      }))
+
+      return { error: null }
+    } catch (error) {
+      return { error: error instanceof Error ? error : new Error('Could not read queued changes') }
+    }
+  },
+
+  enqueue: async entry => {
+    const user = useAuthStore.getState().user
+    if (!user) {
+      return { error: new Error('User not authenticated') }
+    }
+
+    // Strictly increasing, so entries queued within the same millisecond keep their order
+    const { entries } = get()
+    const lastSequence = entries.length > 0 ? entries[entries.length - 1].sequence : 0
+    const queued: OutboxEntry = {
+      ...entry,
+      id: crypto.randomUUID(),
+      userId: user.id,
+      queuedAt: new Date().toISOString(),
+      sequence: Math.max(Date.now(), lastSequence + 1),
+    }
+
+    set(state => ({ entries: [...state.entries, queued] }))
+
+    // The change stays queued for this session even if it can't be stored
+    try {
+      await writeOutboxEntry(queued)
+      return { error: null }
+    } catch (error) {
+      console.error('Error storing queued change:', error)
+      return { error: new Error('Your change will be lost if you close the app before it syncs') }
+    }
+  },
+
+  removeEntry: async (id: string) => {
+    set(state => ({ entries: state.entries.filter(entry => entry.id !== id) }))
+
+    try {
+      await deleteOutboxEntry(id)
+    } catch (error) {
+      console.error('Error removing synced change:', error)
+    }
+  },
+
+  setOnline: (online: boolean) => set({ online }),
+
+  setSyncing: (syncing: boolean) => set({ syncing }),
+
+  reportConflict: (entry, reason, message = null) => {
+    const conflict: OutboxConflict = {
+      id: entry.id,
+      kind: entry.operation.kind,
+      label: entry.label,
+      reason,
+      message,
+      detectedAt: new Date().toISOString(),
+    }
+    set(state => ({ conflicts: [...state.conflicts, conflict] }))
+  },
+
+  dismissConflict: (id: string) => {
+    set(state => ({ conflicts: state.conflicts.filter(conflict => conflict.id !== id) }))
+  },
+
+  clearConflicts: () => set({ conflicts: [] }),
+
+  hasQueuedChanges: (taskId: string) => {
+    return get().entries.some(entry => entry.entityIds.includes(taskId))
+  },
+}))
@@ -0,0 +1,160 @@
+import { create } from 'zustand'
+import { getRepository } from '@/lib/repository'
+import { Tables } from '@/types/database'
+import { Recurrence, RecurrenceFormData, RecurrenceFrequency } from '@/types/recurrence'
+import { getNextOccurrence, isValidFrequency } from '@/lib/recurrence-utils'
+
+// frequency is JSONB, so the generated row types it as Json
+function toRecurrence(row: Tables<'recurrences'>): Recurrence {
+  return { ...row, frequency: row.frequency as RecurrenceFrequency }
+}
+
+interface RecurrenceState {
+  recurrences: Recurrence[]
+  loading: boolean
+  error: string | null
+
+  // Actions
+  fetchRecurrences: () => Promise<void>
+  createRecurrence: (
+    taskId: string,
+    data: RecurrenceFormData,
+    dueDate?: string | null
+  ) => Promise<{ data: Recurrence | null; error: Error | null }>
+  updateRecurrence: (
+    id: string,
+    data: Partial<RecurrenceFormData>
+  ) => Promise<{ error: Error | null }>
+  deleteRecurrence: (id: string) => Promise<{ error: Error | null }>
+  advanceRecurrence: (
+    id: string,
+    nextTaskId: string,
+    nextDueDate: string
+  ) => Promise<{ error: Error | null }>
+
+  // Getters
+  getRecurrenceByTaskId: (taskId: string) => Recurrence | undefined
+}
+
+export const useRecurrenceStore = create<RecurrenceState>((set, get) => ({
+  recurrences: [],
+  loading: false,
+  error: null,
+
+  fetchRecurrences: async () => {
+    set({ loading: true, error: null })
+
+    const { data, error } = await getRepository().recurrences.list()
+
+    if (error) {
+      set({ error: error.message, loading: false })
+      return
+    }
+
+    set({ recurrences: data.map(toRecurrence), loading: false })
+  },
+
+  createRecurrence: async (taskId: string, data: RecurrenceFormData, dueDate?: string | null) => {
+    if (!isValidFrequency(data.frequency)) {
+      return { data: null, error: new Error('Invalid recurrence pattern') }
+    }
+
+    const now = new Date()
+    const anchorDate = data.anchor_date || dueDate || now.toISOString()
+
+    // Without an explicit due date, the first occurrence is the next date matching the pattern
+    let nextDueDate = dueDate || null
+    if (!nextDueDate) {
+      const next = getNextOccurrence(data.frequency, now, new Date(anchorDate))
+      if (!next) {
+        return { data: null, error: new Error('Recurrence pattern never occurs') }
+      }
+      nextDueDate = next.toISOString()
+    }
+
+    const { data: newRow, error } = await getRepository().recurrences.create({
+      task_id: taskId,
+      type: data.type,
+      frequency: data.frequency,
+      anchor_date: data.type === 'fixed_schedule' ? anchorDate : null,
+      next_due_date: nextDueDate,
+    })
+
+    if (error) {
+      return { data: null, error: new Error(error.message) }
+    }
+
+    const newRecurrence = toRecurrence(newRow)
+    set(state => ({
+      recurrences: [...state.recurrences, newRecurrence],
+    }))
+
+    return { data: newRecurrence, error: null }
+  },
+
+  updateRecurrence: async (id: string, data: Partial<RecurrenceFormData>) => {
+    if (data.frequency && !isValidFrequency(data.frequency)) {
+      return { error: new Error('Invalid recurrence pattern') }
+    }
+
+    const existing = get().recurrences.find(rec => rec.id === id)
+    const type = data.type ?? existing?.type
+    const updates = {
+      ...data,
+      // Switching to a fixed schedule needs an anchor; keep the current cadence
+      ...(type === 'fixed_schedule' && !data.anchor_date && !existing?.anchor_date
+        ? { anchor_date: existing?.next_due_date ?? new Date().toISOString() }
+        : {}),
+    }
+
+    const { error } = await getRepository().recurrences.update(id, updates)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    set(state => ({
+      recurrences: state.recurrences.map(rec => (rec.id === id ? { ...rec, ...updates } : rec)),
+    }))
+
+    return { error: null }
+  },
+
+  deleteRecurrence: async (id: string) => {
+    const { error } = await getRepository().recurrences.delete(id)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    set(state => ({
+      recurrences: state.recurrences.filter(rec => rec.id !== id),
+    }))
+
+    return { error: null }
+  },
+
+  advanceRecurrence: async (id: string, nextTaskId: string, nextDueDate: string) => {
+    // The recurrence follows the open occurrence; the anchor is never moved
+    const { error } = await getRepository().recurrences.update(id, {
+      task_id: nextTaskId,
+      next_due_date: nextDueDate,
+    })
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    set(state => ({
+      recurrences: state.recurrences.map(rec =>
+        rec.id === id ? { ...rec, task_id: nextTaskId, next_due_date: nextDueDate } : rec
+      ),
+    }))
+
+    return { error: null }
+  },
+
+  getRecurrenceByTaskId: (taskId: string) => {
+    return get().recurrences.find(rec => rec.task_id === taskId)
+  },
+}))
@@ -0,0 +1,42 @@
+// @vitest-environment jsdom
+import { User } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createLocalRepository } from '@/lib/local-repository'
+import { setRepository } from '@/lib/repository'
+import { useAuthStore } from '@/stores/authStore'
+import { useSavedViewStore } from '@/stores/savedViewStore'
+import { useTaskStore } from '@/stores/taskStore'
+
+const user = { id: '4f1e2d3c-5b6a-4978-8c9d-0e1f2a3b4c5d' } as User
+const otherUser = { id: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d' } as User
+
+beforeEach(() => {
+  setRepository(createLocalRepository({ getUserId: () => user.id, persist: false }))
+  useAuthStore.setState({ user, initialized: true })
+})
+
+describe('useSavedViewStore', () => {
+  it("drops the views and the applied view's filters when another user signs in", async () => {
+    const { data: view } = await useSavedViewStore.getState().createView({
+      name: 'Urgent',
+      icon: null,
+      view_mode: 'list',
+      filters: { is_urgent: true },
+      sort_order: { field: 'due_date', direction: 'asc' },
+      display_options: null,
+      is_pinned: true,
+    })
+    useSavedViewStore.getState().applyView(view!.id)
+    expect(useTaskStore.getState().filters).toEqual({ is_urgent: true })
+
+    useAuthStore.setState({ user: otherUser })
+
+    expect(useSavedViewStore.getState()).toMatchObject({
+      views: [],
+      currentViewId: null,
+      ownerId: otherUser.id,
+      defaultApplied: false,
+    })
+    expect(useTaskStore.getState().filters).toEqual({})
+  })
+})
@@ -0,0 +1,260 @@
+import { create } from 'zustand'
+import { getRepository } from '@/lib/repository'
+import { Tables } from '@/types/database'
+import {
+  SavedView,
+  SavedViewDisplayOptions,
+  SavedViewFormData,
+  SavedViewSort,
+} from '@/types/saved-view'
+import { TaskFilters } from '@/types/task'
+import { normalizeFilters } from '@/lib/saved-view-utils'
+import { useAuthStore } from './authStore'
+import { useTaskStore } from './taskStore'
+
+// Generated rows type the JSONB columns as Json; they only hold what createView/updateView wrote
+function toSavedView(row: Tables<'saved_views'>): SavedView {
+  return {
+    ...row,
+    filters: row.filters as TaskFilters,
+    sort_order: row.sort_order as SavedViewSort,
+    display_options: row.display_options as SavedViewDisplayOptions | null,
+  }
+}
+
+interface SavedViewState {
+  views: SavedView[]
+  currentViewId: string | null
+  ownerId: string | null // The user the loaded views belong to
+  loading: boolean
+  error: string | null
+  defaultApplied: boolean
+
+  // Actions
+  fetchViews: () => Promise<void>
+  createView: (data: SavedViewFormData) => Promise<{ data: SavedView | null; error: Error | null }>
+  updateView: (id: string, data: Partial<SavedViewFormData>) => Promise<{ error: Error | null }>
+  deleteView: (id: string) => Promise<{ error: Error | null }>
+  reorderViews: (orderedIds: string[]) => Promise<{ error: Error | null }>
+  setDefaultView: (id: string | null) => Promise<{ error: Error | null }>
+
+  // View usage
+  applyView: (id: string) => SavedView | undefined
+  clearCurrentView: () => void
+
+  // Getters
+  getViewById: (id: string) => SavedView | undefined
+  getDefaultView: () => SavedView | undefined
+  getPinnedViews: () => SavedView[]
+}
+
+export const useSavedViewStore = create<SavedViewState>((set, get) => ({
+  views: [],
+  currentViewId: null,
+  ownerId: null,
+  loading: false,
+  error: null,
+  defaultApplied: false,
+
+  fetchViews: async () => {
+    set({ loading: true, error: null })
+
+    const { data, error } = await getRepository().savedViews.list()
+
+    if (error) {
+      set({ error: error.message, loading: false })
+      return
+    }
+
+    set({ views: data.map(toSavedView), loading: false })
+
+    // The default view is applied once per session, on first load
+    if (!get().defaultApplied) {
+      set({ defaultApplied: true })
+      const defaultView = get().getDefaultView()
+      if (defaultView && !get().currentViewId) {
+        get().applyView(defaultView.id)
+      }
+    }
+  },
+
+  createView: async (data: SavedViewFormData) => {
+    const user = useAuthStore.getState().user
+    if (!user) {
+      return { data: null, error: new Error('User not authenticated') }
+    }
+
+    const { views } = get()
+    const position = views.length > 0 ? Math.max(...views.map(view => view.position)) + 1 : 0
+
+    const { data: newRow, error } = await getRepository().savedViews.create({
+      user_id: user.id,
+      name: data.name,
+      icon: data.icon || null,
+      view_mode: data.view_mode,
+      filters: normalizeFilters(data.filters),
+      sort_order: data.sort_order,
+      display_options: data.display_options || null,
+      is_pinned: data.is_pinned ?? true,
+      is_default: false,
+      position,
+    })
+
+    if (error) {
+      return { data: null, error: new Error(error.message) }
+    }
+
+    const newView = toSavedView(newRow)
+
+    // Optimistic update
+    set(state => ({
+      views: [...state.views, newView],
+    }))
+
+    if (data.is_default) {
+      const { error: defaultError } = await get().setDefaultView(newView.id)
+      if (defaultError) {
+        return { data: newView, error: defaultError }
+      }
+    }
+
+    return { data: newView, error: null }
+  },
+
+  updateView: async (id: string, data: Partial<SavedViewFormData>) => {
+    const { is_default, ...viewData } = data
+    const updates = viewData.filters
+      ? { ...viewData, filters: normalizeFilters(viewData.filters) }
+      : viewData
+
+    const { error } = await getRepository().savedViews.update(id, updates)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    // Optimistic update
+    set(state => ({
+      views: state.views.map(view => (view.id === id ? { ...view, ...updates } : view)),
+    }))
+
+    // Only one view can be the default, so this goes through setDefaultView
+    if (is_default !== undefined && is_default !== get().getViewById(id)?.is_default) {
+      return get().setDefaultView(is_default ? id : null)
+    }
+
+    return { error: null }
+  },
+
+  deleteView: async (id: string) => {
+    const { error } = await getRepository().savedViews.delete(id)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    // Optimistic update
+    set(state => ({
+      views: state.views.filter(view => view.id !== id),
+      currentViewId: state.currentViewId === id ? null : state.currentViewId,
+    }))
+
+    return { error: null }
+  },
+
+  reorderViews: async (orderedIds: string[]) => {
+    const previousViews = get().views
+    const positions = new Map(orderedIds.map((id, index) => [id, index]))
+
+    // Reorder locally first so the sider doesn't jump while the writes are in flight
+    set(state => ({
+      views: state.views
+        .map(view => ({ ...view, position: positions.get(view.id) ?? view.position }))
+        .sort((a, b) => a.position - b.position),
+    }))
+
+    const changed = previousViews.filter(view => positions.get(view.id) !== view.position)
+    const results = await Promise.all(
+      changed.map(view =>
+        getRepository().savedViews.update(view.id, { position: positions.get(view.id) })
+      )
+    )
+
+    const failed = results.find(result => result.error)
+    if (failed?.error) {
+      set({ views: previousViews })
+      return { error: new Error(failed.error.message) }
+    }
+
+    return { error: null }
+  },
+
+  setDefaultView: async (id: string | null) => {
+    if (!useAuthStore.getState().user) {
+      return { error: new Error('User not authenticated') }
+    }
+
+    const { error } = await getRepository().savedViews.setDefault(id)
+
+    if (error) {
+      return { error: new Error(error.message) }
+    }
+
+    set(state => ({
+      views: state.views.map(view => ({ ...view, is_default: view.id === id })),
+    }))
+
+    return { error: null }
+  },
+
+  applyView: (id: string) => {
+    const view = get().getViewById(id)
+    if (!view) return undefined
+
+    // Replace rather than merge so filters from the previous view don't leak through
+    const taskStore = useTaskStore.getState()
+    taskStore.clearFilters()
+    taskStore.setFilters(view.filters)
+    taskStore.setSortBy(view.sort_order.field, view.sort_order.direction)
+
+    set({ currentViewId: id })
+
+    return view
+  },
+
+  clearCurrentView: () => {
+    set({ currentViewId: null })
+  },
+
+  getViewById: (id: string) => {
+    return get().views.find(view => view.id === id)
+  },
+
+  getDefaultView: () => {
+    return get().views.find(view => view.is_default)
+  },
+
+  getPinnedViews: () => {
+    return get().views.filter(view => view.is_pinned)
+  },
+}))
+
+// Views are dropped with the user they belong to, like tasks and tags. The next user's default
+// view is applied on their first load, and an applied view's filters don't carry over.
+useAuthStore.subscribe(({ user, initialized }) => {
+  if (!initialized) return
+
+  const userId = user?.id ?? null
+  const { ownerId, currentViewId } = useSavedViewStore.getState()
+  if (userId !== ownerId) {
+    if (currentViewId) {
+      useTaskStore.getState().clearFilters()
+    }
+    useSavedViewStore.setState({
+      views: [],
+      currentViewId: null,
+      ownerId: userId,
+      defaultApplied: false,
+    })
+  }
+})
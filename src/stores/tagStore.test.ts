@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { User } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createLocalRepository } from '@/lib/local-repository'
+import { setRepository } from '@/lib/repository'
+import { useAuthStore } from '@/stores/authStore'
+import { useTagStore } from '@/stores/tagStore'
+import { Repository } from '@/types/repository'
+
+const userId = '5b0e3f7c-2d4a-4c1e-8f6b-9a7d2c3e4f51'
+
+let repository: Repository
+let releaseCreates: () => void
+
+// Tag creation waits until released, so a fetch can land while one is still pending
+beforeEach(() => {
+  const local = createLocalRepository({ getUserId: () => userId, persist: false })
+  const creates = new Promise<void>(resolve => (releaseCreates = resolve))
+  repository = local
+  setRepository({
+    ...local,
+    tags: { ...local.tags, create: tag => creates.then(() => local.tags.create(tag)) },
+  })
+
+  useAuthStore.setState({ user: { id: userId } as User, isGuest: false })
+  useTagStore.setState({ tags: [], pendingMutations: [], error: null })
+})
+
+describe('useTagStore.fetchTags', () => {
+  it('keeps a tag that is still being created', async () => {
+    await repository.tags.create({ name: 'Work', user_id: userId })
+
+    const creating = useTagStore
+      .getState()
+      .createTag({ name: 'Home', color: null, gradient: null, icon: null, parent_id: null })
+    await useTagStore.getState().fetchTags()
+
+    expect(useTagStore.getState().tags.map(tag => tag.name)).toEqual(['Work', 'Home'])
+
+    releaseCreates()
+    expect((await creating).error).toBeNull()
+    await useTagStore.getState().fetchTags()
+
+    expect(useTagStore.getState().tags.map(tag => tag.name)).toEqual(['Home', 'Work'])
+  })
+
+  it('keeps local changes and deletes the server has not confirmed', async () => {
+    releaseCreates()
+    const { data: work } = await repository.tags.create({ name: 'Work', user_id: userId })
+    const { data: home } = await repository.tags.create({ name: 'Home', user_id: userId })
+    await useTagStore.getState().fetchTags()
+
+    useTagStore.setState(state => ({
+      tags: state.tags
+        .filter(tag => tag.id !== home!.id)
+        .map(tag => (tag.id === work!.id ? { ...tag, name: 'Office' } : tag)),
+      pendingMutations: [
+        { id: 'rename', entityIds: [work!.id] },
+        { id: 'delete', entityIds: [home!.id] },
+      ],
+    }))
+    await useTagStore.getState().fetchTags()
+
+    expect(useTagStore.getState().tags.map(tag => tag.name)).toEqual(['Office'])
+  })
+})
@@ -1,10 +1,58 @@
 import { create } from 'zustand'
-import { supabase } from '@/lib/supabase'
+import { getRepository } from '@/lib/repository'
 import { Tag, TagWithChildren, TagFormData } from '@/types/tag'
+import {
+  PendingMutation,
+  isEntityPending,
+  isStaleEcho,
+  runOptimisticMutation,
+} from '@/lib/optimistic'
+import { clearSnapshot, readSnapshot, writeSnapshot } from '@/lib/snapshot-cache'
+import { memoizeLast } from '@/lib/memoize'
+import { onRealtimeChange, onRealtimeSubscribed, retainRealtime } from '@/lib/realtime'
 import { useAuthStore } from './authStore'
 
+// Changes the given tags locally right away, then writes them; rolled back if the write fails
+function mutateTags(
+  tagIds: string[],
+  apply: (tags: Tag[]) => Tag[],
+  commit: () => PromiseLike<{ data?: Tag | null; error: { message: string } | null }>
+): Promise<{ error: Error | null }> {
+  return runOptimisticMutation({
+    entityIds: tagIds,
+    read: () => {
+      const { tags, pendingMutations } = useTagStore.getState()
+      return { items: tags, pendingMutations }
+    },
+    write: (tags, pendingMutations) => useTagStore.setState({ tags, pendingMutations }),
+    apply,
+    commit,
+    merge: (_tag, row) => row,
+  })
+}
+
+// Puts fetched tags in place of the loaded ones. Tags with local changes the server hasn't
+// confirmed yet keep their local version, stay deleted, or are kept if not created there yet.
+function mergeFetchedTags(tags: Tag[], rows: Tag[], pendingMutations: PendingMutation[]): Tag[] {
+  const local = new Map(tags.map(tag => [tag.id, tag]))
+  const isPending = (id: string) => isEntityPending(pendingMutations, id)
+
+  const fetched = rows.flatMap(row => {
+    if (!isPending(row.id)) return [row]
+    const tag = local.get(row.id)
+    return tag ? [tag] : []
+  })
+
+  const fetchedIds = new Set(rows.map(row => row.id))
+  const unconfirmed = tags.filter(tag => isPending(tag.id) && !fetchedIds.has(tag.id))
+
+  return [...fetched, ...unconfirmed]
+}
+
 interface TagState {
   tags: Tag[]
+  pendingMutations: PendingMutation[] // Local changes the server hasn't confirmed yet
+  ownerId: string | null // The user the loaded tags belong to
   loading: boolean
   error: string | null
 
@@ -20,25 +68,40 @@ interface TagState {
   unsubscribeFromTags: () => void
 }
 
+const indexTags = memoizeLast((tags: Tag[]) => new Map(tags.map(tag => [tag.id, tag])))
+
+// Tags by id, rebuilt only when the tag list changes
+export function selectTagsById(state: Pick<TagState, 'tags'>): Map<string, Tag> {
+  return indexTags(state.tags)
+}
+
+// One release per subscribeToTags call still active
+const realtimeReleases: (() => void)[] = []
+
+// Tags from the last session, so task cards can show them before fetchTags has finished
+const tagSnapshot = readSnapshot<Tag[]>('tags')
+
 export const useTagStore = create<TagState>((set, get) => ({
-  tags: [],
+  tags: tagSnapshot?.data ?? [],
+  pendingMutations: [],
+  ownerId: tagSnapshot?.userId ?? null,
   loading: false,
   error: null,
 
   fetchTags: async () => {
     set({ loading: true, error: null })
 
-    const { data, error } = await supabase
-      .from('tags')
-      .select('*')
-      .order('name', { ascending: true })
+    const { data, error } = await getRepository().tags.list()
 
     if (error) {
       set({ error: error.message, loading: false })
       return
     }
 
-    set({ tags: data || [], loading: false })
+    set(state => ({
+      tags: mergeFetchedTags(state.tags, data, state.pendingMutations),
+      loading: false,
+    }))
   },
 
   createTag: async (data: TagFormData) => {
@@ -47,40 +110,35 @@ export const useTagStore = create<TagState>((set, get) => ({
       return { data: null, error: new Error('User not authenticated') }
     }
 
-    const { data: newTag, error } = await supabase
-      .from('tags')
-      .insert({
-        ...data,
-        user_id: user.id,
-      })
-      .select()
-      .single()
-
-    if (error) {
-      return { data: null, error: new Error(error.message) }
+    // The id is generated here so the tag can be shown before the server has stored it
+    const now = new Date().toISOString()
+    const newTag: Tag = {
+      ...data,
+      id: crypto.randomUUID(),
+      user_id: user.id,
+      created_at: now,
+      updated_at: now,
     }
 
-    // Optimistic update
-    set(state => ({
-      tags: [...state.tags, newTag],
-    }))
-
-    return { data: newTag, error: null }
-  },
-
-  updateTag: async (id: string, data: Partial<TagFormData>) => {
-    const { error } = await supabase.from('tags').update(data).eq('id', id)
+    const { error } = await mutateTags(
+      [newTag.id],
+      tags => [...tags, newTag],
+      () => getRepository().tags.create({ ...data, id: newTag.id, user_id: user.id })
+    )
 
     if (error) {
-      return { error: new Error(error.message) }
+      return { data: null, error }
     }
 
-    // Optimistic update
-    set(state => ({
-      tags: state.tags.map(tag => (tag.id === id ? { ...tag, ...data } : tag)),
-    }))
+    return { data: get().getTagById(newTag.id) ?? null, error: null }
+  },
 
-    return { error: null }
+  updateTag: async (id: string, data: Partial<TagFormData>) => {
+    return mutateTags(
+      [id],
+      tags => tags.map(tag => (tag.id === id ? { ...tag, ...data } : tag)),
+      () => getRepository().tags.update(id, data)
+    )
   },
 
   deleteTag: async (id: string) => {
@@ -90,22 +148,15 @@ export const useTagStore = create<TagState>((set, get) => ({
       return { error: new Error('Cannot delete tag with children. Delete or reassign children first.') }
     }
 
-    const { error } = await supabase.from('tags').delete().eq('id', id)
-
-    if (error) {
-      return { error: new Error(error.message) }
-    }
-
-    // Optimistic update
-    set(state => ({
-      tags: state.tags.filter(tag => tag.id !== id),
-    }))
-
-    return { error: null }
+    return mutateTags(
+      [id],
+      tags => tags.filter(tag => tag.id !== id),
+      () => getRepository().tags.delete(id)
+    )
   },
 
   getTagById: (id: string) => {
-    return get().tags.find(tag => tag.id === id)
+    return selectTagsById(get()).get(id)
   },
 
   getTagHierarchy: (): TagWithChildren[] => {
@@ -154,44 +205,56 @@ export const useTagStore = create<TagState>((set, get) => ({
     const user = useAuthStore.getState().user
     if (!user) return
 
-    const channel = supabase
-      .channel('tags-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'tags',
-          filter: `user_id=eq.${user.id}`,
-        },
-        payload => {
-          if (payload.eventType === 'INSERT') {
-            set(state => ({
-              tags: [...state.tags, payload.new as Tag],
-            }))
-          } else if (payload.eventType === 'UPDATE') {
-            set(state => ({
-              tags: state.tags.map(tag =>
-                tag.id === payload.new.id ? (payload.new as Tag) : tag
-              ),
-            }))
-          } else if (payload.eventType === 'DELETE') {
-            set(state => ({
-              tags: state.tags.filter(tag => tag.id !== payload.old.id),
-            }))
-          }
-        }
-      )
-      .subscribe()
-
-    // Store channel for cleanup
-    ;(get() as any).channel = channel
+    realtimeReleases.push(retainRealtime(user.id))
   },
 
   unsubscribeFromTags: () => {
-    const channel = (get() as any).channel
-    if (channel) {
-      supabase.removeChannel(channel)
-    }
+    realtimeReleases.pop()?.()
   },
 }))
+
+// Tags are dropped with the user they belong to, like tasks
+useAuthStore.subscribe(({ user, initialized }) => {
+  if (!initialized) return
+
+  const userId = user?.id ?? null
+  if (userId !== useTagStore.getState().ownerId) {
+    clearSnapshot('tags')
+    useTagStore.setState({ tags: [], pendingMutations: [], ownerId: userId })
+  }
+})
+
+useTagStore.subscribe((state, previous) => {
+  if (state.ownerId && state.tags !== previous.tags) {
+    writeSnapshot('tags', state.ownerId, state.tags)
+  }
+})
+
+onRealtimeChange('tags', payload => {
+  if (payload.eventType === 'DELETE') {
+    useTagStore.setState(state => ({
+      tags: state.tags.filter(tag => tag.id !== payload.old.id),
+    }))
+    return
+  }
+
+  // Our own writes are already applied locally, so their echoes are skipped
+  const incoming = payload.new
+  const { pendingMutations, getTagById } = useTagStore.getState()
+  if (
+    isEntityPending(pendingMutations, incoming.id) ||
+    isStaleEcho(incoming, getTagById(incoming.id))
+  ) {
+    return
+  }
+
+  useTagStore.setState(state => ({
+    tags: state.tags.some(tag => tag.id === incoming.id)
+      ? state.tags.map(tag => (tag.id === incoming.id ? incoming : tag))
+      : [...state.tags, incoming],
+  }))
+})
+
+onRealtimeSubscribed(() => {
+  useTagStore.getState().fetchTags()
+})
@@ -0,0 +1,256 @@
+// @vitest-environment jsdom
+import { User } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { createLocalRepository } from '@/lib/local-repository'
+import { getRepository, setRepository } from '@/lib/repository'
+import { useAuthStore } from '@/stores/authStore'
+import { useCompletionStore } from '@/stores/completionStore'
+import { useOutboxStore } from '@/stores/outboxStore'
+import { useRecurrenceStore } from '@/stores/recurrenceStore'
+import { useTaskStore } from '@/stores/taskStore'
+
+// The stores against the in-memory backend, signed in as one user
+
+const userId = 'f0c2a8a4-4a53-4a5e-9d4c-7b8c3f1d2e61'
+
+const initialTaskState = useTaskStore.getState()
+
+beforeEach(() => {
+  setRepository(createLocalRepository({ getUserId: () => userId, persist: false }))
+  useAuthStore.setState({ user: { id: userId } as User, isGuest: false })
+  useTaskStore.setState(initialTaskState, true)
+  useCompletionStore.setState({ completions: [] })
+  useRecurrenceStore.setState({ recurrences: [] })
+})
+
+async function createTask(title: string, extra = {}) {
+  const { data, error } = await useTaskStore.getState().createTask({ title, ...extra })
+  expect(error).toBeNull()
+  return data!
+}
+
+describe('useTaskStore', () => {
+  it('stores created tasks, which a fresh load reads back', async () => {
+    const task = await createTask('Water the plants', { is_urgent: true })
+
+    useTaskStore.setState({ tasks: [], syncCursor: null })
+    await useTaskStore.getState().fetchTasks()
+
+    expect(useTaskStore.getState().tasks).toEqual([
+      expect.objectContaining({ id: task.id, title: 'Water the plants', is_urgent: true }),
+    ])
+  })
+
+  it('records a completion and removes it again when reopened', async () => {
+    const task = await createTask('File taxes')
+
+    expect(await useTaskStore.getState().completeTask(task.id)).toEqual({ error: null })
+    expect(useTaskStore.getState().getTaskById(task.id)?.status).toBe('completed')
+    expect((await getRepository().completions.list([task.id])).data).toHaveLength(1)
+
+    await useCompletionStore.getState().fetchCompletions(task.id)
+    expect(await useTaskStore.getState().uncompleteTask(task.id)).toEqual({ error: null })
+
+    const { data: stored } = await getRepository().tasks.get(task.id)
+    expect(stored).toMatchObject({ status: 'ready', completed_at: null })
+    expect((await getRepository().completions.list([task.id])).data).toEqual([])
+  })
+
+  it('reopens a task dragged out of Completed and moves it to the new column', async () => {
+    const task = await createTask('Book the venue')
+    await useTaskStore.getState().completeTask(task.id)
+
+    expect((await useTaskStore.getState().moveTask(task.id, 'in_progress')).error).toBeNull()
+
+    const { data: stored } = await getRepository().tasks.get(task.id)
+    expect(stored).toMatchObject({ status: 'in_progress', completed_at: null })
+    expect((await getRepository().completions.list([task.id])).data).toEqual([])
+  })
+
+  it('puts the task back when the write is rejected', async () => {
+    const task = await createTask('Call the plumber')
+
+    const { error } = await useTaskStore.getState().setTaskTags(task.id, ['missing-tag'])
+
+    expect(error?.message).toContain('task_tags_tag_id_fkey')
+    expect(useTaskStore.getState().getTaskById(task.id)?.tags).toEqual([])
+    expect(useTaskStore.getState().pendingMutations).toEqual([])
+  })
+
+  it('creates the next occurrence when a recurring task is completed', async () => {
+    const task = await createTask('Timesheet', {
+      type: 'recurring',
+      due_date: new Date(2024, 4, 3).toISOString(),
+      recurrence: { type: 'fixed_schedule', frequency: { kind: 'weekdays', days: [5] } },
+    })
+
+    await useTaskStore.getState().completeTask(task.id)
+
+    const next = useTaskStore.getState().tasks.find(t => t.id !== task.id)
+    expect(next).toMatchObject({ title: 'Timesheet', status: 'ready' })
+    expect(useRecurrenceStore.getState().getRecurrenceByTaskId(next!.id)).toBeDefined()
+  })
+
+  it('takes the task back out when its recurrence cannot be stored', async () => {
+    const local = getRepository()
+    const error = new Error('recurrences_fixed_has_anchor')
+    setRepository({
+      ...local,
+      recurrences: { ...local.recurrences, create: async () => ({ data: null, error }) },
+    })
+
+    const result = await useTaskStore.getState().createTask({
+      title: 'Timesheet',
+      type: 'recurring',
+      recurrence: { type: 'fixed_schedule', frequency: { kind: 'weekdays', days: [5] } },
+    })
+
+    expect(result.data).toBeNull()
+    expect(result.error?.message).toContain('recurrences_fixed_has_anchor')
+    expect(useTaskStore.getState().tasks).toEqual([])
+    expect((await local.tasks.list()).data).toEqual([])
+  })
+
+  it('takes back the next occurrence when a recurring task is reopened', async () => {
+    const task = await createTask('Timesheet', {
+      type: 'recurring',
+      due_date: new Date(2024, 4, 3).toISOString(),
+      recurrence: { type: 'fixed_schedule', frequency: { kind: 'weekdays', days: [5] } },
+    })
+    const recurrence = useRecurrenceStore.getState().getRecurrenceByTaskId(task.id)
+
+    await useTaskStore.getState().completeTask(task.id)
+    expect(await useTaskStore.getState().uncompleteTask(task.id)).toEqual({ error: null })
+
+    expect(useTaskStore.getState().tasks).toEqual([
+      expect.objectContaining({ id: task.id, status: 'ready' }),
+    ])
+    expect((await getRepository().tasks.list()).data).toHaveLength(1)
+    expect(useRecurrenceStore.getState().getRecurrenceByTaskId(task.id)).toEqual(recurrence)
+    expect((await getRepository().recurrences.list()).data).toEqual([
+      expect.objectContaining({ task_id: task.id, next_due_date: task.due_date }),
+    ])
+  })
+
+  it('keeps the history of every occurrence, and undoes them latest first', async () => {
+    const task = await createTask('Timesheet', {
+      type: 'recurring',
+      due_date: new Date(2024, 4, 3).toISOString(),
+      recurrence: { type: 'fixed_schedule', frequency: { kind: 'weekdays', days: [5] } },
+    })
+    const recurrence = useRecurrenceStore.getState().getRecurrenceByTaskId(task.id)!
+
+    await useTaskStore.getState().completeTask(task.id, new Date(2024, 4, 3, 17).toISOString())
+    const next = useRecurrenceStore.getState().recurrences[0].task_id
+    await useTaskStore.getState().completeTask(next, new Date(2024, 4, 10, 17).toISOString())
+
+    useCompletionStore.setState({ completions: [] })
+    await useCompletionStore.getState().fetchSeriesCompletions(recurrence.id)
+    expect(
+      useCompletionStore
+        .getState()
+        .getCompletionsForSeries(recurrence.id)
+        .map(c => c.task_id)
+    ).toEqual([next, task.id])
+
+    expect(await useTaskStore.getState().uncompleteTask(task.id)).toEqual({
+      error: new Error("Undo the next occurrence's completion first"),
+    })
+    expect(useTaskStore.getState().getTaskById(task.id)?.status).toBe('completed')
+
+    expect(await useTaskStore.getState().uncompleteTask(next)).toEqual({ error: null })
+    expect(await useTaskStore.getState().uncompleteTask(task.id)).toEqual({ error: null })
+    expect((await getRepository().tasks.list()).data).toEqual([
+      expect.objectContaining({ id: task.id, status: 'ready' }),
+    ])
+  })
+
+  it('logs a past completion of a recurring task without moving it on', async () => {
+    const task = await createTask('Timesheet', {
+      type: 'recurring',
+      due_date: new Date(2024, 4, 3).toISOString(),
+      recurrence: { type: 'fixed_schedule', frequency: { kind: 'weekdays', days: [5] } },
+    })
+    const recurrence = useRecurrenceStore.getState().getRecurrenceByTaskId(task.id)
+
+    const completedAt = new Date(2024, 3, 26, 17).toISOString()
+    expect(await useTaskStore.getState().logPastCompletion(task.id, completedAt)).toEqual({
+      error: null,
+    })
+
+    expect(useTaskStore.getState().tasks).toEqual([
+      expect.objectContaining({ id: task.id, status: 'ready' }),
+    ])
+    expect(useRecurrenceStore.getState().getRecurrenceByTaskId(task.id)).toEqual(recurrence)
+    expect((await getRepository().completions.list([task.id])).data).toEqual([
+      expect.objectContaining({ completed_at: completedAt, was_retroactive: true }),
+    ])
+  })
+
+  it('reopens a task by removing its own completion when the history is not loaded', async () => {
+    const task = await createTask('Mow the lawn')
+    const earlier = new Date(2024, 3, 20).toISOString()
+    await useTaskStore.getState().logPastCompletion(task.id, earlier)
+    await useTaskStore.getState().completeTask(task.id)
+
+    useCompletionStore.setState({ completions: [] })
+    expect(await useTaskStore.getState().uncompleteTask(task.id)).toEqual({ error: null })
+
+    expect((await getRepository().completions.list([task.id])).data).toEqual([
+      expect.objectContaining({ completed_at: earlier }),
+    ])
+  })
+
+  it('adds timer minutes and breaks expired streaks through the same writes', async () => {
+    const task = await createTask('Write the report')
+    const habit = await createTask('Stretch', {
+      type: 'habit',
+      target_frequency: { count: 1, period: 'day' },
+    })
+    const safeUntil = Date.now() + 24 * 60 * 60 * 1000
+    await getRepository().tasks.update(habit.id, {
+      current_streak: 4,
+      streak_safe_until: new Date(safeUntil).toISOString(),
+    })
+    await useTaskStore.getState().fetchTasks()
+    expect(useTaskStore.getState().getTaskById(habit.id)?.current_streak).toBe(4)
+
+    await useTaskStore.getState().addActualMinutes(task.id, 25)
+    await useTaskStore.getState().addActualMinutes(task.id, 10)
+    await useTaskStore.getState().breakExpiredStreaks(new Date(safeUntil + 1))
+
+    expect((await getRepository().tasks.get(task.id)).data?.actual_minutes).toBe(35)
+    expect((await getRepository().tasks.get(habit.id)).data).toMatchObject({
+      current_streak: 0,
+      streak_safe_until: null,
+    })
+    expect(useTaskStore.getState().getTaskById(habit.id)?.current_streak).toBe(0)
+    expect(useTaskStore.getState().pendingMutations).toEqual([])
+  })
+
+  it('can sync the outbox again after a run failed part way', async () => {
+    const task = await createTask('Renew the passport')
+    const entry = {
+      id: 'entry',
+      userId,
+      operation: { kind: 'update_task' as const, taskId: task.id, updates: { title: 'Renew' } },
+      entityIds: [task.id],
+      label: task.title,
+      baseUpdatedAt: null,
+      queuedAt: new Date().toISOString(),
+      sequence: 1,
+    }
+    const { removeEntry } = useOutboxStore.getState()
+    useOutboxStore.setState({
+      entries: [entry],
+      removeEntry: () => Promise.reject(new Error('IndexedDB is unavailable')),
+    })
+
+    await expect(useTaskStore.getState().syncOutbox()).rejects.toThrow('IndexedDB is unavailable')
+    expect(useOutboxStore.getState().syncing).toBe(false)
+
+    useOutboxStore.setState({ removeEntry })
+    await useTaskStore.getState().syncOutbox()
+    expect(useOutboxStore.getState().entries).toEqual([])
+  })
+})
@@ -1,5 +1,6 @@
 import { create } from 'zustand'
-import { supabase } from '@/lib/supabase'
+import { Tables, TablesInsert } from '@/types/database'
+import { HabitTargetFrequency } from '@/types/habit'
 import {
   Task,
   TaskWithTags,
@@ -7,13 +8,407 @@ import {
   TaskFilters,
   TaskSortBy,
   TaskSortOrder,
+  TaskStatus,
+  NudgeResponse,
+  ShiftStrategy,
 } from '@/types/task'
+import { Completion } from '@/types/completion'
+import { OutboxEntry, OutboxOperation } from '@/types/outbox'
 import { useAuthStore } from './authStore'
-import { isTaskOverdue, isTaskScheduledToday } from '@/lib/task-utils'
-import { parseISO } from 'date-fns'
+import { useRecurrenceStore } from './recurrenceStore'
+import { useCompletionStore } from './completionStore'
+import { useOutboxStore } from './outboxStore'
+import { isCompletionLate, isTaskOverdue, isTaskScheduledToday } from '@/lib/task-utils'
+import { getNextDueDate } from '@/lib/recurrence-utils'
+import { calculateHabitStreak, getHabitTarget, isStreakExpired } from '@/lib/habit-utils'
+import { shouldNudgeSomedayTask } from '@/lib/someday-utils'
+import { getShiftedDueDate } from '@/lib/date-utils'
+import {
+  PendingMutation,
+  isEntityPending,
+  isStaleEcho,
+  runOptimisticMutation,
+} from '@/lib/optimistic'
+import { clearSnapshot, readSnapshot, writeSnapshot } from '@/lib/snapshot-cache'
+import { isNetworkError } from '@/lib/outbox'
+import { TaskSync, syncTasks } from '@/lib/task-sync'
+import {
+  TaskIndex,
+  buildTaskIndex,
+  dueDayKey,
+  getTasksDueBetween,
+  sortByListOrder,
+} from '@/lib/task-index'
+import { memoizeLast } from '@/lib/memoize'
+import { getRepository } from '@/lib/repository'
+import { newTaskDefaults } from '@/lib/column-defaults'
+import { onRealtimeChange, onRealtimeSubscribed, retainRealtime } from '@/lib/realtime'
+import { parseISO, subDays } from 'date-fns'
+
+// Every TaskFormData field and whether it maps straight onto a tasks column.
+// Typed as a full Record so adding a form field without deciding how it's stored fails to compile.
+const taskFormFields: Record<keyof TaskFormData, 'column' | 'relation'> = {
+  title: 'column',
+  description: 'column',
+  status: 'column',
+  type: 'column',
+  due_date: 'column',
+  scheduled_date: 'column',
+  completed_at: 'column',
+  is_urgent: 'column',
+  is_important: 'column',
+  parent_id: 'column',
+  estimated_minutes: 'column',
+  notes: 'column',
+  timer_duration_minutes: 'column',
+  target_frequency: 'column',
+  time_of_day: 'column',
+  nudge_threshold_days: 'column',
+  tags: 'relation',
+  recurrence: 'relation',
+}
+
+// Rejects anything we don't know how to store rather than silently dropping it
+function getUnsupportedFieldsError(data: Partial<TaskFormData>): Error | null {
+  const unsupported = Object.keys(data).filter(field => !(field in taskFormFields))
+  if (unsupported.length === 0) return null
+
+  return new Error(
+    `Unsupported task field${unsupported.length > 1 ? 's' : ''}: ${unsupported.join(', ')}`
+  )
+}
+
+// The generated row types the target_frequency JSONB column as Json
+function toTask(row: Tables<'tasks'>): Task {
+  return { ...row, target_frequency: row.target_frequency as HabitTargetFrequency | null }
+}
+
+type TaskWriteResult = {
+  data?: Tables<'tasks'> | Tables<'tasks'>[] | null
+  error: { message: string } | null
+}
+
+// Writes one operation to the server. Every kind is safe to run twice, because an outbox entry
+// is replayed if the app closed before its earlier write was confirmed.
+async function executeOperation(operation: OutboxOperation): Promise<TaskWriteResult> {
+  switch (operation.kind) {
+    case 'create_task': {
+      // Task and tag links are written in one transaction so a task is never left without its tags
+      const result = await getRepository().tasks.create(operation.task, operation.tagIds)
+
+      // The id is already taken: an earlier attempt created the task
+      if (result.error?.code === '23505') {
+        return await getRepository().tasks.get(operation.task.id)
+      }
+
+      if (result.error || !operation.recurrence) return result
+
+      const { error: recurrenceError } = await useRecurrenceStore
+        .getState()
+        .createRecurrence(operation.task.id, operation.recurrence, operation.task.due_date)
+
+      // A recurring task without its recurrence would never repeat, so the task is taken back
+      // out and the failure reported like any other rejected create
+      if (recurrenceError) {
+        await getRepository().tasks.delete(operation.task.id)
+        return { error: recurrenceError }
+      }
+      return result
+    }
+
+    case 'update_task': {
+      const result = await getRepository().tasks.update(operation.taskId, operation.updates)
+      if (result.error || operation.tagIds === undefined) return result
+
+      const { error: tagsError } = await getRepository().taskTags.replace(
+        operation.taskId,
+        operation.tagIds
+      )
+      return tagsError ? { error: tagsError } : result
+    }
+
+    case 'complete_task': {
+      const result = operation.updates
+        ? await getRepository().tasks.update(operation.taskId, operation.updates)
+        : { data: null, error: null }
+      if (result.error) return result
+
+      // Record the completion in the history
+      const { error: completionError } = await useCompletionStore
+        .getState()
+        .recordCompletion(operation.taskId, operation.completion)
+      return completionError ? { error: completionError } : result
+    }
+
+    case 'uncomplete_task': {
+      // Without a completion id the latest one is removed, but only while the task is still
+      // completed: a replay would otherwise remove an earlier completion as well
+      if (!operation.completionId) {
+        const { data: current, error } = await getRepository().tasks.get(operation.taskId)
+        if (error || current?.status !== 'completed') return { data: current, error }
+      }
+
+      const result = operation.updates
+        ? await getRepository().tasks.update(operation.taskId, operation.updates)
+        : { data: null, error: null }
+      if (result.error) return result
+
+      const completionStore = useCompletionStore.getState()
+      const { error: completionError } = operation.completionId
+        ? await completionStore.removeCompletion(operation.completionId)
+        : await completionStore.removeLatestCompletion(operation.taskId)
+      return completionError ? { error: completionError } : result
+    }
+
+    case 'reorder_tasks':
+      // Tasks deleted in the meantime are simply skipped
+      return await getRepository().tasks.reorder(operation.orderIndexes)
+
+    case 'add_task_tag':
+      return await getRepository().taskTags.add(operation.taskId, operation.tagId)
+
+    case 'remove_task_tag':
+      return await getRepository().taskTags.remove(operation.taskId, operation.tagId)
+
+    case 'set_task_tags':
+      // Replaced in one transaction; on failure the task keeps its previous tags
+      return await getRepository().taskTags.replace(operation.taskId, operation.tagIds)
+
+    case 'delete_task':
+      // Tag links, completions and recurrences cascade with the task
+      return await getRepository().tasks.delete(operation.taskId)
+  }
+}
+
+// Changes the given tasks locally right away, then writes them; rolled back if the server
+// rejects the write. Offline, or while earlier changes to the same tasks are still queued, the
+// operation is put in the outbox instead and written once the connection is back.
+function mutateTasks(
+  taskIds: string[],
+  apply: (tasks: TaskWithTags[]) => TaskWithTags[],
+  operation: OutboxOperation
+): Promise<{ error: Error | null; queued: boolean }> {
+  const { getTaskById } = useTaskStore.getState()
+  const { hasQueuedChanges } = useOutboxStore.getState()
+
+  // Only a task's first queued change is checked for conflicts; the later ones build on it
+  const task = 'taskId' in operation ? getTaskById(operation.taskId) : undefined
+  const baseUpdatedAt = task && !hasQueuedChanges(task.id) ? task.updated_at : null
+  const label =
+    operation.kind === 'create_task'
+      ? operation.task.title
+      : taskIds.length === 1
+        ? (getTaskById(taskIds[0])?.title ?? 'Task')
+        : `${taskIds.length} tasks`
+
+  // The local backend can always be written to, so nothing is queued for it
+  const queueable = getRepository().kind !== 'local'
+
+  return runOptimisticMutation({
+    entityIds: taskIds,
+    read: () => {
+      const { tasks, pendingMutations } = useTaskStore.getState()
+      return { items: tasks, pendingMutations }
+    },
+    write: (tasks, pendingMutations) => useTaskStore.setState({ tasks, pendingMutations }),
+    apply,
+    commit: () => executeOperation(operation),
+    // Tag links aren't part of the row, so keep the local ones
+    merge: (task, row) => ({ ...toTask(row), tags: task.tags }),
+    queueFirst: queueable && (!navigator.onLine || taskIds.some(hasQueuedChanges)),
+    enqueue: queueable
+      ? async () => {
+          const result = await useOutboxStore
+            .getState()
+            .enqueue({ operation, entityIds: taskIds, label, baseUpdatedAt })
+
+          // Queued while online because earlier changes are waiting; try sending them now
+          if (navigator.onLine) {
+            void useTaskStore.getState().syncOutbox()
+          }
+          return result
+        }
+      : undefined,
+  })
+}
+
+// Folds a sync into the loaded tasks. Tasks with local changes still on their way to the
+// server keep their local version, or stay deleted.
+function mergeSyncedTasks(
+  tasks: TaskWithTags[],
+  { rows, tagIdsByTask, deletedIds, full }: TaskSync,
+  hasLocalChanges: (id: string) => boolean
+): TaskWithTags[] {
+  const synced = new Map(
+    rows.map(row => [row.id, { ...toTask(row), tags: tagIdsByTask.get(row.id) ?? [] }])
+  )
+  const deleted = new Set(deletedIds)
+
+  const kept = tasks.flatMap(task => {
+    if (hasLocalChanges(task.id)) return [task]
+    if (deleted.has(task.id)) return []
+
+    const syncedTask = synced.get(task.id)
+    if (syncedTask) return [syncedTask]
+    // A full load lists every task, so one missing from it is gone
+    return full ? [] : [task]
+  })
+
+  const loaded = new Set(tasks.map(task => task.id))
+  const added = [...synced.values()].filter(
+    task => !loaded.has(task.id) && !hasLocalChanges(task.id)
+  )
+
+  return [...added, ...kept]
+}
+
+let runningSync: Promise<void> | null = null
+
+// Loads what changed on the server since the last sync (everything, the first time)
+async function syncTaskState(): Promise<void> {
+  const store = useTaskStore.getState()
+  useTaskStore.setState({ loading: true, error: null })
+
+  const { data: sync, error } = await syncTasks(store.syncCursor)
+
+  if (error || !sync) {
+    useTaskStore.setState({ error: error?.message ?? 'Could not load tasks', loading: false })
+    return
+  }
+
+  const { hasQueuedChanges } = useOutboxStore.getState()
+  useTaskStore.setState(state => ({
+    tasks: mergeSyncedTasks(
+      state.tasks,
+      sync,
+      id => isEntityPending(state.pendingMutations, id) || hasQueuedChanges(id)
+    ),
+    syncCursor: sync.cursor,
+    loading: false,
+  }))
+
+  await store.breakExpiredStreaks()
+}
+
+function patchTask(
+  id: string,
+  updates: Partial<Task>
+): Promise<{ error: Error | null; queued: boolean }> {
+  return mutateTasks(
+    [id],
+    tasks => tasks.map(task => (task.id === id ? { ...task, ...updates } : task)),
+    { kind: 'update_task', taskId: id, updates }
+  )
+}
+
+const LATER_OCCURRENCE_COMPLETED = "Undo the next occurrence's completion first"
+
+// A series' recurrence and, once it has moved on from the given occurrence, the occurrence it
+// follows now
+function findSeries(recurrenceId: string, taskId: string) {
+  const recurrence = useRecurrenceStore.getState().recurrences.find(rec => rec.id === recurrenceId)
+  const later =
+    recurrence && recurrence.task_id !== taskId
+      ? useTaskStore.getState().getTaskById(recurrence.task_id)
+      : undefined
+  return { recurrence, later }
+}
+
+// Takes back what completing an occurrence moved on: the recurrence follows the reopened task
+// again, and the occurrence created for the next date is removed
+async function rewindSeries(
+  recurrenceId: string,
+  task: TaskWithTags
+): Promise<{ error: Error | null }> {
+  const { recurrence, later } = findSeries(recurrenceId, task.id)
+  // Already back, e.g. when a replayed undo runs again
+  if (!recurrence || recurrence.task_id === task.id) {
+    return { error: null }
+  }
+  if (later?.status === 'completed') {
+    return { error: new Error(LATER_OCCURRENCE_COMPLETED) }
+  }
+
+  const laterTaskId = recurrence.task_id
+  const { error } = await useRecurrenceStore
+    .getState()
+    .advanceRecurrence(recurrence.id, task.id, task.due_date ?? recurrence.next_due_date)
+  if (error) {
+    return { error }
+  }
+
+  // Only once the recurrence has moved back; it would be deleted along with the task it follows
+  return useTaskStore.getState().deleteTask(laterTaskId)
+}
+
+// Work that needs the completion history on the server, so it runs once a completion (or its
+// undo) has been written: a habit's streak and a recurring task's next occurrence
+async function runCompletionFollowUps(
+  operation: OutboxOperation,
+  task: TaskWithTags | undefined,
+  now: Date = new Date()
+): Promise<{ error: Error | null }> {
+  if (!task || (operation.kind !== 'complete_task' && operation.kind !== 'uncomplete_task')) {
+    return { error: null }
+  }
+
+  const store = useTaskStore.getState()
+
+  if (task.type === 'habit') {
+    const { error: streakError } = await store.updateHabitStreak(task.id, now)
+    if (streakError) {
+      return { error: streakError }
+    }
+  }
+
+  if (operation.kind === 'uncomplete_task') {
+    return operation.recurrenceId ? rewindSeries(operation.recurrenceId, task) : { error: null }
+  }
+
+  // Generate the next occurrence of a recurring task
+  const recurrence = useRecurrenceStore.getState().getRecurrenceByTaskId(task.id)
+  if (recurrence) {
+    const nextDueDate = getNextDueDate(recurrence, parseISO(operation.completion.completed_at))
+    if (nextDueDate) {
+      const { data: nextTask, error: nextTaskError } = await store.createTask({
+        title: task.title,
+        description: task.description,
+        status: 'ready',
+        type: task.type,
+        due_date: nextDueDate.toISOString(),
+        is_urgent: task.is_urgent,
+        is_important: task.is_important,
+        parent_id: task.parent_id,
+        estimated_minutes: task.estimated_minutes,
+        notes: task.notes,
+        timer_duration_minutes: task.timer_duration_minutes,
+        tags: task.tags,
+      })
+
+      if (nextTaskError || !nextTask) {
+        return { error: nextTaskError ?? new Error('Failed to create next occurrence') }
+      }
+
+      const { error: advanceError } = await useRecurrenceStore
+        .getState()
+        .advanceRecurrence(recurrence.id, nextTask.id, nextDueDate.toISOString())
+
+      if (advanceError) {
+        return { error: advanceError }
+      }
+    }
+  }
+
+  return { error: null }
+}
 
 interface TaskState {
   tasks: TaskWithTags[]
+  pendingMutations: PendingMutation[] // Local changes the server hasn't confirmed yet
+  ownerId: string | null // The user the loaded tasks belong to
+  // Newest server change fetchTasks has seen; realtime events don't move it, so whatever they
+  // miss (e.g. while the connection was down) is picked up by the next fetch
+  syncCursor: string | null
   loading: boolean
   error: string | null
   filters: TaskFilters
@@ -28,15 +423,30 @@ interface TaskState {
     data: Partial<TaskFormData>
   ) => Promise<{ error: Error | null }>
   deleteTask: (id: string) => Promise<{ error: Error | null }>
-  completeTask: (id: string) => Promise<{ error: Error | null }>
+  completeTask: (id: string, completedAt?: string) => Promise<{ error: Error | null }>
   uncompleteTask: (id: string) => Promise<{ error: Error | null }>
+  logPastCompletion: (id: string, completedAt: string) => Promise<{ error: Error | null }>
   archiveTask: (id: string) => Promise<{ error: Error | null }>
+  moveTask: (id: string, status: TaskStatus) => Promise<{ error: Error | null }>
+  reorderTasks: (orderedIds: string[]) => Promise<{ error: Error | null }>
+  shiftTask: (id: string, strategy: ShiftStrategy) => Promise<{ error: Error | null }>
+  addActualMinutes: (id: string, minutes: number) => Promise<{ error: Error | null }>
+
+  // Habit streaks
+  updateHabitStreak: (id: string, now?: Date) => Promise<{ error: Error | null }>
+  breakExpiredStreaks: (now?: Date) => Promise<void>
+
+  // Someday nudges
+  respondToNudge: (id: string, response: NudgeResponse) => Promise<{ error: Error | null }>
 
   // Tag management
   addTagToTask: (taskId: string, tagId: string) => Promise<{ error: Error | null }>
   removeTagFromTask: (taskId: string, tagId: string) => Promise<{ error: Error | null }>
   setTaskTags: (taskId: string, tagIds: string[]) => Promise<{ error: Error | null }>
 
+  // Offline changes
+  syncOutbox: () => Promise<void>
+
   // Filtering & sorting
   setFilters: (filters: Partial<TaskFilters>) => void
   clearFilters: () => void
@@ -48,53 +458,162 @@ interface TaskState {
   getChildTasks: (parentId: string) => TaskWithTags[]
   getTodayTasks: () => TaskWithTags[]
   getOverdueTasks: () => TaskWithTags[]
+  getSomedayTasksToReview: () => TaskWithTags[]
 
   // Real-time
   subscribeToTasks: () => void
   unsubscribeFromTasks: () => void
 }
 
-export const useTaskStore = create<TaskState>((set, get) => ({
-  tasks: [],
-  loading: false,
-  error: null,
-  filters: {},
-  sortBy: 'created_at',
-  sortOrder: 'desc',
+// Tasks indexed by id, parent, tag and due day, rebuilt only when the task list changes
+const indexTasks = memoizeLast(buildTaskIndex)
 
-  fetchTasks: async () => {
-    set({ loading: true, error: null })
+export function selectTaskIndex(state: Pick<TaskState, 'tasks'>): TaskIndex {
+  return indexTasks(state.tasks)
+}
 
-    // Fetch tasks
-    const { data: tasks, error: tasksError } = await supabase
-      .from('tasks')
-      .select('*')
-      .order('created_at', { ascending: false })
+// A tag filter only needs to look at the tasks carrying one of its tags
+function filterAndSortTasks(
+  tasks: TaskWithTags[],
+  filters: TaskFilters,
+  sortBy: TaskSortBy,
+  sortOrder: TaskSortOrder,
+  // Day the result was computed on, so date filters are re-run after midnight
+  _today: string
+): TaskWithTags[] {
+  const index = indexTasks(tasks)
+  const candidates =
+    filters.tags && filters.tags.length > 0
+      ? sortByListOrder(index, [
+          ...new Set(filters.tags.flatMap(tagId => index.byTag.get(tagId) ?? [])),
+        ])
+      : tasks
+
+  const filtered = candidates.filter(task => {
+    // Status filter
+    if (filters.status && filters.status.length > 0) {
+      if (!filters.status.includes(task.status)) return false
+    }
 
-    if (tasksError) {
-      set({ error: tasksError.message, loading: false })
-      return
+    // Type filter
+    if (filters.type && filters.type.length > 0) {
+      if (!filters.type.includes(task.type)) return false
     }
 
-    // Fetch task_tags relationships
-    const { data: taskTags, error: taskTagsError } = await supabase
-      .from('task_tags')
-      .select('task_id, tag_id')
+    // Priority filters
+    if (filters.is_urgent !== undefined && task.is_urgent !== filters.is_urgent) return false
+    if (filters.is_important !== undefined && task.is_important !== filters.is_important)
+      return false
 
-    if (taskTagsError) {
-      set({ error: taskTagsError.message, loading: false })
-      return
+    // Due date filters
+    if (filters.has_due_date !== undefined) {
+      const hasDueDate = task.due_date !== null
+      if (hasDueDate !== filters.has_due_date) return false
     }
 
-    // Combine tasks with their tags
-    const tasksWithTags: TaskWithTags[] = (tasks || []).map(task => ({
-      ...task,
-      tags: (taskTags || [])
-        .filter(tt => tt.task_id === task.id)
-        .map(tt => tt.tag_id),
-    }))
+    if (filters.is_overdue && !isTaskOverdue(task)) return false
+    if (filters.scheduled_for_today && !isTaskScheduledToday(task)) return false
+
+    // Parent filter
+    if (filters.parent_id !== undefined) {
+      if (task.parent_id !== filters.parent_id) return false
+    }
+
+    // Search filter
+    if (filters.search) {
+      const searchLower = filters.search.toLowerCase()
+      const titleMatch = task.title.toLowerCase().includes(searchLower)
+      const descMatch = task.description?.toLowerCase().includes(searchLower)
+      const notesMatch = task.notes?.toLowerCase().includes(searchLower)
+      if (!titleMatch && !descMatch && !notesMatch) return false
+    }
+
+    return true
+  })
+
+  // Sort
+  filtered.sort((a, b) => {
+    let aVal: any
+    let bVal: any
+
+    switch (sortBy) {
+      case 'title':
+        aVal = a.title.toLowerCase()
+        bVal = b.title.toLowerCase()
+        break
+      case 'due_date':
+        aVal = a.due_date ? parseISO(a.due_date).getTime() : Infinity
+        bVal = b.due_date ? parseISO(b.due_date).getTime() : Infinity
+        break
+      case 'scheduled_date':
+        aVal = a.scheduled_date ? parseISO(a.scheduled_date).getTime() : Infinity
+        bVal = b.scheduled_date ? parseISO(b.scheduled_date).getTime() : Infinity
+        break
+      case 'created_at':
+        aVal = parseISO(a.created_at).getTime()
+        bVal = parseISO(b.created_at).getTime()
+        break
+      case 'updated_at':
+        aVal = parseISO(a.updated_at).getTime()
+        bVal = parseISO(b.updated_at).getTime()
+        break
+      case 'order_index':
+        aVal = a.order_index
+        bVal = b.order_index
+        break
+      default:
+        aVal = a.created_at
+        bVal = b.created_at
+    }
+
+    if (aVal < bVal) return sortOrder === 'asc' ? -1 : 1
+    if (aVal > bVal) return sortOrder === 'asc' ? 1 : -1
+    return 0
+  })
+
+  return filtered
+}
 
-    set({ tasks: tasksWithTags, loading: false })
+const filterTasks = memoizeLast(filterAndSortTasks)
+
+// The same array is returned until the tasks, filters or sort change
+export function selectFilteredTasks(
+  state: Pick<TaskState, 'tasks' | 'filters' | 'sortBy' | 'sortOrder'>
+): TaskWithTags[] {
+  return filterTasks(
+    state.tasks,
+    state.filters,
+    state.sortBy,
+    state.sortOrder,
+    dueDayKey(new Date())
+  )
+}
+
+// One release per subscribeToTasks call still active
+const realtimeReleases: (() => void)[] = []
+
+// Tasks from the last session, shown while fetchTasks loads the current ones
+const taskSnapshot = readSnapshot<{ tasks: TaskWithTags[]; syncCursor: string | null }>('tasks')
+
+export const useTaskStore = create<TaskState>((set, get) => ({
+  tasks: taskSnapshot?.data.tasks ?? [],
+  pendingMutations: [],
+  ownerId: taskSnapshot?.userId ?? null,
+  syncCursor: taskSnapshot?.data.syncCursor ?? null,
+  loading: false,
+  error: null,
+  filters: {},
+  sortBy: 'created_at',
+  sortOrder: 'desc',
+
+  fetchTasks: () => {
+    // Calls made while a sync is running share it instead of asking for the same rows again
+    if (!runningSync) {
+      runningSync = syncTaskState().finally(() => {
+        runningSync = null
+      })
+    }
+    return runningSync
   },
 
   createTask: async (data: TaskFormData) => {
@@ -103,80 +622,119 @@ export const useTaskStore = create<TaskState>((set, get) => ({
       return { data: null, error: new Error('User not authenticated') }
     }
 
-    const { tags = [], ...taskData } = data
-
-    // Create task - only include fields that exist in current database schema
-    // Note: scheduled_date, estimated_minutes, notes will be added in future migrations
-    const { data: newTask, error: taskError } = await supabase
-      .from('tasks')
-      .insert({
-        user_id: user.id,
-        title: taskData.title,
-        description: taskData.description || null,
-        status: taskData.status || 'ready',
-        // Map type: DB only supports 'task', 'habit', 'parent' - map others to 'task'
-        type: taskData.type === 'recurring' || taskData.type === 'someday' ? 'task' : taskData.type || 'task',
-        due_date: taskData.due_date || null,
-        is_urgent: taskData.is_urgent || false,
-        is_important: taskData.is_important || false,
-        parent_id: taskData.parent_id || null,
-      })
-      .select()
-      .single()
-
-    if (taskError) {
-      console.error('Task creation error:', taskError)
-      return { data: null, error: new Error(taskError.message) }
+    const unsupportedError = getUnsupportedFieldsError(data)
+    if (unsupportedError) {
+      return { data: null, error: unsupportedError }
     }
 
-    // Add tags if provided
-    if (tags.length > 0) {
-      const { error: tagsError } = await supabase.from('task_tags').insert(
-        tags.map(tagId => ({
-          task_id: newTask.id,
-          tag_id: tagId,
-        }))
-      )
+    const { tags = [], recurrence, ...taskData } = data
+
+    // The id is generated here so the task can be shown before the server has stored it;
+    // user_id is filled in from the session by the database function
+    const id = crypto.randomUUID()
+    const newTaskRow: Omit<TablesInsert<'tasks'>, 'user_id'> & { id: string } = {
+      id,
+      title: taskData.title,
+      description: taskData.description || null,
+      status: taskData.status || 'ready',
+      type: taskData.type || 'task',
+      due_date: taskData.due_date || null,
+      scheduled_date: taskData.scheduled_date || null,
+      completed_at:
+        taskData.status === 'completed' ? taskData.completed_at || new Date().toISOString() : null,
+      is_urgent: taskData.is_urgent || false,
+      is_important: taskData.is_important || false,
+      parent_id: taskData.parent_id || null,
+      estimated_minutes: taskData.estimated_minutes || null,
+      notes: taskData.notes || null,
+      timer_duration_minutes: taskData.timer_duration_minutes || null,
+      target_frequency: taskData.type === 'habit' ? taskData.target_frequency || null : null,
+      time_of_day: taskData.type === 'habit' ? taskData.time_of_day || null : null,
+      nudge_threshold_days:
+        taskData.type === 'someday' ? taskData.nudge_threshold_days || null : null,
+    }
 
-      if (tagsError) {
-        console.error('Error adding tags:', tagsError)
+    // The recurrence pattern is attached once the task is stored
+    const { error: taskError } = await mutateTasks(
+      [id],
+      tasks => [{ ...toTask({ ...newTaskDefaults(id, user.id), ...newTaskRow }), tags }, ...tasks],
+      {
+        kind: 'create_task',
+        task: newTaskRow,
+        tagIds: tags,
+        recurrence: taskData.type === 'recurring' ? (recurrence ?? null) : null,
       }
-    }
+    )
 
-    // Optimistic update
-    set(state => ({
-      tasks: [{ ...newTask, tags }, ...state.tasks],
-    }))
+    if (taskError) {
+      console.error('Task creation error:', taskError)
+      return { data: null, error: taskError }
+    }
 
-    return { data: newTask, error: null }
+    return { data: get().getTaskById(id) ?? null, error: null }
   },
 
   updateTask: async (id: string, data: Partial<TaskFormData>) => {
-    const { tags, scheduled_date, estimated_minutes, notes, ...taskData } = data
+    const unsupportedError = getUnsupportedFieldsError(data)
+    if (unsupportedError) {
+      return { error: unsupportedError }
+    }
 
-    // Update task - filter out fields that don't exist in current schema
-    const { error: taskError } = await supabase
-      .from('tasks')
-      .update(taskData)
-      .eq('id', id)
+    const { tags, recurrence, ...taskData } = data
+
+    // Tags are only replaced if provided
+    const { error: taskError, queued } = await mutateTasks(
+      [id],
+      tasks =>
+        tasks.map(task =>
+          task.id === id
+            ? { ...task, ...taskData, tags: tags !== undefined ? tags : task.tags }
+            : task
+        ),
+      { kind: 'update_task', taskId: id, updates: taskData, tagIds: tags }
+    )
 
     if (taskError) {
-      return { error: new Error(taskError.message) }
+      return { error: taskError }
     }
 
-    // Update tags if provided
-    if (tags !== undefined) {
-      await get().setTaskTags(id, tags)
+    const recurrenceStore = useRecurrenceStore.getState()
+    const existingRecurrence = recurrenceStore.getRecurrenceByTaskId(id)
+
+    // Recurrence patterns aren't queued. The form always sends the current one, so only a
+    // real change is reported.
+    if (queued) {
+      const recurrenceChanged = recurrence
+        ? !existingRecurrence ||
+          existingRecurrence.type !== recurrence.type ||
+          JSON.stringify(existingRecurrence.frequency) !== JSON.stringify(recurrence.frequency)
+        : !!existingRecurrence && !!taskData.type && taskData.type !== 'recurring'
+
+      return {
+        error: recurrenceChanged
+          ? new Error('Repeat settings can only be changed online. Your other changes are saved.')
+          : null,
+      }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task =>
-        task.id === id
-          ? { ...task, ...taskData, tags: tags !== undefined ? tags : task.tags }
-          : task
-      ),
-    }))
+    // Update, attach or detach the recurrence pattern
+    if (recurrence) {
+      const { error: recurrenceError } = existingRecurrence
+        ? await recurrenceStore.updateRecurrence(existingRecurrence.id, recurrence)
+        : await recurrenceStore.createRecurrence(id, recurrence, taskData.due_date)
+
+      if (recurrenceError) {
+        return { error: recurrenceError }
+      }
+    } else if (existingRecurrence && taskData.type && taskData.type !== 'recurring') {
+      const { error: recurrenceError } = await recurrenceStore.deleteRecurrence(
+        existingRecurrence.id
+      )
+
+      if (recurrenceError) {
+        return { error: recurrenceError }
+      }
+    }
 
     return { error: null }
   },
@@ -190,257 +748,441 @@ export const useTaskStore = create<TaskState>((set, get) => ({
       }
     }
 
-    // Delete task_tags first (foreign key)
-    await supabase.from('task_tags').delete().eq('task_id', id)
-
-    // Delete task
-    const { error } = await supabase.from('tasks').delete().eq('id', id)
+    const { error } = await mutateTasks([id], tasks => tasks.filter(task => task.id !== id), {
+      kind: 'delete_task',
+      taskId: id,
+    })
 
     if (error) {
-      return { error: new Error(error.message) }
+      return { error }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.filter(task => task.id !== id),
+    // Recurrences cascade with their task
+    useRecurrenceStore.setState(state => ({
+      recurrences: state.recurrences.filter(rec => rec.task_id !== id),
     }))
 
     return { error: null }
   },
 
-  completeTask: async (id: string) => {
-    const now = new Date().toISOString()
+  completeTask: async (id: string, completedAtOverride?: string) => {
+    // A completion time in the past is a back-dated (retroactive) completion
+    const recordedAt = new Date()
+    const completedAt = completedAtOverride ? parseISO(completedAtOverride) : recordedAt
+    const wasRetroactive = completedAt.getTime() < recordedAt.getTime()
+    const now = completedAt.toISOString()
+
+    // Habits stay open; their completions live in the history and drive the streak
+    const task = get().getTaskById(id)
+    const updates =
+      task?.type === 'habit' ? null : { status: 'completed' as const, completed_at: now }
+
+    // The completion gets its id now so a replayed completion isn't recorded twice
+    const operation: OutboxOperation = {
+      kind: 'complete_task',
+      taskId: id,
+      updates,
+      completion: {
+        id: crypto.randomUUID(),
+        completed_at: now,
+        was_late: task ? isCompletionLate(task, completedAt) : false,
+        was_retroactive: wasRetroactive,
+        recurrence_id: useRecurrenceStore.getState().getRecurrenceByTaskId(id)?.id ?? null,
+      },
+    }
 
-    const { error } = await supabase
-      .from('tasks')
-      .update({ status: 'completed', completed_at: now })
-      .eq('id', id)
+    const { error, queued } = await mutateTasks(
+      [id],
+      tasks => tasks.map(t => (t.id === id && updates ? { ...t, ...updates } : t)),
+      operation
+    )
 
-    if (error) {
-      return { error: new Error(error.message) }
+    // A queued completion's streak and next occurrence follow once it has synced
+    if (error || queued) {
+      return { error }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task =>
-        task.id === id ? { ...task, status: 'completed' as const, completed_at: now } : task
-      ),
-    }))
-
-    return { error: null }
+    return runCompletionFollowUps(operation, task, recordedAt)
   },
 
   uncompleteTask: async (id: string) => {
-    const { error } = await supabase
-      .from('tasks')
-      .update({ status: 'ready', completed_at: null })
-      .eq('id', id)
+    const task = get().getTaskById(id)
+    const updates = task?.type === 'habit' ? null : { status: 'ready' as const, completed_at: null }
+
+    // Undo the completion this reverts, keeping earlier history intact. It is looked up now,
+    // so a replay removes the same one.
+    let completion: Completion | null =
+      useCompletionStore.getState().getCompletionsForTask(id)[0] ?? null
+    if (!completion && navigator.onLine) {
+      const { data: latest } = await getRepository().completions.getLatest(id)
+      completion = latest ?? null
+    }
+    // A habit stays open, so there is no status to tell whether a replay already undid it
+    if (!completion && updates === null) {
+      return { error: new Error("Reconnect to undo this habit's completion") }
+    }
+    // Without the completion there's no telling which series to take back
+    if (!completion && task?.type === 'recurring' && !navigator.onLine) {
+      return { error: new Error("Reconnect to undo this task's completion") }
+    }
 
-    if (error) {
-      return { error: new Error(error.message) }
+    // The next occurrence is taken back too, so the series is undone from its latest completion,
+    // and only while the next occurrence has no history of its own
+    const recurrenceId = completion?.recurrence_id ?? null
+    if (completion && recurrenceId) {
+      const completionStore = useCompletionStore.getState()
+      if (navigator.onLine) {
+        await completionStore.fetchSeriesCompletions(recurrenceId)
+      }
+      const history = completionStore.getCompletionsForSeries(recurrenceId)
+      const { later } = findSeries(recurrenceId, id)
+      if (history[0]?.id !== completion.id || history.some(c => c.task_id === later?.id)) {
+        return { error: new Error(LATER_OCCURRENCE_COMPLETED) }
+      }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task =>
-        task.id === id ? { ...task, status: 'ready' as const, completed_at: null } : task
-      ),
-    }))
+    const operation: OutboxOperation = {
+      kind: 'uncomplete_task',
+      taskId: id,
+      updates,
+      completionId: completion?.id ?? null,
+      recurrenceId,
+    }
 
-    return { error: null }
+    const { error, queued } = await mutateTasks(
+      [id],
+      tasks => tasks.map(t => (t.id === id && updates ? { ...t, ...updates } : t)),
+      operation
+    )
+
+    if (error || queued) {
+      return { error }
+    }
+
+    return runCompletionFollowUps(operation, task)
   },
 
-  archiveTask: async (id: string) => {
-    const { error } = await supabase.from('tasks').update({ status: 'archived' }).eq('id', id)
+  // Back-fills the history only: the task keeps its status, and a recurring task doesn't move
+  // on to its next occurrence. A habit's streak is worked out from the history again.
+  logPastCompletion: async (id: string, completedAt: string) => {
+    const task = get().getTaskById(id)
+    if (!task) {
+      return { error: new Error('Task not found') }
+    }
 
-    if (error) {
-      return { error: new Error(error.message) }
+    const date = parseISO(completedAt)
+    const { error } = await useCompletionStore.getState().recordCompletion(id, {
+      id: crypto.randomUUID(),
+      completed_at: date.toISOString(),
+      was_late: isCompletionLate(task, date),
+      was_retroactive: true,
+      recurrence_id: useRecurrenceStore.getState().getRecurrenceByTaskId(id)?.id ?? null,
+    })
+
+    if (error || task.type !== 'habit') {
+      return { error }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task =>
-        task.id === id ? { ...task, status: 'archived' as const } : task
-      ),
-    }))
+    return get().updateHabitStreak(id)
+  },
 
-    return { error: null }
+  archiveTask: async (id: string) => {
+    return patchTask(id, { status: 'archived' })
   },
 
-  addTagToTask: async (taskId: string, tagId: string) => {
-    const { error } = await supabase.from('task_tags').insert({ task_id: taskId, tag_id: tagId })
+  moveTask: async (id: string, status: TaskStatus) => {
+    const task = get().getTaskById(id)
+    if (!task) {
+      return { error: new Error('Task not found') }
+    }
 
-    if (error) {
-      return { error: new Error(error.message) }
+    if (task.status === status) {
+      return { error: null }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task =>
-        task.id === taskId ? { ...task, tags: [...task.tags, tagId] } : task
-      ),
-    }))
+    // Completion and archiving have their own side effects (history, next occurrence)
+    if (status === 'completed') {
+      return get().completeTask(id)
+    }
 
-    return { error: null }
+    if (status === 'archived') {
+      return get().archiveTask(id)
+    }
+
+    // Dragged out of Completed: reopen it the usual way, then move it to the column it was dropped on
+    if (task.status === 'completed') {
+      const { error } = await get().uncompleteTask(id)
+      if (error || status === 'ready') {
+        return { error }
+      }
+    }
+
+    return patchTask(id, { status })
   },
 
-  removeTagFromTask: async (taskId: string, tagId: string) => {
-    const { error } = await supabase
-      .from('task_tags')
-      .delete()
-      .eq('task_id', taskId)
-      .eq('tag_id', tagId)
+  reorderTasks: async (orderedIds: string[]) => {
+    const positions = new Map(orderedIds.map((id, index) => [id, index]))
+    const changed = get().tasks.filter(
+      task => positions.has(task.id) && positions.get(task.id) !== task.order_index
+    )
 
-    if (error) {
-      return { error: new Error(error.message) }
+    if (changed.length === 0) {
+      return { error: null }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task =>
-        task.id === taskId ? { ...task, tags: task.tags.filter(t => t !== tagId) } : task
-      ),
-    }))
-
-    return { error: null }
+    // Reorder locally first so cards don't jump back while the writes are in flight
+    return mutateTasks(
+      changed.map(task => task.id),
+      tasks =>
+        tasks.map(task =>
+          positions.has(task.id) ? { ...task, order_index: positions.get(task.id)! } : task
+        ),
+      {
+        kind: 'reorder_tasks',
+        orderIndexes: Object.fromEntries(changed.map(task => [task.id, positions.get(task.id)!])),
+      }
+    )
   },
 
-  setTaskTags: async (taskId: string, tagIds: string[]) => {
-    // Remove all existing tags
-    await supabase.from('task_tags').delete().eq('task_id', taskId)
+  shiftTask: async (id: string, strategy: ShiftStrategy) => {
+    const task = get().getTaskById(id)
+    if (!task) {
+      return { error: new Error('Task not found') }
+    }
 
-    // Add new tags
-    if (tagIds.length > 0) {
-      const { error } = await supabase
-        .from('task_tags')
-        .insert(tagIds.map(tagId => ({ task_id: taskId, tag_id: tagId })))
+    if (strategy.kind === 'days' && (!Number.isInteger(strategy.days) || strategy.days < 1)) {
+      return { error: new Error('Number of days must be a positive whole number') }
+    }
 
-      if (error) {
-        return { error: new Error(error.message) }
+    let updates: { due_date: string | null; type?: 'someday' }
+    if (strategy.kind === 'remove_due_date') {
+      if (task.type === 'recurring') {
+        return { error: new Error('Recurring tasks need a due date. Remove the recurrence first.') }
       }
+      // A one-off task without a date becomes a someday task (PRD 5.7)
+      updates = task.type === 'task' ? { due_date: null, type: 'someday' } : { due_date: null }
+    } else {
+      updates = { due_date: getShiftedDueDate(task.due_date, strategy) }
     }
 
-    // Optimistic update
-    set(state => ({
-      tasks: state.tasks.map(task => (task.id === taskId ? { ...task, tags: tagIds } : task)),
-    }))
+    // Only the current occurrence moves; a recurrence keeps its anchor and schedule,
+    // and a habit's streak is untouched
+    return patchTask(id, updates)
+  },
 
-    return { error: null }
+  addActualMinutes: async (id: string, minutes: number) => {
+    const task = get().getTaskById(id)
+    if (!task) {
+      return { error: new Error('Task not found') }
+    }
+
+    // Focus sessions accumulate on top of any time already logged
+    return patchTask(id, { actual_minutes: (task.actual_minutes ?? 0) + minutes })
   },
 
-  setFilters: (filters: Partial<TaskFilters>) => {
-    set(state => ({
-      filters: { ...state.filters, ...filters },
-    }))
+  updateHabitStreak: async (id: string, now: Date = new Date()) => {
+    const task = get().getTaskById(id)
+    if (!task || task.type !== 'habit') {
+      return { error: null }
+    }
+
+    // Streaks are derived from the full completion history; offline, the one already loaded
+    const completionStore = useCompletionStore.getState()
+    await completionStore.fetchCompletions(id)
+    const completions = completionStore.getCompletionsForTask(id)
+    const completedAts = completions.map(completion => parseISO(completion.completed_at))
+
+    const streak = calculateHabitStreak(completedAts, getHabitTarget(task), now)
+    const updates = {
+      last_completed_at: completions[0]?.completed_at ?? null,
+      current_streak: streak.currentStreak,
+      longest_streak: Math.max(task.longest_streak, streak.longestStreak),
+      streak_safe_until: streak.streakSafeUntil?.toISOString() ?? null,
+    }
+
+    return patchTask(id, updates)
   },
 
-  clearFilters: () => {
-    set({ filters: {} })
+  breakExpiredStreaks: async (now: Date = new Date()) => {
+    const expired = get().tasks.filter(task => task.type === 'habit' && isStreakExpired(task, now))
+    if (expired.length === 0) return
+
+    // One change per habit, so each is queued and checked for conflicts on its own
+    const results = await Promise.all(
+      expired.map(task => patchTask(task.id, { current_streak: 0, streak_safe_until: null }))
+    )
+
+    results.forEach(({ error }) => {
+      if (error) console.error('Error breaking expired streaks:', error)
+    })
   },
 
-  setSortBy: (sortBy: TaskSortBy, sortOrder: TaskSortOrder = 'asc') => {
-    set({ sortBy, sortOrder })
+  respondToNudge: async (id: string, response: NudgeResponse) => {
+    const task = get().getTaskById(id)
+    if (!task || task.type !== 'someday') {
+      return { error: new Error('Task is not a someday task') }
+    }
+
+    // Every answer counts as a nudge and restarts the untouched clock
+    const nudgeUpdates = {
+      last_nudged_at: new Date().toISOString(),
+      nudge_count: task.nudge_count + 1,
+    }
+
+    let updates
+    switch (response.action) {
+      case 'schedule':
+        updates = { ...nudgeUpdates, type: 'task' as const, due_date: response.due_date }
+        break
+      case 'drop':
+        updates = { ...nudgeUpdates, status: 'archived' as const }
+        break
+      default:
+        updates = nudgeUpdates
+    }
+
+    return patchTask(id, updates)
   },
 
-  getTaskById: (id: string) => {
-    return get().tasks.find(task => task.id === id)
+  addTagToTask: async (taskId: string, tagId: string) => {
+    return mutateTasks(
+      [taskId],
+      tasks =>
+        tasks.map(task => (task.id === taskId ? { ...task, tags: [...task.tags, tagId] } : task)),
+      { kind: 'add_task_tag', taskId, tagId }
+    )
   },
 
-  getFilteredTasks: () => {
-    const { tasks, filters, sortBy, sortOrder } = get()
+  removeTagFromTask: async (taskId: string, tagId: string) => {
+    return mutateTasks(
+      [taskId],
+      tasks =>
+        tasks.map(task =>
+          task.id === taskId ? { ...task, tags: task.tags.filter(t => t !== tagId) } : task
+        ),
+      { kind: 'remove_task_tag', taskId, tagId }
+    )
+  },
 
-    let filtered = tasks.filter(task => {
-      // Status filter
-      if (filters.status && filters.status.length > 0) {
-        if (!filters.status.includes(task.status)) return false
-      }
+  setTaskTags: async (taskId: string, tagIds: string[]) => {
+    return mutateTasks(
+      [taskId],
+      tasks => tasks.map(task => (task.id === taskId ? { ...task, tags: tagIds } : task)),
+      { kind: 'set_task_tags', taskId, tagIds }
+    )
+  },
 
-      // Type filter
-      if (filters.type && filters.type.length > 0) {
-        if (!filters.type.includes(task.type)) return false
-      }
+  syncOutbox: async () => {
+    const outbox = useOutboxStore.getState()
+    if (outbox.syncing || !navigator.onLine) return
 
-      // Tags filter
-      if (filters.tags && filters.tags.length > 0) {
-        if (!filters.tags.some(tagId => task.tags.includes(tagId))) return false
-      }
+    outbox.setSyncing(true)
+    let discarded = false
 
-      // Priority filters
-      if (filters.is_urgent !== undefined && task.is_urgent !== filters.is_urgent) return false
-      if (filters.is_important !== undefined && task.is_important !== filters.is_important)
-        return false
+    // Switched off again however the run ends, or one failure (in IndexedDB, say) stops every
+    // later run
+    try {
+      // One entry at a time, in the order the changes were made; a lost connection stops the run
+      // and leaves the rest queued
+      let entry: OutboxEntry | undefined
+      while ((entry = useOutboxStore.getState().entries[0])) {
+        const { operation } = entry
 
-      // Due date filters
-      if (filters.has_due_date !== undefined) {
-        const hasDueDate = task.due_date !== null
-        if (hasDueDate !== filters.has_due_date) return false
-      }
+        if ('taskId' in operation) {
+          const { data: current, error } = await getRepository().tasks.get(operation.taskId)
 
-      if (filters.is_overdue && !isTaskOverdue(task)) return false
-      if (filters.scheduled_for_today && !isTaskScheduledToday(task)) return false
+          if (error && isNetworkError(error)) break
 
-      // Parent filter
-      if (filters.parent_id !== undefined) {
-        if (task.parent_id !== filters.parent_id) return false
-      }
+          if (!error && !current) {
+            // Nothing left to apply the change to; a queued delete has simply already happened
+            if (operation.kind !== 'delete_task') {
+              outbox.reportConflict(entry, 'deleted_elsewhere')
+              discarded = true
+            }
+            await outbox.removeEntry(entry.id)
+            continue
+          }
 
-      // Search filter
-      if (filters.search) {
-        const searchLower = filters.search.toLowerCase()
-        const titleMatch = task.title.toLowerCase().includes(searchLower)
-        const descMatch = task.description?.toLowerCase().includes(searchLower)
-        const notesMatch = task.notes?.toLowerCase().includes(searchLower)
-        if (!titleMatch && !descMatch && !notesMatch) return false
-      }
+          // The change is still applied (last write wins), but the user hears about it
+          if (
+            current &&
+            entry.baseUpdatedAt &&
+            new Date(current.updated_at).getTime() !== new Date(entry.baseUpdatedAt).getTime()
+          ) {
+            outbox.reportConflict(entry, 'changed_elsewhere')
+          }
+        }
 
-      return true
-    })
+        const { data, error } = await executeOperation(operation)
+        if (error && isNetworkError(error)) break
 
-    // Sort
-    filtered.sort((a, b) => {
-      let aVal: any
-      let bVal: any
-
-      switch (sortBy) {
-        case 'title':
-          aVal = a.title.toLowerCase()
-          bVal = b.title.toLowerCase()
-          break
-        case 'due_date':
-          aVal = a.due_date ? parseISO(a.due_date).getTime() : Infinity
-          bVal = b.due_date ? parseISO(b.due_date).getTime() : Infinity
-          break
-        case 'scheduled_date':
-          aVal = a.scheduled_date ? parseISO(a.scheduled_date).getTime() : Infinity
-          bVal = b.scheduled_date ? parseISO(b.scheduled_date).getTime() : Infinity
-          break
-        case 'created_at':
-          aVal = parseISO(a.created_at).getTime()
-          bVal = parseISO(b.created_at).getTime()
-          break
-        case 'updated_at':
-          aVal = parseISO(a.updated_at).getTime()
-          bVal = parseISO(b.updated_at).getTime()
-          break
-        case 'order_index':
-          aVal = a.order_index
-          bVal = b.order_index
-          break
-        default:
-          aVal = a.created_at
-          bVal = b.created_at
+        await outbox.removeEntry(entry.id)
+
+        // Rejected changes are dropped so they don't hold up everything queued after them
+        if (error) {
+          outbox.reportConflict(entry, 'rejected', error.message)
+          discarded = true
+          continue
+        }
+
+        // Take the server's rows unless more local changes to them are still on their way
+        const rows = Array.isArray(data) ? data : data ? [data] : []
+        set(state => ({
+          tasks: state.tasks.map(task => {
+            const row = rows.find(r => r.id === task.id)
+            return row &&
+              !isEntityPending(state.pendingMutations, task.id) &&
+              !useOutboxStore.getState().hasQueuedChanges(task.id)
+              ? { ...toTask(row), tags: task.tags }
+              : task
+          }),
+        }))
+
+        const { error: followUpError } = await runCompletionFollowUps(
+          operation,
+          'taskId' in operation ? get().getTaskById(operation.taskId) : undefined
+        )
+        if (followUpError) {
+          console.error('Error finishing synced completion:', followUpError)
+        }
       }
+    } finally {
+      outbox.setSyncing(false)
+    }
 
-      if (aVal < bVal) return sortOrder === 'asc' ? -1 : 1
-      if (aVal > bVal) return sortOrder === 'asc' ? 1 : -1
-      return 0
-    })
+    // Dropped changes are still showing locally, and a delta wouldn't include those tasks
+    // unless they changed again. A full load puts back the server's version of each one
+    // (tasks with changes still queued keep theirs).
+    if (discarded) {
+      set({ syncCursor: null })
+      await get().fetchTasks()
+    }
+  },
 
-    return filtered
+  setFilters: (filters: Partial<TaskFilters>) => {
+    set(state => ({
+      filters: { ...state.filters, ...filters },
+    }))
+  },
+
+  clearFilters: () => {
+    set({ filters: {} })
+  },
+
+  setSortBy: (sortBy: TaskSortBy, sortOrder: TaskSortOrder = 'asc') => {
+    set({ sortBy, sortOrder })
+  },
+
+  getTaskById: (id: string) => {
+    return selectTaskIndex(get()).byId.get(id)
+  },
+
+  getFilteredTasks: () => {
+    return selectFilteredTasks(get())
   },
 
   getChildTasks: (parentId: string): TaskWithTags[] => {
-    return get().tasks.filter(task => task.parent_id === parentId)
+    return selectTaskIndex(get()).childrenByParent.get(parentId) ?? []
   },
 
   getTodayTasks: (): TaskWithTags[] => {
@@ -453,90 +1195,94 @@ export const useTaskStore = create<TaskState>((set, get) => ({
   },
 
   getOverdueTasks: (): TaskWithTags[] => {
-    return get().tasks.filter(task => isTaskOverdue(task))
+    const yesterday = dueDayKey(subDays(new Date(), 1))
+    return getTasksDueBetween(selectTaskIndex(get()), null, yesterday).filter(task =>
+      isTaskOverdue(task)
+    )
+  },
+
+  getSomedayTasksToReview: (): TaskWithTags[] => {
+    return get().tasks.filter(task => shouldNudgeSomedayTask(task))
   },
 
   subscribeToTasks: () => {
     const user = useAuthStore.getState().user
     if (!user) return
 
-    const channel = supabase
-      .channel('tasks-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'tasks',
-          filter: `user_id=eq.${user.id}`,
-        },
-        async payload => {
-          if (payload.eventType === 'INSERT' || payload.eventType === 'UPDATE') {
-            // Fetch tags for this task
-            const { data: taskTags } = await supabase
-              .from('task_tags')
-              .select('tag_id')
-              .eq('task_id', payload.new.id)
-
-            const tags = (taskTags || []).map(tt => tt.tag_id)
-
-            if (payload.eventType === 'INSERT') {
-              set(state => ({
-                tasks: [{ ...payload.new, tags } as TaskWithTags, ...state.tasks],
-              }))
-            } else {
-              set(state => ({
-                tasks: state.tasks.map(task =>
-                  task.id === payload.new.id ? ({ ...payload.new, tags } as TaskWithTags) : task
-                ),
-              }))
-            }
-          } else if (payload.eventType === 'DELETE') {
-            set(state => ({
-              tasks: state.tasks.filter(task => task.id !== payload.old.id),
-            }))
-          }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'task_tags',
-        },
-        payload => {
-          // Handle task_tags changes
-          if (payload.eventType === 'INSERT') {
-            const { task_id, tag_id } = payload.new
-            set(state => ({
-              tasks: state.tasks.map(task =>
-                task.id === task_id && !task.tags.includes(tag_id)
-                  ? { ...task, tags: [...task.tags, tag_id] }
-                  : task
-              ),
-            }))
-          } else if (payload.eventType === 'DELETE') {
-            const { task_id, tag_id } = payload.old
-            set(state => ({
-              tasks: state.tasks.map(task =>
-                task.id === task_id
-                  ? { ...task, tags: task.tags.filter(t => t !== tag_id) }
-                  : task
-              ),
-            }))
-          }
-        }
-      )
-      .subscribe()
-
-    ;(get() as any).channel = channel
+    realtimeReleases.push(retainRealtime(user.id))
   },
 
   unsubscribeFromTasks: () => {
-    const channel = (get() as any).channel
-    if (channel) {
-      supabase.removeChannel(channel)
-    }
+    realtimeReleases.pop()?.()
   },
 }))
+
+// A different user, or signing out, starts from an empty list so accounts never see each
+// other's tasks
+useAuthStore.subscribe(({ user, initialized }) => {
+  if (!initialized) return
+
+  const userId = user?.id ?? null
+  if (userId !== useTaskStore.getState().ownerId) {
+    clearSnapshot('tasks')
+    useTaskStore.setState({ tasks: [], pendingMutations: [], ownerId: userId, syncCursor: null })
+  }
+})
+
+useTaskStore.subscribe((state, previous) => {
+  if (
+    state.ownerId &&
+    (state.tasks !== previous.tasks || state.syncCursor !== previous.syncCursor)
+  ) {
+    writeSnapshot('tasks', state.ownerId, { tasks: state.tasks, syncCursor: state.syncCursor })
+  }
+})
+
+// Tasks with writes of ours still on their way to the server; realtime events would show an
+// older state until those land
+function hasUnsyncedChanges(taskId: string) {
+  return (
+    isEntityPending(useTaskStore.getState().pendingMutations, taskId) ||
+    useOutboxStore.getState().hasQueuedChanges(taskId)
+  )
+}
+
+onRealtimeChange('tasks', payload => {
+  if (payload.eventType === 'DELETE') {
+    useTaskStore.setState(state => ({
+      tasks: state.tasks.filter(task => task.id !== payload.old.id),
+    }))
+    return
+  }
+
+  const existing = useTaskStore.getState().getTaskById(payload.new.id)
+  if (hasUnsyncedChanges(payload.new.id) || isStaleEcho(payload.new, existing)) return
+
+  // Tag links arrive as task_tags events of their own, so the task keeps the tags it has
+  const task = { ...toTask(payload.new), tags: existing?.tags ?? [] }
+  useTaskStore.setState(state => ({
+    tasks: existing
+      ? state.tasks.map(current => (current.id === task.id ? task : current))
+      : [task, ...state.tasks],
+  }))
+})
+
+onRealtimeChange('task_tags', payload => {
+  const { task_id, tag_id } = payload.eventType === 'DELETE' ? payload.old : payload.new
+  if (!task_id || !tag_id || hasUnsyncedChanges(task_id)) return
+
+  useTaskStore.setState(state => ({
+    tasks: state.tasks.map(task => {
+      if (task.id !== task_id) return task
+      if (payload.eventType === 'DELETE') {
+        return { ...task, tags: task.tags.filter(id => id !== tag_id) }
+      }
+      return task.tags.includes(tag_id) ? task : { ...task, tags: [...task.tags, tag_id] }
+    }),
+  }))
+})
+
+// Catch up on whatever changed before the channel was (re)subscribed
+onRealtimeSubscribed(() => {
+  useTaskStore.getState().fetchTasks()
+})
@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { User } from '@supabase/supabase-js'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { useAuthStore } from '@/stores/authStore'
+import { useTimerStore } from '@/stores/timerStore'
+
+const user = { id: '8e4b2c1d-6f3a-4d5e-9b7c-0a1f2e3d4c5b' } as User
+const otherUser = { id: '2c7d9e1f-3a4b-4c5d-8e6f-7a8b9c0d1e2f' } as User
+
+beforeEach(() => {
+  useAuthStore.setState({ user, initialized: true })
+  useTimerStore.getState().cancelTimer()
+})
+
+describe('useTimerStore', () => {
+  it('keeps the running timer while the same user stays signed in', () => {
+    useTimerStore.getState().startTimer('task', 25)
+
+    useAuthStore.setState({ user: { ...user } })
+
+    expect(useTimerStore.getState().activeTimer).toMatchObject({ taskId: 'task' })
+  })
+
+  it('drops the running timer when another user signs in', () => {
+    useTimerStore.getState().startTimer('task', 25)
+
+    useAuthStore.setState({ user: otherUser })
+
+    expect(useTimerStore.getState()).toMatchObject({ activeTimer: null, ownerId: otherUser.id })
+  })
+})
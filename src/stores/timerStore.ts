@@ -0,0 +1,123 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { ActiveTimer } from '@/types/timer'
+import { getTimerElapsedMs } from '@/lib/timer-utils'
+import { useAuthStore } from './authStore'
+import { useTaskStore } from './taskStore'
+
+interface TimerState {
+  activeTimer: ActiveTimer | null
+  logActualMinutes: boolean
+  ownerId: string | null // Who the timer is running for; stored with it
+
+  // Actions
+  startTimer: (taskId: string, durationMinutes: number) => { error: Error | null }
+  pauseTimer: () => void
+  resumeTimer: () => void
+  cancelTimer: () => void
+  finishTimer: () => Promise<{ minutes: number; error: Error | null }>
+  setLogActualMinutes: (logActualMinutes: boolean) => void
+}
+
+export const useTimerStore = create<TimerState>()(
+  persist(
+    (set, get) => ({
+      activeTimer: null,
+      logActualMinutes: true,
+      ownerId: null,
+
+      startTimer: (taskId, durationMinutes) => {
+        const { activeTimer } = get()
+        if (activeTimer && activeTimer.taskId !== taskId) {
+          return {
+            error: new Error('Another timer is already running. Finish or cancel it first.'),
+          }
+        }
+
+        if (!Number.isInteger(durationMinutes) || durationMinutes <= 0) {
+          return { error: new Error('Timer duration must be a positive number of minutes') }
+        }
+
+        set({
+          activeTimer: {
+            taskId,
+            status: 'running',
+            durationMinutes,
+            startedAt: new Date().toISOString(),
+            elapsedMs: 0,
+          },
+        })
+
+        return { error: null }
+      },
+
+      pauseTimer: () => {
+        const { activeTimer } = get()
+        if (!activeTimer || activeTimer.status !== 'running') return
+
+        set({
+          activeTimer: {
+            ...activeTimer,
+            status: 'paused',
+            elapsedMs: getTimerElapsedMs(activeTimer),
+          },
+        })
+      },
+
+      resumeTimer: () => {
+        const { activeTimer } = get()
+        if (!activeTimer || activeTimer.status !== 'paused') return
+
+        set({
+          activeTimer: {
+            ...activeTimer,
+            status: 'running',
+            startedAt: new Date().toISOString(),
+          },
+        })
+      },
+
+      cancelTimer: () => set({ activeTimer: null }),
+
+      // Used both when the countdown runs out and when the user stops early
+      finishTimer: async () => {
+        const { activeTimer, logActualMinutes } = get()
+        if (!activeTimer) {
+          return { minutes: 0, error: null }
+        }
+
+        const elapsedMs = Math.min(
+          getTimerElapsedMs(activeTimer),
+          activeTimer.durationMinutes * 60_000
+        )
+        const minutes = Math.round(elapsedMs / 60_000)
+
+        set({ activeTimer: null })
+
+        if (logActualMinutes && minutes > 0) {
+          const { error } = await useTaskStore
+            .getState()
+            .addActualMinutes(activeTimer.taskId, minutes)
+          return { minutes, error }
+        }
+
+        return { minutes, error: null }
+      },
+
+      setLogActualMinutes: logActualMinutes => set({ logActualMinutes }),
+    }),
+    {
+      name: 'timer-storage',
+    }
+  )
+)
+
+// A running timer logs minutes to its user's task, so it stops when someone else signs in
+useAuthStore.subscribe(({ user, initialized }) => {
+  if (!initialized) return
+
+  const userId = user?.id ?? null
+  if (userId !== useTimerStore.getState().ownerId) {
+    useTimerStore.setState({ activeTimer: null, ownerId: userId })
+  }
+})
@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { EisenhowerQuadrant, QuadrantLabels, TaskStatus } from '@/types/task'
 
 type Theme = 'light' | 'dark' | 'system'
 
@@ -8,12 +9,18 @@ interface UIState {
   sidebarCollapsed: boolean
   selectedTask: string | null
   showCompletedTasks: boolean
+  kanbanWipLimits: Partial<Record<TaskStatus, number>>
+  collapsedKanbanColumns: TaskStatus[]
+  eisenhowerQuadrantLabels: QuadrantLabels
 
   // Actions
   setTheme: (theme: Theme) => void
   toggleSidebar: () => void
   selectTask: (id: string | null) => void
   toggleShowCompleted: () => void
+  setKanbanWipLimit: (status: TaskStatus, limit: number | null) => void
+  toggleKanbanColumn: (status: TaskStatus) => void
+  setQuadrantLabel: (quadrant: EisenhowerQuadrant, label: string) => void
 }
 
 export const useUIStore = create<UIState>()(
@@ -23,6 +30,9 @@ export const useUIStore = create<UIState>()(
       sidebarCollapsed: false,
       selectedTask: null,
       showCompletedTasks: false,
+      kanbanWipLimits: {},
+      collapsedKanbanColumns: ['archived'],
+      eisenhowerQuadrantLabels: {},
 
       setTheme: theme => set({ theme }),
 
@@ -32,6 +42,33 @@ export const useUIStore = create<UIState>()(
 
       toggleShowCompleted: () =>
         set(state => ({ showCompletedTasks: !state.showCompletedTasks })),
+
+      setKanbanWipLimit: (status, limit) =>
+        set(state => {
+          const kanbanWipLimits = { ...state.kanbanWipLimits }
+          if (limit) {
+            kanbanWipLimits[status] = limit
+          } else {
+            delete kanbanWipLimits[status]
+          }
+          return { kanbanWipLimits }
+        }),
+
+      toggleKanbanColumn: status =>
+        set(state => ({
+          collapsedKanbanColumns: state.collapsedKanbanColumns.includes(status)
+            ? state.collapsedKanbanColumns.filter(s => s !== status)
+            : [...state.collapsedKanbanColumns, status],
+        })),
+
+      // An empty label restores the default name
+      setQuadrantLabel: (quadrant, label) =>
+        set(state => ({
+          eisenhowerQuadrantLabels: {
+            ...state.eisenhowerQuadrantLabels,
+            [`q${quadrant}`]: label.trim() || undefined,
+          },
+        })),
     }),
     {
       name: 'ui-storage',
@@ -39,6 +76,9 @@ export const useUIStore = create<UIState>()(
         theme: state.theme,
         sidebarCollapsed: state.sidebarCollapsed,
         showCompletedTasks: state.showCompletedTasks,
+        kanbanWipLimits: state.kanbanWipLimits,
+        collapsedKanbanColumns: state.collapsedKanbanColumns,
+        eisenhowerQuadrantLabels: state.eisenhowerQuadrantLabels,
       }),
     }
   )
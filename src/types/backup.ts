@@ -0,0 +1,39 @@
+import { Tables } from '@/types/database'
+
+// A backup file: every row the user owns, as the database stores it but without the owner, so
+// it can be restored into any account (or another Supabase project).
+
+export const BACKUP_FORMAT = 'dothething-backup'
+export const BACKUP_VERSION = 2 // Bump when the shape of stored rows changes
+
+export type BackupTable =
+  | 'tasks'
+  | 'tags'
+  | 'task_tags'
+  | 'completions'
+  | 'recurrences'
+  | 'saved_views'
+
+export type BackupRow<T extends BackupTable> = Omit<Tables<T>, 'user_id'>
+
+export type BackupData = { [T in BackupTable]: BackupRow<T>[] }
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exported_at: string
+  data: BackupData
+}
+
+// What to do with a row the account already has (same id):
+// skip: keep the account's row; overwrite: replace it with the backup's; duplicate: restore
+// the backup's row as a copy under a new id
+export type ConflictStrategy = 'skip' | 'overwrite' | 'duplicate'
+
+export interface RestoreCounts {
+  created: number
+  updated: number
+  skipped: number
+}
+
+export type RestoreSummary = Record<Exclude<BackupTable, 'task_tags'>, RestoreCounts>
@@ -0,0 +1,5 @@
+import { Tables } from '@/types/database'
+
+// was_late: completed after the due date
+// was_retroactive: logged after the fact with a back-dated completion time
+export type Completion = Tables<'completions'>
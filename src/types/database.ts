@@ -1,257 +1,584 @@
-export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
-
-export enum TaskType {
-  Task = 'task',
-  Habit = 'habit',
-  Parent = 'parent',
-}
-
-export enum TaskStatus {
-  Ready = 'ready',
-  InProgress = 'in_progress',
-  Blocked = 'blocked',
-  Completed = 'completed',
-  Archived = 'archived',
-}
-
-export enum RecurrenceType {
-  FixedSchedule = 'fixed_schedule',
-  AfterCompletion = 'after_completion',
-}
+// The schema in supabase/migrations, in the shape `supabase gen types typescript` produces.
+// There is no Supabase project config in the repo to generate it from, so it is kept by hand:
+// a migration that changes a table, enum or function updates this file in the same commit.
 
-export enum ViewMode {
-  List = 'list',
-  Kanban = 'kanban',
-  Eisenhower = 'eisenhower',
-  Today = 'today',
-  Habits = 'habits',
-}
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[]
 
-export interface Database {
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: '12'
+  }
   public: {
     Tables: {
-      tags: {
+      completions: {
         Row: {
+          completed_at: string
           id: string
-          user_id: string
-          name: string
-          color: string
-          icon: string | null
-          parent_id: string | null
-          created_at: string
+          recurrence_id: string | null
+          task_id: string
+          was_late: boolean
+          was_retroactive: boolean
         }
         Insert: {
+          completed_at?: string
           id?: string
-          user_id: string
-          name: string
-          color: string
-          icon?: string | null
-          parent_id?: string | null
-          created_at?: string
+          recurrence_id?: string | null
+          task_id: string
+          was_late?: boolean
+          was_retroactive?: boolean
         }
         Update: {
+          completed_at?: string
           id?: string
-          user_id?: string
-          name?: string
-          color?: string
-          icon?: string | null
-          parent_id?: string | null
-          created_at?: string
+          recurrence_id?: string | null
+          task_id?: string
+          was_late?: boolean
+          was_retroactive?: boolean
         }
+        Relationships: [
+          {
+            foreignKeyName: 'completions_recurrence_id_fkey'
+            columns: ['recurrence_id']
+            isOneToOne: false
+            referencedRelation: 'recurrences'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'completions_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
       }
-      tasks: {
+      deleted_rows: {
         Row: {
+          deleted_at: string
           id: string
+          row_id: string
+          table_name: string
           user_id: string
-          title: string
-          description: string | null
-          type: TaskType
-          status: TaskStatus
-          blocked_reason: string | null
-          parent_id: string | null
-          due_date: string | null
-          has_due_date: boolean
-          started_at: string | null
-          last_completed_at: string | null
-          completed_count: number
-          timer_duration_minutes: number | null
-          current_streak: number
-          longest_streak: number
-          streak_safe_until: string | null
-          target_frequency: Json | null
-          is_urgent: boolean
-          is_important: boolean
-          nudge_threshold_days: number | null
-          last_nudged_at: string | null
-          created_at: string
-          updated_at: string
         }
         Insert: {
+          deleted_at?: string
           id?: string
+          row_id: string
+          table_name: string
           user_id: string
-          title: string
-          description?: string | null
-          type?: TaskType
-          status?: TaskStatus
-          blocked_reason?: string | null
-          parent_id?: string | null
-          due_date?: string | null
-          has_due_date?: boolean
-          started_at?: string | null
-          last_completed_at?: string | null
-          completed_count?: number
-          timer_duration_minutes?: number | null
-          current_streak?: number
-          longest_streak?: number
-          streak_safe_until?: string | null
-          target_frequency?: Json | null
-          is_urgent?: boolean
-          is_important?: boolean
-          nudge_threshold_days?: number | null
-          last_nudged_at?: string | null
-          created_at?: string
-          updated_at?: string
         }
         Update: {
+          deleted_at?: string
           id?: string
+          row_id?: string
+          table_name?: string
           user_id?: string
-          title?: string
-          description?: string | null
-          type?: TaskType
-          status?: TaskStatus
-          blocked_reason?: string | null
-          parent_id?: string | null
-          due_date?: string | null
-          has_due_date?: boolean
-          started_at?: string | null
-          last_completed_at?: string | null
-          completed_count?: number
-          timer_duration_minutes?: number | null
-          current_streak?: number
-          longest_streak?: number
-          streak_safe_until?: string | null
-          target_frequency?: Json | null
-          is_urgent?: boolean
-          is_important?: boolean
-          nudge_threshold_days?: number | null
-          last_nudged_at?: string | null
-          created_at?: string
-          updated_at?: string
         }
+        Relationships: []
       }
-      task_tags: {
+      recurrences: {
         Row: {
+          anchor_date: string | null
+          created_at: string
+          frequency: Json
+          id: string
+          next_due_date: string
           task_id: string
-          tag_id: string
+          type: Database['public']['Enums']['recurrence_type']
         }
         Insert: {
+          anchor_date?: string | null
+          created_at?: string
+          frequency: Json
+          id?: string
+          next_due_date: string
           task_id: string
-          tag_id: string
+          type: Database['public']['Enums']['recurrence_type']
         }
         Update: {
+          anchor_date?: string | null
+          created_at?: string
+          frequency?: Json
+          id?: string
+          next_due_date?: string
           task_id?: string
-          tag_id?: string
+          type?: Database['public']['Enums']['recurrence_type']
         }
+        Relationships: [
+          {
+            foreignKeyName: 'recurrences_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
       }
-      recurrences: {
+      saved_views: {
         Row: {
-          id: string
-          task_id: string
-          type: RecurrenceType
-          frequency: Json
-          anchor_date: string | null
-          next_due_date: string
           created_at: string
+          display_options: Json | null
+          filters: Json
+          icon: string | null
+          id: string
+          is_default: boolean
+          is_pinned: boolean
+          name: string
+          position: number
+          sort_order: Json
+          updated_at: string
+          user_id: string
+          view_mode: Database['public']['Enums']['view_mode']
         }
         Insert: {
-          id?: string
-          task_id: string
-          type: RecurrenceType
-          frequency: Json
-          anchor_date?: string | null
-          next_due_date: string
           created_at?: string
+          display_options?: Json | null
+          filters?: Json
+          icon?: string | null
+          id?: string
+          is_default?: boolean
+          is_pinned?: boolean
+          name: string
+          position?: number
+          sort_order?: Json
+          updated_at?: string
+          user_id: string
+          view_mode: Database['public']['Enums']['view_mode']
         }
         Update: {
-          id?: string
-          task_id?: string
-          type?: RecurrenceType
-          frequency?: Json
-          anchor_date?: string | null
-          next_due_date?: string
           created_at?: string
+          display_options?: Json | null
+          filters?: Json
+          icon?: string | null
+          id?: string
+          is_default?: boolean
+          is_pinned?: boolean
+          name?: string
+          position?: number
+          sort_order?: Json
+          updated_at?: string
+          user_id?: string
+          view_mode?: Database['public']['Enums']['view_mode']
         }
+        Relationships: []
       }
-      completions: {
+      tags: {
         Row: {
+          color: Database['public']['Enums']['tag_color'] | null
+          created_at: string
+          gradient: Database['public']['Enums']['tag_gradient'] | null
+          icon: string | null
           id: string
-          task_id: string
-          completed_at: string
-          was_late: boolean
-          was_retroactive: boolean
+          name: string
+          parent_id: string | null
+          updated_at: string
+          user_id: string
         }
         Insert: {
+          color?: Database['public']['Enums']['tag_color'] | null
+          created_at?: string
+          gradient?: Database['public']['Enums']['tag_gradient'] | null
+          icon?: string | null
           id?: string
-          task_id: string
-          completed_at?: string
-          was_late?: boolean
-          was_retroactive?: boolean
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id: string
         }
         Update: {
+          color?: Database['public']['Enums']['tag_color'] | null
+          created_at?: string
+          gradient?: Database['public']['Enums']['tag_gradient'] | null
+          icon?: string | null
           id?: string
-          task_id?: string
-          completed_at?: string
-          was_late?: boolean
-          was_retroactive?: boolean
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+          user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'tags_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'tags'
+            referencedColumns: ['id']
+          },
+        ]
       }
-      saved_views: {
+      task_tags: {
         Row: {
-          id: string
+          tag_id: string
+          task_id: string
           user_id: string
-          name: string
-          icon: string | null
-          view_mode: ViewMode
-          filters: Json
-          sort_order: Json
-          display_options: Json | null
-          is_pinned: boolean
-          is_default: boolean
-          position: number
+        }
+        Insert: {
+          tag_id: string
+          task_id: string
+          user_id?: string
+        }
+        Update: {
+          tag_id?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'task_tags_tag_id_fkey'
+            columns: ['tag_id']
+            isOneToOne: false
+            referencedRelation: 'tags'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'task_tags_task_id_fkey'
+            columns: ['task_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          actual_minutes: number | null
+          blocked_reason: string | null
+          completed_at: string | null
+          completed_count: number
           created_at: string
+          current_streak: number
+          description: string | null
+          due_date: string | null
+          estimated_minutes: number | null
+          has_due_date: boolean
+          id: string
+          is_important: boolean
+          is_urgent: boolean
+          last_completed_at: string | null
+          last_nudged_at: string | null
+          longest_streak: number
+          notes: string | null
+          nudge_count: number
+          nudge_threshold_days: number | null
+          order_index: number
+          parent_id: string | null
+          scheduled_date: string | null
+          started_at: string | null
+          status: Database['public']['Enums']['task_status']
+          streak_safe_until: string | null
+          target_frequency: Json | null
+          time_of_day: Database['public']['Enums']['habit_time_of_day'] | null
+          timer_duration_minutes: number | null
+          title: string
+          type: Database['public']['Enums']['task_type']
           updated_at: string
+          user_id: string
         }
         Insert: {
-          id?: string
-          user_id: string
-          name: string
-          icon?: string | null
-          view_mode: ViewMode
-          filters?: Json
-          sort_order?: Json
-          display_options?: Json | null
-          is_pinned?: boolean
-          is_default?: boolean
-          position?: number
+          actual_minutes?: number | null
+          blocked_reason?: string | null
+          completed_at?: string | null
+          completed_count?: number
           created_at?: string
+          current_streak?: number
+          description?: string | null
+          due_date?: string | null
+          estimated_minutes?: number | null
+          has_due_date?: boolean
+          id?: string
+          is_important?: boolean
+          is_urgent?: boolean
+          last_completed_at?: string | null
+          last_nudged_at?: string | null
+          longest_streak?: number
+          notes?: string | null
+          nudge_count?: number
+          nudge_threshold_days?: number | null
+          order_index?: number
+          parent_id?: string | null
+          scheduled_date?: string | null
+          started_at?: string | null
+          status?: Database['public']['Enums']['task_status']
+          streak_safe_until?: string | null
+          target_frequency?: Json | null
+          time_of_day?: Database['public']['Enums']['habit_time_of_day'] | null
+          timer_duration_minutes?: number | null
+          title: string
+          type?: Database['public']['Enums']['task_type']
           updated_at?: string
+          user_id: string
         }
         Update: {
-          id?: string
-          user_id?: string
-          name?: string
-          icon?: string | null
-          view_mode?: ViewMode
-          filters?: Json
-          sort_order?: Json
-          display_options?: Json | null
-          is_pinned?: boolean
-          is_default?: boolean
-          position?: number
+          actual_minutes?: number | null
+          blocked_reason?: string | null
+          completed_at?: string | null
+          completed_count?: number
           created_at?: string
+          current_streak?: number
+          description?: string | null
+          due_date?: string | null
+          estimated_minutes?: number | null
+          has_due_date?: boolean
+          id?: string
+          is_important?: boolean
+          is_urgent?: boolean
+          last_completed_at?: string | null
+          last_nudged_at?: string | null
+          longest_streak?: number
+          notes?: string | null
+          nudge_count?: number
+          nudge_threshold_days?: number | null
+          order_index?: number
+          parent_id?: string | null
+          scheduled_date?: string | null
+          started_at?: string | null
+          status?: Database['public']['Enums']['task_status']
+          streak_safe_until?: string | null
+          target_frequency?: Json | null
+          time_of_day?: Database['public']['Enums']['habit_time_of_day'] | null
+          timer_duration_minutes?: number | null
+          title?: string
+          type?: Database['public']['Enums']['task_type']
           updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'tasks_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'tasks'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      create_task_with_tags: {
+        Args: { p_tag_ids?: string[]; p_task: Json }
+        Returns: {
+          actual_minutes: number | null
+          blocked_reason: string | null
+          completed_at: string | null
+          completed_count: number
+          created_at: string
+          current_streak: number
+          description: string | null
+          due_date: string | null
+          estimated_minutes: number | null
+          has_due_date: boolean
+          id: string
+          is_important: boolean
+          is_urgent: boolean
+          last_completed_at: string | null
+          last_nudged_at: string | null
+          longest_streak: number
+          notes: string | null
+          nudge_count: number
+          nudge_threshold_days: number | null
+          order_index: number
+          parent_id: string | null
+          scheduled_date: string | null
+          started_at: string | null
+          status: Database['public']['Enums']['task_status']
+          streak_safe_until: string | null
+          target_frequency: Json | null
+          time_of_day: Database['public']['Enums']['habit_time_of_day'] | null
+          timer_duration_minutes: number | null
+          title: string
+          type: Database['public']['Enums']['task_type']
+          updated_at: string
+          user_id: string
         }
       }
+      get_server_time: { Args: never; Returns: string }
+      replace_task_tags: {
+        Args: { p_tag_ids: string[]; p_task_id: string }
+        Returns: undefined
+      }
+    }
+    Enums: {
+      habit_time_of_day: 'morning' | 'afternoon' | 'evening' | 'anytime'
+      recurrence_type: 'fixed_schedule' | 'after_completion'
+      tag_color:
+        | 'red'
+        | 'orange'
+        | 'amber'
+        | 'yellow'
+        | 'lime'
+        | 'green'
+        | 'emerald'
+        | 'teal'
+        | 'cyan'
+        | 'sky'
+        | 'blue'
+        | 'indigo'
+        | 'violet'
+        | 'purple'
+        | 'fuchsia'
+        | 'pink'
+        | 'rose'
+        | 'gray'
+      tag_gradient: 'sunset' | 'ocean' | 'forest' | 'twilight' | 'rose' | 'candy' | 'sky' | 'fire'
+      task_status: 'ready' | 'in_progress' | 'blocked' | 'completed' | 'archived'
+      task_type: 'task' | 'habit' | 'recurring' | 'someday'
+      view_mode: 'list' | 'kanban' | 'eisenhower' | 'today' | 'habits'
+    }
+    CompositeTypes: {
+      [_ in never]: never
     }
   }
 }
+
+type DatabaseWithoutInternals = Omit<Database, '__InternalSupabase'>
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, 'public'>]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] & DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema['Enums']
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema['CompositeTypes']
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes']
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes'][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema['CompositeTypes']
+    ? DefaultSchema['CompositeTypes'][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      habit_time_of_day: ['morning', 'afternoon', 'evening', 'anytime'],
+      recurrence_type: ['fixed_schedule', 'after_completion'],
+      tag_color: [
+        'red',
+        'orange',
+        'amber',
+        'yellow',
+        'lime',
+        'green',
+        'emerald',
+        'teal',
+        'cyan',
+        'sky',
+        'blue',
+        'indigo',
+        'violet',
+        'purple',
+        'fuchsia',
+        'pink',
+        'rose',
+        'gray',
+      ],
+      tag_gradient: ['sunset', 'ocean', 'forest', 'twilight', 'rose', 'candy', 'sky', 'fire'],
+      task_status: ['ready', 'in_progress', 'blocked', 'completed', 'archived'],
+      task_type: ['task', 'habit', 'recurring', 'someday'],
+      view_mode: ['list', 'kanban', 'eisenhower', 'today', 'habits'],
+    },
+  },
+} as const
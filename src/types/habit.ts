@@ -0,0 +1,18 @@
+import { Enums } from '@/types/database'
+
+export type HabitPeriod = 'day' | 'week' | 'month'
+
+export type HabitTimeOfDay = Enums<'habit_time_of_day'>
+
+// Stored in the tasks.target_frequency JSONB column
+export type HabitTargetFrequency = {
+  count: number // Completions needed per period, e.g. 3 times per week
+  period: HabitPeriod
+  grace_days?: number // Extra days allowed after a missed period before the streak breaks
+}
+
+export interface HabitStreak {
+  currentStreak: number
+  longestStreak: number
+  streakSafeUntil: Date | null // The streak breaks if the next period isn't met by then
+}
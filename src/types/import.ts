@@ -0,0 +1,37 @@
+import { TaskFormData } from '@/types/task'
+
+// Tasks and tags read from another app's export, before anything is created. Rows refer to each
+// other by keys taken from the export (or made up by the parser), since they have no ids yet.
+
+export type ImportSource =
+  | 'todoist_csv'
+  | 'todoist_json'
+  | 'ticktick_csv'
+  | 'taskwarrior_json'
+  | 'ical'
+
+// A project, list, section, label or category, placed in the tag tree under its parent
+export interface ImportedTag {
+  key: string
+  name: string
+  parentKey: string | null
+}
+
+export interface ImportedTask {
+  key: string
+  parentKey: string | null // For subtasks
+  tagKeys: string[]
+  data: Omit<TaskFormData, 'parent_id' | 'tags'>
+}
+
+export interface ImportResult {
+  tasks: ImportedTask[] // Parents come before their subtasks
+  tags: ImportedTag[] // Parents come before their children
+  warnings: string[] // What was left out or couldn't be read
+}
+
+// Reads one export file. fileName matters for exports that only name their project there.
+export type ImportParser = (
+  content: string,
+  fileName: string
+) => { data: ImportResult | null; error: Error | null }
@@ -0,0 +1,65 @@
+import { TablesInsert, TablesUpdate } from '@/types/database'
+import { Completion } from '@/types/completion'
+import { RecurrenceFormData } from '@/types/recurrence'
+
+// A task change that can be written to the server later. Every row an operation creates gets
+// its id when the change is made, so writing the same operation twice can't create duplicates.
+export type OutboxOperation =
+  | {
+      kind: 'create_task'
+      task: Omit<TablesInsert<'tasks'>, 'user_id'> & { id: string }
+      tagIds: string[]
+      recurrence: RecurrenceFormData | null
+    }
+  | { kind: 'update_task'; taskId: string; updates: TablesUpdate<'tasks'>; tagIds?: string[] }
+  | {
+      kind: 'complete_task'
+      taskId: string
+      updates: TablesUpdate<'tasks'> | null // Habits stay open, so only their history changes
+      completion: Pick<
+        Completion,
+        'id' | 'completed_at' | 'was_late' | 'was_retroactive' | 'recurrence_id'
+      >
+    }
+  | {
+      kind: 'uncomplete_task'
+      taskId: string
+      updates: TablesUpdate<'tasks'> | null
+      // null when it couldn't be looked up offline; the latest is removed if the task is completed
+      completionId: string | null
+      // The series the completion moved on to its next occurrence, which is taken back
+      recurrenceId: string | null
+    }
+  | { kind: 'reorder_tasks'; orderIndexes: Record<string, number> }
+  | { kind: 'add_task_tag'; taskId: string; tagId: string }
+  | { kind: 'remove_task_tag'; taskId: string; tagId: string }
+  | { kind: 'set_task_tags'; taskId: string; tagIds: string[] }
+  | { kind: 'delete_task'; taskId: string }
+
+export type OutboxOperationKind = OutboxOperation['kind']
+
+// A queued operation as stored in IndexedDB. The id is the entry's idempotency key: an entry
+// is only removed once its operation has been written, and replaying it again is harmless.
+export interface OutboxEntry {
+  id: string
+  userId: string
+  operation: OutboxOperation
+  entityIds: string[] // Tasks the operation touches
+  label: string // Task title when the change was made, for the pending list and conflicts
+  // updated_at of the task when its first queued change was made; a different value on
+  // replay means the task was changed elsewhere in the meantime
+  baseUpdatedAt: string | null
+  queuedAt: string
+  sequence: number // Replay order
+}
+
+export type OutboxConflictReason = 'changed_elsewhere' | 'deleted_elsewhere' | 'rejected'
+
+export interface OutboxConflict {
+  id: string // The entry the conflict was found on
+  kind: OutboxOperationKind
+  label: string
+  reason: OutboxConflictReason
+  message: string | null // Server error for rejected changes
+  detectedAt: string
+}
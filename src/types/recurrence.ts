@@ -0,0 +1,26 @@
+import { Enums, Tables } from '@/types/database'
+
+export type RecurrenceType = Enums<'recurrence_type'>
+
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6 // Sunday = 0, Monday = 1, etc.
+
+// Stored in the recurrences.frequency JSONB column
+export type RecurrenceFrequency =
+  | { kind: 'daily' }
+  | { kind: 'every_n_days'; interval: number }
+  | { kind: 'weekdays'; days: DayOfWeek[] }
+  | { kind: 'day_of_month'; day: number } // 1-31, or -1 for the last day of the month
+  | { kind: 'nth_weekday'; week: number; weekday: DayOfWeek } // week 1-5, or -1 for the last
+
+export type RecurrenceFrequencyKind = RecurrenceFrequency['kind']
+
+// task_id is the currently open occurrence; anchor_date is required for fixed_schedule
+export interface Recurrence extends Omit<Tables<'recurrences'>, 'frequency'> {
+  frequency: RecurrenceFrequency
+}
+
+export interface RecurrenceFormData {
+  type: RecurrenceType
+  frequency: RecurrenceFrequency
+  anchor_date?: string | null
+}
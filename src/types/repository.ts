@@ -0,0 +1,98 @@
+import { Tables, TablesInsert, TablesUpdate } from '@/types/database'
+
+// Where the app's data is stored. Stores only talk to this interface, so the same code runs
+// against Supabase or against the browser. Both backends behave alike: rows are scoped to the
+// signed-in user, updated_at is maintained on write, deletes cascade, and failures carry the
+// Postgres error code (23505 for a duplicate key, for instance).
+
+export type BackendKind = 'supabase' | 'local'
+
+export interface RepositoryError {
+  message: string
+  code?: string
+}
+
+export type RepositoryResult<T> = Promise<
+  { data: T; error: null } | { data: null; error: RepositoryError }
+>
+
+// A task as the app creates it; the id is chosen by the app and the owner is the current user
+export type NewTask = Omit<TablesInsert<'tasks'>, 'user_id'> & { id: string }
+
+export interface TaskTombstone {
+  row_id: string
+  deleted_at: string
+}
+
+export interface TaskRepository {
+  // Newest first; with changedSince, only tasks updated after that time
+  list: (options?: { changedSince?: string }) => RepositoryResult<Tables<'tasks'>[]>
+  get: (id: string) => RepositoryResult<Tables<'tasks'> | null>
+  // Stores the task and its tag links together, or neither
+  create: (task: NewTask, tagIds: string[]) => RepositoryResult<Tables<'tasks'>>
+  update: (id: string, updates: TablesUpdate<'tasks'>) => RepositoryResult<Tables<'tasks'>>
+  updateMany: (ids: string[], updates: TablesUpdate<'tasks'>) => RepositoryResult<Tables<'tasks'>[]>
+  // Tasks that no longer exist are skipped
+  reorder: (orderIndexes: Record<string, number>) => RepositoryResult<Tables<'tasks'>[]>
+  // Subtasks, tag links, completions and recurrences go with the task
+  delete: (id: string) => RepositoryResult<null>
+  listDeletedSince: (since: string) => RepositoryResult<TaskTombstone[]>
+  serverTime: () => RepositoryResult<string> // NOW() on the database, for sync cursors
+}
+
+export interface TaskTagRepository {
+  list: (taskIds: string[] | null) => RepositoryResult<Tables<'task_tags'>[]> // null for all
+  add: (taskId: string, tagId: string) => RepositoryResult<null> // Already linked is fine
+  remove: (taskId: string, tagId: string) => RepositoryResult<null>
+  // Makes the task's tags exactly tagIds, in one step
+  replace: (taskId: string, tagIds: string[]) => RepositoryResult<null>
+}
+
+export interface TagRepository {
+  list: () => RepositoryResult<Tables<'tags'>[]> // By name
+  create: (tag: TablesInsert<'tags'>) => RepositoryResult<Tables<'tags'>>
+  update: (id: string, updates: TablesUpdate<'tags'>) => RepositoryResult<Tables<'tags'>>
+  delete: (id: string) => RepositoryResult<null> // Child tags are kept, without a parent
+}
+
+export interface CompletionRepository {
+  // Newest first; null for every task
+  list: (taskIds: string[] | null) => RepositoryResult<Tables<'completions'>[]>
+  // Newest first, across every occurrence of the series
+  listForRecurrence: (recurrenceId: string) => RepositoryResult<Tables<'completions'>[]>
+  getLatest: (taskId: string) => RepositoryResult<Tables<'completions'> | null>
+  create: (completion: TablesInsert<'completions'>) => RepositoryResult<Tables<'completions'>>
+  delete: (id: string) => RepositoryResult<null>
+}
+
+export interface RecurrenceRepository {
+  list: () => RepositoryResult<Tables<'recurrences'>[]>
+  create: (recurrence: TablesInsert<'recurrences'>) => RepositoryResult<Tables<'recurrences'>>
+  update: (
+    id: string,
+    updates: TablesUpdate<'recurrences'>
+  ) => RepositoryResult<Tables<'recurrences'>>
+  delete: (id: string) => RepositoryResult<null>
+}
+
+export interface SavedViewRepository {
+  list: () => RepositoryResult<Tables<'saved_views'>[]> // By position
+  create: (view: TablesInsert<'saved_views'>) => RepositoryResult<Tables<'saved_views'>>
+  update: (
+    id: string,
+    updates: TablesUpdate<'saved_views'>
+  ) => RepositoryResult<Tables<'saved_views'>>
+  delete: (id: string) => RepositoryResult<null>
+  // Clears the current default, then marks id (if any) as the default
+  setDefault: (id: string | null) => RepositoryResult<null>
+}
+
+export interface Repository {
+  kind: BackendKind
+  tasks: TaskRepository
+  taskTags: TaskTagRepository
+  tags: TagRepository
+  completions: CompletionRepository
+  recurrences: RecurrenceRepository
+  savedViews: SavedViewRepository
+}
@@ -0,0 +1,34 @@
+import { Enums, Tables } from '@/types/database'
+import { TaskFilters, TaskSortBy, TaskSortOrder } from '@/types/task'
+
+export type ViewMode = Enums<'view_mode'>
+
+// Stored in the saved_views.sort_order JSONB column
+export type SavedViewSort = {
+  field: TaskSortBy
+  direction: TaskSortOrder
+}
+
+// Stored in the saved_views.display_options JSONB column
+export type SavedViewDisplayOptions = {
+  compact?: boolean
+}
+
+// A row of the saved_views table with its JSONB columns narrowed; icon is an emoji
+export interface SavedView
+  extends Omit<Tables<'saved_views'>, 'filters' | 'sort_order' | 'display_options'> {
+  filters: TaskFilters
+  sort_order: SavedViewSort
+  display_options: SavedViewDisplayOptions | null
+}
+
+export interface SavedViewFormData {
+  name: string
+  icon?: string | null
+  view_mode: ViewMode
+  filters: TaskFilters
+  sort_order: SavedViewSort
+  display_options?: SavedViewDisplayOptions | null
+  is_pinned?: boolean
+  is_default?: boolean
+}
@@ -1,44 +1,10 @@
-export type TagColor =
-  | 'red'
-  | 'orange'
-  | 'amber'
-  | 'yellow'
-  | 'lime'
-  | 'green'
-  | 'emerald'
-  | 'teal'
-  | 'cyan'
-  | 'sky'
-  | 'blue'
-  | 'indigo'
-  | 'violet'
-  | 'purple'
-  | 'fuchsia'
-  | 'pink'
-  | 'rose'
-  | 'gray'
+import { Enums, Tables } from '@/types/database'
 
-export type TagGradient =
-  | 'sunset'
-  | 'ocean'
-  | 'forest'
-  | 'twilight'
-  | 'rose'
-  | 'candy'
-  | 'sky'
-  | 'fire'
+export type TagColor = Enums<'tag_color'>
 
-export interface Tag {
-  id: string
-  user_id: string
-  name: string
-  color: TagColor | null
-  gradient: TagGradient | null
-  icon: string | null
-  parent_id: string | null
-  created_at: string
-  updated_at: string
-}
+export type TagGradient = Enums<'tag_gradient'>
+
+export type Tag = Tables<'tags'>
 
 export interface TagWithChildren extends Tag {
   children: TagWithChildren[]
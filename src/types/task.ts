@@ -1,40 +1,14 @@
-export type TaskStatus = 'ready' | 'in_progress' | 'blocked' | 'completed' | 'archived'
+import { Enums, Tables } from '@/types/database'
+import { RecurrenceFormData } from '@/types/recurrence'
+import { HabitTargetFrequency, HabitTimeOfDay } from '@/types/habit'
 
-export type TaskType = 'task' | 'habit' | 'recurring' | 'someday'
+export type TaskStatus = Enums<'task_status'>
 
-export interface Task {
-  id: string
-  user_id: string
-  title: string
-  description: string | null
-  status: TaskStatus
-  type: TaskType
-
-  // Scheduling
-  due_date: string | null
-  scheduled_date: string | null
-  completed_at: string | null
-
-  // Priority (Eisenhower Matrix)
-  is_urgent: boolean
-  is_important: boolean
-
-  // Organization
-  parent_id: string | null
-  order_index: number
-
-  // Additional fields
-  estimated_minutes: number | null
-  actual_minutes: number | null
-  notes: string | null
-
-  // Someday task fields
-  last_nudge_date: string | null
-  nudge_count: number
+export type TaskType = Enums<'task_type'>
 
-  // Metadata
-  created_at: string
-  updated_at: string
+// A row of the tasks table, with the target_frequency JSONB column narrowed to its app shape
+export interface Task extends Omit<Tables<'tasks'>, 'target_frequency'> {
+  target_frequency: HabitTargetFrequency | null
 }
 
 export interface TaskWithTags extends Task {
@@ -53,15 +27,43 @@ export interface TaskFormData {
   type?: TaskType
   due_date?: string | null
   scheduled_date?: string | null
+  completed_at?: string | null // Only used when creating a completed task; defaults to now
   is_urgent?: boolean
   is_important?: boolean
   parent_id?: string | null
   estimated_minutes?: number | null
   notes?: string | null
+  timer_duration_minutes?: number | null
   tags?: string[]
+  recurrence?: RecurrenceFormData | null // Only used when type is 'recurring'
+  target_frequency?: HabitTargetFrequency | null // Only used when type is 'habit'
+  time_of_day?: HabitTimeOfDay | null // Only used when type is 'habit'
+  nudge_threshold_days?: number | null // Only used when type is 'someday'
 }
 
-export interface TaskFilters {
+// How the user answered a someday review nudge
+export type NudgeResponse =
+  | { action: 'schedule'; due_date: string }
+  | { action: 'snooze' }
+  | { action: 'drop' }
+
+// How to move a task's due date (PRD 5.7 shift forward)
+export type ShiftStrategy =
+  | { kind: 'tomorrow' }
+  | { kind: 'days'; days: number }
+  | { kind: 'next_monday' }
+  | { kind: 'remove_due_date' }
+
+export type ShiftStrategyKind = ShiftStrategy['kind']
+
+// Eisenhower matrix quadrant: 1 Do First, 2 Schedule, 3 Delegate, 4 Eliminate
+export type EisenhowerQuadrant = 1 | 2 | 3 | 4
+
+// User-chosen quadrant names (PRD eisenhower_quadrant_labels); missing keys use the defaults
+export type QuadrantLabels = Partial<Record<'q1' | 'q2' | 'q3' | 'q4', string>>
+
+// Stored in the saved_views.filters JSONB column
+export type TaskFilters = {
   status?: TaskStatus[]
   type?: TaskType[]
   tags?: string[]
@@ -0,0 +1,10 @@
+export type TimerStatus = 'running' | 'paused'
+
+// Persisted as timestamps rather than a ticking counter so a reload picks up where it left off
+export interface ActiveTimer {
+  taskId: string
+  status: TimerStatus
+  durationMinutes: number
+  startedAt: string // When the current running segment began
+  elapsedMs: number // Time banked from earlier segments, before the last pause
+}
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 6: Allow Recurring Tasks
+-- ============================================================================
+
+-- Recurring tasks keep their own type so the app knows to look up their
+-- recurrence pattern; the pattern itself lives in the recurrences table.
+ALTER TABLE tasks DROP CONSTRAINT tasks_valid_type;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_valid_type CHECK (
+  type IN ('task', 'habit', 'parent', 'recurring')
+);
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 7: Add Habit Time of Day
+-- ============================================================================
+
+-- When in the day a habit is usually done; the Habits view groups by it
+ALTER TABLE tasks ADD COLUMN time_of_day VARCHAR(20);
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_valid_time_of_day CHECK (
+  time_of_day IS NULL OR time_of_day IN ('morning', 'afternoon', 'evening', 'anytime')
+);
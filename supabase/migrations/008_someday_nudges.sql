@@ -0,0 +1,17 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 8: Someday Task Nudges
+-- ============================================================================
+
+-- Someday tasks keep their own type so they can be surfaced for review
+ALTER TABLE tasks DROP CONSTRAINT tasks_valid_type;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_valid_type CHECK (
+  type IN ('task', 'habit', 'parent', 'recurring', 'someday')
+);
+
+-- How many times a someday task has been reviewed (scheduled, snoozed or dropped)
+ALTER TABLE tasks ADD COLUMN nudge_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_nudge_threshold_positive CHECK (
+  nudge_threshold_days IS NULL OR nudge_threshold_days > 0
+);
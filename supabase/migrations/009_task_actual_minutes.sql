@@ -0,0 +1,10 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 9: Track Actual Time Spent
+-- ============================================================================
+
+-- Minutes spent on a task, accumulated from finished focus timers
+ALTER TABLE tasks ADD COLUMN actual_minutes INTEGER;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_actual_minutes_non_negative CHECK (
+  actual_minutes IS NULL OR actual_minutes >= 0
+);
@@ -0,0 +1,8 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 10: Manual Task Ordering
+-- ============================================================================
+
+-- Position of a task within its board column; lower comes first
+ALTER TABLE tasks ADD COLUMN order_index INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_tasks_status_order ON tasks(user_id, status, order_index);
@@ -0,0 +1,27 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 11: Reconcile Task Fields
+-- ============================================================================
+-- Adds the task columns the app already reads and writes but the original
+-- schema never defined. Scripts 6-10 covered type, habit, nudge, timer and
+-- ordering fields; this covers the rest.
+
+-- When the user plans to work on the task (distinct from the deadline)
+ALTER TABLE tasks ADD COLUMN scheduled_date TIMESTAMPTZ;
+
+-- When a one-off task was last marked completed; habits use last_completed_at
+ALTER TABLE tasks ADD COLUMN completed_at TIMESTAMPTZ;
+
+ALTER TABLE tasks ADD COLUMN estimated_minutes INTEGER;
+
+ALTER TABLE tasks ADD COLUMN notes TEXT;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_estimated_minutes_positive CHECK (
+  estimated_minutes IS NULL OR estimated_minutes > 0
+);
+
+-- Completed tasks from before this script get their best known completion time
+UPDATE tasks
+SET completed_at = COALESCE(last_completed_at, updated_at)
+WHERE status = 'completed' AND completed_at IS NULL;
+
+CREATE INDEX idx_tasks_scheduled_date ON tasks(scheduled_date);
@@ -0,0 +1,77 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 12: Tag Colour and Gradient Columns
+-- ============================================================================
+-- The original tags.color column held either a colour or a gradient in one
+-- NOT NULL string. Tags now store a palette colour OR a gradient, each by name,
+-- matching the TagColor / TagGradient unions in src/types/tag.ts.
+
+ALTER TABLE tags ADD COLUMN gradient VARCHAR(20);
+ALTER TABLE tags ADD COLUMN updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE tags ALTER COLUMN color DROP NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- Backfill existing rows
+-- ----------------------------------------------------------------------------
+
+-- Gradient names ('rose' and 'sky' are also colour names and stay colours)
+UPDATE tags
+SET gradient = color, color = NULL
+WHERE color IN ('sunset', 'ocean', 'forest', 'twilight', 'candy', 'fire');
+
+-- Raw CSS gradients written before names were used
+UPDATE tags
+SET gradient = CASE color
+    WHEN 'linear-gradient(135deg, #F97316 0%, #EF4444 100%)' THEN 'sunset'
+    WHEN 'linear-gradient(135deg, #3B82F6 0%, #14B8A6 100%)' THEN 'ocean'
+    WHEN 'linear-gradient(135deg, #22C55E 0%, #14B8A6 100%)' THEN 'forest'
+    WHEN 'linear-gradient(135deg, #6366F1 0%, #A855F7 100%)' THEN 'twilight'
+    WHEN 'linear-gradient(135deg, #EC4899 0%, #EF4444 100%)' THEN 'rose'
+    WHEN 'linear-gradient(135deg, #EC4899 0%, #A855F7 100%)' THEN 'candy'
+    WHEN 'linear-gradient(135deg, #3B82F6 0%, #6366F1 100%)' THEN 'sky'
+    WHEN 'linear-gradient(135deg, #EAB308 0%, #EF4444 100%)' THEN 'fire'
+  END,
+  color = NULL
+WHERE color LIKE 'linear-gradient%';
+
+-- Anything else (hex codes, unknown names) falls back to the default gray
+UPDATE tags
+SET color = 'gray'
+WHERE color IS NOT NULL
+  AND color NOT IN (
+    'red', 'orange', 'amber', 'yellow', 'lime', 'green', 'emerald', 'teal', 'cyan',
+    'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose', 'gray'
+  );
+
+ALTER TABLE tags ALTER COLUMN color TYPE VARCHAR(20);
+
+-- ----------------------------------------------------------------------------
+-- Constraints
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE tags ADD CONSTRAINT tags_valid_color CHECK (
+  color IS NULL OR color IN (
+    'red', 'orange', 'amber', 'yellow', 'lime', 'green', 'emerald', 'teal', 'cyan',
+    'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose', 'gray'
+  )
+);
+
+ALTER TABLE tags ADD CONSTRAINT tags_valid_gradient CHECK (
+  gradient IS NULL OR gradient IN (
+    'sunset', 'ocean', 'forest', 'twilight', 'rose', 'candy', 'sky', 'fire'
+  )
+);
+
+-- A tag is styled by a colour or a gradient, never both
+ALTER TABLE tags ADD CONSTRAINT tags_color_or_gradient CHECK (
+  color IS NULL OR gradient IS NULL
+);
+
+-- ----------------------------------------------------------------------------
+-- Keep updated_at current, like tasks and saved_views
+-- ----------------------------------------------------------------------------
+
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON tags
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
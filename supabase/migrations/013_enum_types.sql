@@ -0,0 +1,78 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 13: Enum Types
+-- ============================================================================
+-- Replaces the VARCHAR + CHECK columns with Postgres enums so that the
+-- TypeScript types in src/types/database.ts carry the exact set of allowed
+-- values. src/types/*.ts derive their unions from these, so changing an enum
+-- here changes the app's types once database.ts is updated to match.
+
+CREATE TYPE task_type AS ENUM ('task', 'habit', 'recurring', 'someday');
+CREATE TYPE task_status AS ENUM ('ready', 'in_progress', 'blocked', 'completed', 'archived');
+CREATE TYPE habit_time_of_day AS ENUM ('morning', 'afternoon', 'evening', 'anytime');
+CREATE TYPE recurrence_type AS ENUM ('fixed_schedule', 'after_completion');
+CREATE TYPE view_mode AS ENUM ('list', 'kanban', 'eisenhower', 'today', 'habits');
+
+CREATE TYPE tag_color AS ENUM (
+  'red', 'orange', 'amber', 'yellow', 'lime', 'green', 'emerald', 'teal', 'cyan',
+  'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose', 'gray'
+);
+
+CREATE TYPE tag_gradient AS ENUM (
+  'sunset', 'ocean', 'forest', 'twilight', 'rose', 'candy', 'sky', 'fire'
+);
+
+-- ----------------------------------------------------------------------------
+-- Tasks
+-- ----------------------------------------------------------------------------
+
+-- Parent tasks were never a separate type in the app; being a parent is having children
+UPDATE tasks SET type = 'task' WHERE type = 'parent';
+
+ALTER TABLE tasks DROP CONSTRAINT tasks_valid_type;
+ALTER TABLE tasks DROP CONSTRAINT tasks_valid_status;
+ALTER TABLE tasks DROP CONSTRAINT tasks_valid_time_of_day;
+
+ALTER TABLE tasks ALTER COLUMN type DROP DEFAULT;
+ALTER TABLE tasks ALTER COLUMN status DROP DEFAULT;
+
+ALTER TABLE tasks
+  ALTER COLUMN type TYPE task_type USING type::task_type,
+  ALTER COLUMN status TYPE task_status USING status::task_status,
+  ALTER COLUMN time_of_day TYPE habit_time_of_day USING time_of_day::habit_time_of_day;
+
+ALTER TABLE tasks ALTER COLUMN type SET DEFAULT 'task';
+ALTER TABLE tasks ALTER COLUMN status SET DEFAULT 'ready';
+
+-- ----------------------------------------------------------------------------
+-- Recurrences
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE recurrences DROP CONSTRAINT recurrences_valid_type;
+ALTER TABLE recurrences DROP CONSTRAINT recurrences_fixed_has_anchor;
+
+ALTER TABLE recurrences
+  ALTER COLUMN type TYPE recurrence_type USING type::recurrence_type;
+
+ALTER TABLE recurrences ADD CONSTRAINT recurrences_fixed_has_anchor CHECK (
+  type != 'fixed_schedule' OR anchor_date IS NOT NULL
+);
+
+-- ----------------------------------------------------------------------------
+-- Saved views
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE saved_views DROP CONSTRAINT saved_views_valid_mode;
+
+ALTER TABLE saved_views
+  ALTER COLUMN view_mode TYPE view_mode USING view_mode::view_mode;
+
+-- ----------------------------------------------------------------------------
+-- Tags
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE tags DROP CONSTRAINT tags_valid_color;
+ALTER TABLE tags DROP CONSTRAINT tags_valid_gradient;
+
+ALTER TABLE tags
+  ALTER COLUMN color TYPE tag_color USING color::tag_color,
+  ALTER COLUMN gradient TYPE tag_gradient USING gradient::tag_gradient;
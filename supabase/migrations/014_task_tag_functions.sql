@@ -0,0 +1,91 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 14: Task + Tag Functions
+-- ============================================================================
+-- Writing a task and its tag links used to take separate requests, so a
+-- dropped connection could leave a task without the tags it was saved with.
+-- These functions do the whole write in one transaction; called through
+-- supabase.rpc, either everything is stored or nothing is.
+--
+-- Both run as the calling user (SECURITY INVOKER), so the RLS policies on
+-- tasks and task_tags still apply.
+
+-- Creates a task and links it to the given tags. p_task holds tasks columns
+-- by name; columns it leaves out get the same defaults as a plain insert.
+CREATE OR REPLACE FUNCTION create_task_with_tags(p_task JSONB, p_tag_ids UUID[] DEFAULT '{}')
+RETURNS tasks
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_task tasks;
+BEGIN
+  INSERT INTO tasks (
+    user_id,
+    title,
+    description,
+    status,
+    type,
+    due_date,
+    scheduled_date,
+    is_urgent,
+    is_important,
+    parent_id,
+    estimated_minutes,
+    notes,
+    timer_duration_minutes,
+    target_frequency,
+    time_of_day,
+    nudge_threshold_days
+  )
+  SELECT
+    auth.uid(),
+    t.title,
+    t.description,
+    COALESCE(t.status, 'ready'),
+    COALESCE(t.type, 'task'),
+    t.due_date,
+    t.scheduled_date,
+    COALESCE(t.is_urgent, false),
+    COALESCE(t.is_important, false),
+    t.parent_id,
+    t.estimated_minutes,
+    t.notes,
+    t.timer_duration_minutes,
+    t.target_frequency,
+    t.time_of_day,
+    t.nudge_threshold_days
+  FROM jsonb_populate_record(NULL::tasks, p_task) AS t
+  RETURNING * INTO new_task;
+
+  INSERT INTO task_tags (task_id, tag_id)
+  SELECT new_task.id, tag_id
+  FROM unnest(p_tag_ids) AS tag_id;
+
+  RETURN new_task;
+END;
+$$;
+
+-- Makes the task's tags exactly p_tag_ids. Only links that actually change are
+-- deleted or inserted, so realtime subscribers see the real difference.
+CREATE OR REPLACE FUNCTION replace_task_tags(p_task_id UUID, p_tag_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM tasks WHERE id = p_task_id) THEN
+    RAISE EXCEPTION 'Task % not found', p_task_id;
+  END IF;
+
+  DELETE FROM task_tags
+  WHERE task_id = p_task_id
+    AND tag_id <> ALL (p_tag_ids);
+
+  INSERT INTO task_tags (task_id, tag_id)
+  SELECT p_task_id, tag_id
+  FROM unnest(p_tag_ids) AS tag_id
+  ON CONFLICT (task_id, tag_id) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 15: Client-Generated Task IDs
+-- ============================================================================
+-- The app adds new tasks to the screen before the server has answered, using
+-- an id it generates itself. create_task_with_tags now keeps an id passed in
+-- p_task instead of always generating one, so the optimistic row and the
+-- stored row (and its realtime echo) share the same id.
+
+CREATE OR REPLACE FUNCTION create_task_with_tags(p_task JSONB, p_tag_ids UUID[] DEFAULT '{}')
+RETURNS tasks
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_task tasks;
+BEGIN
+  INSERT INTO tasks (
+    id,
+    user_id,
+    title,
+    description,
+    status,
+    type,
+    due_date,
+    scheduled_date,
+    is_urgent,
+    is_important,
+    parent_id,
+    estimated_minutes,
+    notes,
+    timer_duration_minutes,
+    target_frequency,
+    time_of_day,
+    nudge_threshold_days
+  )
+  SELECT
+    COALESCE(t.id, uuid_generate_v4()),
+    auth.uid(),
+    t.title,
+    t.description,
+    COALESCE(t.status, 'ready'),
+    COALESCE(t.type, 'task'),
+    t.due_date,
+    t.scheduled_date,
+    COALESCE(t.is_urgent, false),
+    COALESCE(t.is_important, false),
+    t.parent_id,
+    t.estimated_minutes,
+    t.notes,
+    t.timer_duration_minutes,
+    t.target_frequency,
+    t.time_of_day,
+    t.nudge_threshold_days
+  FROM jsonb_populate_record(NULL::tasks, p_task) AS t
+  RETURNING * INTO new_task;
+
+  INSERT INTO task_tags (task_id, tag_id)
+  SELECT new_task.id, tag_id
+  FROM unnest(p_tag_ids) AS tag_id;
+
+  RETURN new_task;
+END;
+$$;
@@ -0,0 +1,89 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 16: Delta Sync
+-- ============================================================================
+-- The app loads only the tasks changed since its last sync (updated_at newer
+-- than the last value it saw) instead of every task on every load. For that
+-- to be complete:
+--   - deleted tasks leave a tombstone in deleted_rows, since a deleted row
+--     can't be found by its updated_at
+--   - adding or removing a tag link bumps the task's updated_at, so tag
+--     changes show up with the task
+
+-- ----------------------------------------------------------------------------
+-- Tombstones
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE deleted_rows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  table_name VARCHAR(50) NOT NULL,
+  row_id UUID NOT NULL,
+  deleted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_deleted_rows_user_table_deleted_at
+  ON deleted_rows(user_id, table_name, deleted_at);
+
+ALTER TABLE deleted_rows ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below
+CREATE POLICY deleted_rows_select_policy ON deleted_rows
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Tombstones are kept for 30 days; a client that hasn't synced for longer
+-- reloads everything (see TOMBSTONE_RETENTION_DAYS in src/lib/task-sync.ts).
+-- Runs as the table owner because users can't insert into deleted_rows.
+CREATE OR REPLACE FUNCTION record_task_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO deleted_rows (user_id, table_name, row_id)
+  VALUES (OLD.user_id, 'tasks', OLD.id);
+
+  DELETE FROM deleted_rows
+  WHERE user_id = OLD.user_id
+    AND deleted_at < NOW() - INTERVAL '30 days';
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER record_task_deletion
+  AFTER DELETE ON tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION record_task_deletion();
+
+-- ----------------------------------------------------------------------------
+-- Tag link changes count as task changes
+-- ----------------------------------------------------------------------------
+
+-- When the task itself is being deleted the UPDATE simply matches nothing
+CREATE OR REPLACE FUNCTION touch_task_on_tag_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE tasks
+  SET updated_at = NOW()
+  WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.task_id ELSE NEW.task_id END;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER touch_task_on_tag_change
+  AFTER INSERT OR DELETE ON task_tags
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_task_on_tag_change();
+
+-- ----------------------------------------------------------------------------
+-- Index for "changed since"
+-- ----------------------------------------------------------------------------
+
+CREATE INDEX idx_tasks_user_updated_at ON tasks(user_id, updated_at);
@@ -0,0 +1,37 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 17: Task Tag Owner
+-- ============================================================================
+-- Realtime subscriptions can only be filtered on a column of the changed
+-- row, and task_tags had no column saying whose link it is, so the app was
+-- sent every user's tag link changes. Each link now records the user that
+-- owns its task.
+
+ALTER TABLE task_tags
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+UPDATE task_tags
+SET user_id = tasks.user_id
+FROM tasks
+WHERE tasks.id = task_tags.task_id;
+
+ALTER TABLE task_tags ALTER COLUMN user_id SET NOT NULL;
+
+CREATE INDEX idx_task_tags_user_id ON task_tags(user_id);
+
+-- Links may only be made on your own tasks, and in your own name
+DROP POLICY task_tags_insert_policy ON task_tags;
+
+CREATE POLICY task_tags_insert_policy ON task_tags
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = task_tags.task_id
+      AND tasks.user_id = auth.uid()
+    )
+  );
+
+-- Deleted rows are sent with every column rather than just the primary key,
+-- so removals carry user_id as well
+ALTER TABLE task_tags REPLICA IDENTITY FULL;
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 18: Completion Time on Create
+-- ============================================================================
+-- Tasks can be created already completed (imports bring over finished work),
+-- but create_task_with_tags didn't copy completed_at, so those tasks had no
+-- completion time. It now keeps the completed_at passed in p_task, or uses
+-- the current time, for tasks created as completed.
+
+CREATE OR REPLACE FUNCTION create_task_with_tags(p_task JSONB, p_tag_ids UUID[] DEFAULT '{}')
+RETURNS tasks
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  new_task tasks;
+BEGIN
+  INSERT INTO tasks (
+    id,
+    user_id,
+    title,
+    description,
+    status,
+    type,
+    due_date,
+    scheduled_date,
+    completed_at,
+    is_urgent,
+    is_important,
+    parent_id,
+    estimated_minutes,
+    notes,
+    timer_duration_minutes,
+    target_frequency,
+    time_of_day,
+    nudge_threshold_days
+  )
+  SELECT
+    COALESCE(t.id, uuid_generate_v4()),
+    auth.uid(),
+    t.title,
+    t.description,
+    COALESCE(t.status, 'ready'),
+    COALESCE(t.type, 'task'),
+    t.due_date,
+    t.scheduled_date,
+    CASE WHEN t.status = 'completed' THEN COALESCE(t.completed_at, NOW()) END,
+    COALESCE(t.is_urgent, false),
+    COALESCE(t.is_important, false),
+    t.parent_id,
+    t.estimated_minutes,
+    t.notes,
+    t.timer_duration_minutes,
+    t.target_frequency,
+    t.time_of_day,
+    t.nudge_threshold_days
+  FROM jsonb_populate_record(NULL::tasks, p_task) AS t
+  RETURNING * INTO new_task;
+
+  INSERT INTO task_tags (task_id, tag_id)
+  SELECT new_task.id, tag_id
+  FROM unnest(p_tag_ids) AS tag_id;
+
+  RETURN new_task;
+END;
+$$;
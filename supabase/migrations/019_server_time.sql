@@ -0,0 +1,16 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 19: Server Time
+-- ============================================================================
+-- The app's sync cursor is the newest updated_at it has seen. A user with no
+-- tasks has none, so every sync was a full load; the cursor now falls back
+-- to the database's clock at the time of the sync.
+
+CREATE OR REPLACE FUNCTION get_server_time()
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT NOW();
+$$;
@@ -0,0 +1,11 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 20: Realtime Delete Identity
+-- ============================================================================
+-- Realtime listeners only receive the signed-in user's rows, filtered on
+-- user_id. A deleted row is sent with just its primary key by default, so the
+-- filter never matched deletes of tasks and tags and they only reached other
+-- devices at the next sync. Like task_tags (script 17), deleted rows are now
+-- sent with every column.
+
+ALTER TABLE tasks REPLICA IDENTITY FULL;
+ALTER TABLE tags REPLICA IDENTITY FULL;
@@ -0,0 +1,40 @@
+-- ============================================================================
+-- DoTheThing Database Schema - Script 21: Completion Series
+-- ============================================================================
+-- Each occurrence of a recurring task is its own task row, so a task's
+-- completions only ever cover one occurrence. Completions now also record the
+-- recurrence they were made under, which ties together the whole series'
+-- history. Only the open occurrence is still linked to its recurrence, so
+-- existing completions of earlier occurrences can't be traced and stay unset.
+
+ALTER TABLE completions
+  ADD COLUMN recurrence_id UUID REFERENCES recurrences(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_completions_recurrence_id ON completions(recurrence_id);
+
+UPDATE completions
+SET recurrence_id = recurrences.id
+FROM recurrences
+WHERE recurrences.task_id = completions.task_id;
+
+-- The series has to be the user's own, like the task
+DROP POLICY completions_insert_policy ON completions;
+
+CREATE POLICY completions_insert_policy ON completions
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM tasks
+      WHERE tasks.id = completions.task_id
+      AND tasks.user_id = auth.uid()
+    )
+    AND (
+      completions.recurrence_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM recurrences
+        JOIN tasks ON tasks.id = recurrences.task_id
+        WHERE recurrences.id = completions.recurrence_id
+        AND tasks.user_id = auth.uid()
+      )
+    )
+  );